@@ -1,99 +1,270 @@
 /**
  * AI Prompt Enhancer for 3D Abstract Moodboard
  *
- * Uses Workers AI to convert emotional prompts into detailed Three.js code.
- * Model: @cf/meta/llama-3.3-70b-instruct-fp8-fast
+ * Uses a model client to convert emotional prompts into a declarative
+ * MoodSceneSpec (default) or, behind the "code" format flag, raw Three.js
+ * code. Prompts come from the versioned templates in prompts/templates;
+ * models and their fallback chain from models/registry.
  */
 
-import { SERVER_INSTRUCTIONS } from "./server-instructions";
+import {
+  buildEmotionProfile,
+  type EmotionProfile,
+} from "./emotion/visual-parameters";
+import { formatStylePresetsDocumentation, type StylePreset } from "./styles/presets";
+import { formatShaderChunksDocumentation } from "./shaders/glsl-chunks";
+import { formatPostProcessingDocumentation } from "./shaders/post-processing";
+import { getPerformanceBudget } from "./generation/performance-budget";
+import {
+  DEFAULT_PROMPT_VERSION,
+  PROMPT_TEMPLATES,
+  type PromptContext,
+  type PromptTemplate,
+} from "./prompts/templates";
+import { findExemplars } from "./exemplars/library";
+import type { Completion, ModelClient } from "./models/providers";
+import type { GenerationProvenance } from "./types";
+import {
+  MOOD_SCENE_SPEC_JSON_SCHEMA,
+  parseMoodSceneSpec,
+  type MoodSceneSpec,
+} from "./schemas/scene-spec";
+import {
+  validateThreeCode,
+  CodeValidationError,
+  type CodeDiagnostic,
+} from "./validation/code-validator";
 
-const AI_MODEL = "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
+/**
+ * Options shared by every generation call
+ */
+export interface GenerationOptions {
+  /** Sampling seed; the same seed and prompt reproduce the same output */
+  seed?: number;
+  /**
+   * Receives the text generated so far while a code completion streams.
+   * When set, the completion is requested with `stream: true`.
+   */
+  onToken?: (text: string) => void | Promise<void>;
+  /** Resolved emotion driving the prompt; built from the emotion text when omitted */
+  emotionProfile?: EmotionProfile;
+  /** Style preset whose constraints are added to the prompt */
+  style?: StylePreset;
+  /** Prompt template to render; the latest version when omitted */
+  template?: PromptTemplate;
+  /** KV namespace holding promoted exemplars; built-in exemplars need none */
+  exemplarStore?: KVNamespace;
+  /** Receives the model and parameters of every completion the model returned */
+  onCompletion?: (completion: Completion) => void;
+  /** Ask for code driven by the widget's audio levels (templates with audio) */
+  audioReactive?: boolean;
+  /** Text the scene must show (templates with text) */
+  caption?: string;
+}
+
+/**
+ * Describes how a generation was produced, for structuredContent and logs
+ *
+ * @param template - Template the prompts were rendered from
+ * @param completion - Completion that produced the returned scene
+ */
+export function describeGeneration(template: PromptTemplate, completion: Completion): GenerationProvenance {
+  return {
+    promptVersion: template.version,
+    model: completion.model,
+    parameters: completion.parameters,
+  };
+}
+
+/**
+ * Template and rendering context shared by every generation call
+ */
+function preparePrompt(
+  emotion: string,
+  complexity: number,
+  options: GenerationOptions
+): { template: PromptTemplate; ctx: PromptContext } {
+  return {
+    template: options.template ?? PROMPT_TEMPLATES[DEFAULT_PROMPT_VERSION],
+    ctx: {
+      emotion,
+      complexity,
+      profile: options.emotionProfile ?? buildEmotionProfile(emotion),
+      style: options.style,
+      audioReactive: options.audioReactive,
+      caption: options.caption,
+    },
+  };
+}
 
 /**
- * Generates Three.js code from an emotion/concept using Workers AI
+ * Generates Three.js code from an emotion/concept
  *
- * @param ai - Workers AI binding
+ * Templates with exemplars (v3+) retrieve the closest scenes from the
+ * exemplar library and add them to the prompt as few-shot examples.
+ *
+ * @param models - Model client (provider and fallback chain)
  * @param emotion - The emotion or concept to visualize
  * @param complexity - Complexity level 1-10 (affects object count)
- * @param gatewayId - Optional AI Gateway ID for logging/caching
+ * @param options - Sampling options (seed), streaming callback, emotion profile, style, prompt template and exemplar store
  * @returns Three.js JavaScript code string
+ * @throws CodeValidationError if the generated code fails validation
  */
 export async function enhanceEmotionToThreeJS(
-  ai: Ai,
+  models: ModelClient,
   emotion: string,
   complexity: number = 5,
-  gatewayId?: string
+  options: GenerationOptions = {}
 ): Promise<string> {
-  const systemPrompt = `You are an expert Three.js developer creating abstract art installations.
-Your code will be executed in a sandboxed environment with these globals:
-- THREE (Three.js library r181)
-- canvas (pre-created canvas element)
-- width, height (canvas dimensions)
-- OrbitControls (for camera controls)
-- EffectComposer, RenderPass, UnrealBloomPass (for post-processing)
-
-REQUIREMENTS:
-1. Create a complete, self-contained scene
-2. Always include OrbitControls for user exploration
-3. Use requestAnimationFrame for animations
-4. Set renderer.setClearColor() to a dark color
-5. Keep light intensity <= 1
-6. Use MeshStandardMaterial for most objects
-7. The complexity parameter ${complexity}/10 means include roughly ${Math.floor(5 + complexity * 2)} objects
-
-EMOTIONAL MAPPINGS:
-${SERVER_INSTRUCTIONS.split('## Creative Guidelines')[1]?.split('## Technical Constraints')[0] || ''}
-
-Return ONLY executable JavaScript code. No markdown, no explanations, no code blocks.`;
-
-  const userPrompt = `Generate Three.js code for the emotion: "${emotion}" with complexity ${complexity}/10.
-
-The scene should visually represent the feeling of "${emotion}" using abstract 3D shapes, appropriate colors, lighting, and animations.
-
-Remember:
-- Include OrbitControls for camera manipulation
-- Use appropriate colors and shapes for the emotion
-- Add smooth animations that reinforce the mood
-- Keep code clean and efficient`;
-
-  const options: Record<string, unknown> = {};
-  if (gatewayId) {
-    options.gateway = {
-      id: gatewayId,
-      cacheTtl: 3600, // Cache for 1 hour
-    };
+  const { template, ctx } = preparePrompt(emotion, complexity, options);
+  if (template.exemplars) {
+    ctx.exemplars = await findExemplars(options.exemplarStore, ctx.profile, options.style?.name);
   }
 
-  const response = await ai.run(
-    AI_MODEL,
-    {
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      max_tokens: 4096, // Prevent truncation
-    },
+  return completeThreeJSCode(
+    models,
+    template,
+    template.codeSystem(ctx),
+    template.codeUser(ctx),
+    emotion,
+    complexity,
     options
   );
+}
 
-  // Extract the response text
-  const rawCode = typeof response === "object" && "response" in response
-    ? (response as { response: string }).response
-    : String(response);
+/**
+ * Details of a failed scene passed back to the model for repair
+ */
+export interface CodeRepairRequest {
+  /** The code that failed */
+  code: string;
+  /** Emotion the code was meant to express */
+  emotion: string;
+  /** Complexity level 1-10 the code was generated for */
+  complexity?: number;
+  /** Validator diagnostics, when the code was rejected statically */
+  diagnostics?: CodeDiagnostic[];
+  /** Error thrown while the widget executed the code */
+  runtimeError?: { message: string; stack?: string };
+}
+
+/**
+ * Asks the model to fix scene code that failed validation or threw at runtime
+ *
+ * @param models - Model client (provider and fallback chain)
+ * @param request - Failing code and the reasons it failed
+ * @param options - Sampling options (seed), streaming callback, emotion profile, style and prompt template
+ * @returns Corrected Three.js JavaScript code string
+ * @throws CodeValidationError if the corrected code still fails validation
+ */
+export async function repairThreeJSCode(
+  models: ModelClient,
+  request: CodeRepairRequest,
+  options: GenerationOptions = {}
+): Promise<string> {
+  const { code, emotion, complexity = 5, diagnostics = [], runtimeError } = request;
+
+  const problems = [
+    ...diagnostics
+      .filter((d) => d.severity === "error")
+      .map((d) => `- ${d.rule}${d.line !== undefined ? ` (line ${d.line})` : ""}: ${d.message}`),
+    ...(runtimeError
+      ? [`- runtime error: ${runtimeError.message}${runtimeError.stack ? `\n${runtimeError.stack}` : ""}`]
+      : []),
+  ].join("\n");
+
+  const { template, ctx } = preparePrompt(emotion, complexity, options);
+  return completeThreeJSCode(
+    models,
+    template,
+    template.codeSystem(ctx),
+    template.codeRepairUser({ ...ctx, code, problems }),
+    emotion,
+    complexity,
+    options
+  );
+}
+
+/**
+ * Runs a code completion, then cleans and validates the result
+ *
+ * @throws CodeValidationError (carrying the code) if validation fails
+ */
+async function completeThreeJSCode(
+  models: ModelClient,
+  template: PromptTemplate,
+  systemPrompt: string,
+  userPrompt: string,
+  emotion: string,
+  complexity: number,
+  options: GenerationOptions = {}
+): Promise<string> {
+  const completion = await models.complete({
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt },
+    ],
+    ...template.parameters,
+    seed: options.seed,
+    onToken: options.onToken,
+    subject: { emotion, complexity },
+  });
+  options.onCompletion?.(completion);
 
   // Clean up the response - remove markdown code blocks if present
-  const code = cleanupCode(rawCode);
+  const code = cleanupCode(completion.text);
 
-  // Validate the code is complete (not truncated)
-  if (!isCodeComplete(code)) {
-    throw new Error(
-      "AI generated incomplete code (truncated output). Please try again."
-    );
+  // Parse and check the code (syntax, sandbox safety, render loop, controls, budget)
+  const validation = validateThreeCode(code, { budget: getPerformanceBudget(complexity) });
+  if (!validation.valid) {
+    throw new CodeValidationError(validation.diagnostics, code);
   }
 
   return code;
 }
 
+/**
+ * Generates a declarative MoodSceneSpec from an emotion/concept
+ *
+ * The model is constrained to JSON output matching the spec's JSON Schema;
+ * the result is validated with Zod before it is returned.
+ *
+ * @param models - Model client (provider and fallback chain)
+ * @param emotion - The emotion or concept to visualize
+ * @param complexity - Complexity level 1-10 (affects object count)
+ * @param options - Sampling options (seed), emotion profile, style and prompt template
+ * @returns Validated scene spec
+ */
+export async function enhanceEmotionToSceneSpec(
+  models: ModelClient,
+  emotion: string,
+  complexity: number = 5,
+  options: GenerationOptions = {}
+): Promise<MoodSceneSpec> {
+  const { template, ctx } = preparePrompt(emotion, complexity, options);
+
+  const completion = await models.complete({
+    messages: [
+      { role: "system", content: template.specSystem(ctx) },
+      { role: "user", content: template.specUser(ctx) },
+    ],
+    jsonSchema: MOOD_SCENE_SPEC_JSON_SCHEMA,
+    ...template.parameters,
+    seed: options.seed,
+    subject: { emotion, complexity },
+  });
+  options.onCompletion?.(completion);
+
+  let candidate: unknown;
+  try {
+    candidate = JSON.parse(cleanupCode(completion.text));
+  } catch {
+    throw new Error("AI generated a scene spec that is not valid JSON. Please try again.");
+  }
+
+  return parseMoodSceneSpec(candidate);
+}
+
 /**
  * Cleans up AI-generated code by removing markdown artifacts
  */
@@ -103,6 +274,8 @@ function cleanupCode(code: string): string {
   // Remove markdown code blocks if present
   if (cleaned.startsWith("```javascript")) {
     cleaned = cleaned.slice("```javascript".length);
+  } else if (cleaned.startsWith("```json")) {
+    cleaned = cleaned.slice("```json".length);
   } else if (cleaned.startsWith("```js")) {
     cleaned = cleaned.slice("```js".length);
   } else if (cleaned.startsWith("```")) {
@@ -116,48 +289,6 @@ function cleanupCode(code: string): string {
   return cleaned.trim();
 }
 
-/**
- * Validates that the generated code appears complete
- * Returns true if code looks complete, false if truncated
- */
-function isCodeComplete(code: string): boolean {
-  const trimmed = code.trim();
-
-  // Check for common truncation patterns (ends mid-statement)
-  const truncationPatterns = [
-    /:\s*$/,           // Ends with colon (incomplete property)
-    /,\s*$/,           // Ends with comma (incomplete list)
-    /\(\s*$/,          // Ends with open paren
-    /{\s*$/,           // Ends with open brace
-    /\[\s*$/,          // Ends with open bracket
-    /=\s*$/,           // Ends with equals (incomplete assignment)
-    /\+\s*$/,          // Ends with operator
-    /-\s*$/,
-    /\*\s*$/,
-    /\/\s*$/,
-  ];
-
-  for (const pattern of truncationPatterns) {
-    if (pattern.test(trimmed)) {
-      return false;
-    }
-  }
-
-  // Check for balanced braces (simple check)
-  const openBraces = (trimmed.match(/{/g) || []).length;
-  const closeBraces = (trimmed.match(/}/g) || []).length;
-  if (openBraces > closeBraces + 1) {
-    return false; // Significantly unbalanced
-  }
-
-  // Must have animate() call for a valid Three.js scene
-  if (!trimmed.includes("animate()") && !trimmed.includes("requestAnimationFrame")) {
-    return false;
-  }
-
-  return true;
-}
-
 /**
  * Documentation content for learn_mood_primitives tool
  */
@@ -320,8 +451,114 @@ const eased = (1 - Math.cos(progress * Math.PI)) / 2;
 // Bounce
 const bounce = Math.abs(Math.sin(time * 5)) * 0.5;
 \`\`\`
+
+## Seamless Loops
+Drive every motion from one period and declare it; the widget can then
+record the scene as a video that loops without a jump.
+\`\`\`javascript
+const period = 8; // seconds
+setLoopPeriod(period);
+// In the animation loop
+const phase = (time / period) * Math.PI * 2;
+object.rotation.y = phase;
+object.position.y = Math.sin(phase * 2) * 0.5; // whole multiples of the phase only
+\`\`\`
 `,
 
+  audio: `# Audio-Reactive Scenes
+
+Scenes generated with \`audioReactive: true\` can follow sound. The widget
+offers two sources: a synthesized ambient track tuned to the emotion, or
+the microphone (opt-in; nothing is recorded or sent anywhere). Scene code
+reads the levels from the \`audio\` global:
+
+| Level | Range | Frequencies | Good for |
+|-------|-------|-------------|----------|
+| \`audio.bass\` | 0-1 | 20-250 Hz | Scale pulses, large motions |
+| \`audio.mid\` | 0-1 | 250-2000 Hz | Emissive and light intensity |
+| \`audio.treble\` | 0-1 | 2-8 kHz | Particle size, opacity, shimmer |
+| \`audio.level\` | 0-1 | Overall | Bloom strength, camera drift |
+| \`audio.active\` | boolean | - | Whether a source is playing |
+
+Levels are smoothed (fast attack, slow release) and are 0 while no audio
+plays, so always add them on top of the normal animation.
+
+## Bass Pulse
+\`\`\`javascript
+const pulse = 1 + Math.sin(time * 2) * 0.05 + audio.bass * 0.4;
+core.scale.setScalar(pulse);
+\`\`\`
+
+## Glow on Mids
+\`\`\`javascript
+material.emissiveIntensity = 0.3 + audio.mid * 1.5;
+keyLight.intensity = 0.6 + audio.mid * 0.4;
+\`\`\`
+
+## Sparkling Particles
+\`\`\`javascript
+particles.material.size = 0.05 + audio.treble * 0.15;
+particles.material.opacity = 0.5 + audio.treble * 0.5;
+\`\`\`
+
+## Loudness into Bloom
+\`\`\`javascript
+bloomPass.strength = 0.8 + audio.level * 1.2;
+\`\`\`
+
+Declarative spec scenes are bound by the widget itself: objects pulse with
+the bass and bloom follows the overall level.
+`,
+
+  typography: `# 3D Typography
+
+Three typefaces are bundled with the widget; fonts cannot be loaded from
+the network. Code scenes build lettering with the \`createTextGeometry\`
+global, which returns a TextGeometry centred on the origin:
+
+| Option | Default | Notes |
+|--------|---------|-------|
+| \`font\` | \`"helvetiker"\` | \`"helvetiker"\` (clean sans), \`"helvetiker-bold"\` (heavy sans), \`"optimer"\` (elegant, flared) |
+| \`size\` | 0.5 | Letter height in world units |
+| \`depth\` | 0.1 | Extrusion depth; 0 for flat lettering |
+| \`bevel\` | false | Rounded edges that catch the light |
+
+The fonts cover basic Latin; other characters render as "?".
+
+## Floating Word
+\`\`\`javascript
+const word = new THREE.Mesh(
+  createTextGeometry("calm", { font: "optimer", size: 0.6, depth: 0.05 }),
+  new THREE.MeshStandardMaterial({ color: 0xe8f4f8, emissive: 0x7ec8e3, emissiveIntensity: 0.4 })
+);
+word.position.set(0, -1.5, 1);
+scene.add(word);
+
+// In the animation loop: drift and keep facing the viewer
+word.position.y = -1.5 + Math.sin(time * 0.6) * 0.05;
+word.quaternion.copy(camera.quaternion);
+\`\`\`
+
+## Spec Text Objects
+\`\`\`json
+{ "kind": "text", "text": "calm", "font": "optimer", "size": 0.6, "depth": 0.05,
+  "material": { "color": "#e8f4f8", "emissive": "#7ec8e3", "emissiveIntensity": 0.4 },
+  "position": [0, -1.5, 1], "faceCamera": true,
+  "behaviours": [{ "type": "float", "speed": 0.6, "amplitude": 0.05 }] }
+\`\`\`
+
+Pass \`caption\` to generate_mood_scene to have a line of text placed for
+you: specs get a text object in the lower third of the view, facing the
+viewer and lettered in the palette color that reads best on the
+background; code scenes are asked to render it with createTextGeometry.
+`,
+
+  styles: formatStylePresetsDocumentation(),
+
+  shaders: formatShaderChunksDocumentation(),
+
+  postprocessing: formatPostProcessingDocumentation(),
+
   all: "", // Will be populated below
 };
 
@@ -341,6 +578,26 @@ ${MOOD_PRIMITIVES_DOCUMENTATION.lighting}
 ---
 
 ${MOOD_PRIMITIVES_DOCUMENTATION.animation}
+
+---
+
+${MOOD_PRIMITIVES_DOCUMENTATION.audio}
+
+---
+
+${MOOD_PRIMITIVES_DOCUMENTATION.typography}
+
+---
+
+${MOOD_PRIMITIVES_DOCUMENTATION.styles}
+
+---
+
+${MOOD_PRIMITIVES_DOCUMENTATION.shaders}
+
+---
+
+${MOOD_PRIMITIVES_DOCUMENTATION.postprocessing}
 `;
 
 export type MoodPrimitivesCategory = keyof typeof MOOD_PRIMITIVES_DOCUMENTATION;
@@ -5,9 +5,14 @@
  * Uses an LRU cache to prevent memory leaks from unbounded server creation.
  */
 
-import * as z from "zod/v4";
 import { validateApiKey } from "./auth/apiKeys";
-import type { Env, GenerateMoodSceneInput, LearnMoodPrimitivesInput } from "./types";
+import type {
+  Env,
+  GenerateMoodSceneInput,
+  GenerateMoodJourneyInput,
+  RepairMoodSceneInput,
+  LearnMoodPrimitivesInput,
+} from "./types";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import {
   registerAppTool,
@@ -17,11 +22,42 @@ import {
 } from "@modelcontextprotocol/ext-apps/server";
 import { TOOL_METADATA, getToolDescription } from "./tools/descriptions";
 import { logger } from "./shared/logger";
+import {
+  createProgressReporter,
+  type ProgressReporter,
+  type ProgressToken,
+} from "./generation/progress";
 import { UI_RESOURCES, UI_MIME_TYPE } from "./resources/ui-resources";
 import { loadHtml } from "./helpers/assets";
 import { SERVER_INSTRUCTIONS } from "./server-instructions";
 import {
-  enhanceEmotionToThreeJS,
+  executeGenerateMoodScene,
+  executeGenerateMoodJourney,
+  executeRepairMoodScene,
+  buildGenerationErrorResult,
+  provenanceLogFields,
+} from "./tools";
+import {
+  GenerateMoodSceneInputSchema,
+  GenerateMoodJourneyInputSchema,
+  RepairMoodSceneInputSchema,
+  LearnMoodPrimitivesInputSchema,
+} from "./schemas/inputs";
+import { MAX_TEXT_LENGTH, SCENE_FORMATS } from "./schemas/scene-spec";
+import { GENERATION_MODES } from "./generation/procedural";
+import { MAX_SEED } from "./generation/seed";
+import type { EmotionBlendComponent } from "./emotion/visual-parameters";
+import { STYLE_NAMES } from "./styles/presets";
+import { PROMPT_VERSIONS } from "./prompts/templates";
+import { MODEL_IDS } from "./models/registry";
+import {
+  MAX_JOURNEY_STAGES,
+  MAX_STAGE_SECONDS,
+  MIN_JOURNEY_STAGES,
+  MIN_STAGE_SECONDS,
+  type JourneyStage,
+} from "./generation/journey";
+import {
   MOOD_PRIMITIVES_DOCUMENTATION,
   type MoodPrimitivesCategory,
 } from "./ai-prompt-enhancer";
@@ -152,6 +188,24 @@ export async function handleApiKeyRequest(
 // Server Instance Management
 // ============================================================================
 
+type AppToolHandler = Parameters<typeof registerAppTool>[3];
+type AppToolExtra = Parameters<AppToolHandler>[1];
+
+/**
+ * Registers an app tool whose handler receives its parsed input type
+ *
+ * registerAppTool types args against its own zod build rather than the
+ * tool's input schema, so the handler is cast here once for every tool.
+ */
+function registerTypedAppTool<Args>(
+  server: McpServer,
+  name: string,
+  config: Parameters<typeof registerAppTool>[2],
+  handler: (args: Args, extra: AppToolExtra) => ReturnType<AppToolHandler>
+): void {
+  registerAppTool(server, name, config, handler as unknown as AppToolHandler);
+}
+
 async function getOrCreateServer(
   env: Env,
   userId: string,
@@ -202,23 +256,13 @@ async function getOrCreateServer(
   // ========================================================================
   // Tool 1: generate_mood_scene
   // ========================================================================
-  registerAppTool(
+  registerTypedAppTool<GenerateMoodSceneInput>(
     server,
     "generate_mood_scene",
     {
       title: TOOL_METADATA["generate_mood_scene"].title,
       description: getToolDescription("generate_mood_scene"),
-      inputSchema: {
-        emotion: z.string().min(1).meta({
-          description: "The feeling or concept to visualize (e.g., peace, chaos, energy, curiosity)"
-        }),
-        complexity: z.number().int().min(1).max(10).optional().meta({
-          description: "Scale from 1-10 of how many objects to generate (default: 5)"
-        }),
-        height: z.number().int().positive().optional().meta({
-          description: "Height in pixels for the 3D canvas (default: 600)"
-        }),
-      },
+      inputSchema: GenerateMoodSceneInputSchema,
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -229,16 +273,14 @@ async function getOrCreateServer(
         [RESOURCE_URI_META_KEY]: moodboardResource.uri
       }
     },
-    async (args: GenerateMoodSceneInput) => {
-      const { emotion, complexity = 5, height = 600 } = args;
+    async (args, extra) => {
       const startTime = Date.now();
 
       try {
-        const code = await enhanceEmotionToThreeJS(
-          env.AI,
-          emotion,
-          complexity,
-          env.AI_GATEWAY_ID
+        const result = await executeGenerateMoodScene(
+          env,
+          args,
+          createProgressReporter(extra._meta?.progressToken, extra.sendNotification)
         );
 
         const durationMs = Date.now() - startTime;
@@ -250,10 +292,9 @@ async function getOrCreateServer(
           user_email: email,
           action_id: "",
           duration_ms: durationMs,
+          ...provenanceLogFields(result),
         });
 
-        const result = { code, emotion, height };
-
         return {
           content: [{
             type: "text" as const,
@@ -268,30 +309,138 @@ async function getOrCreateServer(
           error: error instanceof Error ? error.message : String(error),
         });
 
+        return buildGenerationErrorResult(error);
+      }
+    }
+  );
+
+  // ========================================================================
+  // Tool 2: generate_mood_journey
+  // ========================================================================
+  registerTypedAppTool<GenerateMoodJourneyInput>(
+    server,
+    "generate_mood_journey",
+    {
+      title: TOOL_METADATA["generate_mood_journey"].title,
+      description: getToolDescription("generate_mood_journey"),
+      inputSchema: GenerateMoodJourneyInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      },
+      _meta: {
+        [RESOURCE_URI_META_KEY]: moodboardResource.uri
+      }
+    },
+    async (args, extra) => {
+      const startTime = Date.now();
+
+      try {
+        const result = await executeGenerateMoodJourney(
+          env,
+          args,
+          createProgressReporter(extra._meta?.progressToken, extra.sendNotification)
+        );
+
+        logger.info({
+          event: "tool_completed",
+          tool: "generate_mood_journey",
+          user_id: userId,
+          user_email: email,
+          action_id: "",
+          duration_ms: Date.now() - startTime,
+          ...provenanceLogFields(result),
+        });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify(result, null, 2)
+          }],
+          structuredContent: result as unknown as Record<string, unknown>
+        };
+      } catch (error) {
+        logger.error({
+          event: "tool_failed",
+          tool: "generate_mood_journey",
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        return buildGenerationErrorResult(error, "generating mood journey");
+      }
+    }
+  );
+
+  // ========================================================================
+  // Tool 3: repair_mood_scene (widget "Fix it" action)
+  // ========================================================================
+  registerTypedAppTool<RepairMoodSceneInput>(
+    server,
+    "repair_mood_scene",
+    {
+      title: TOOL_METADATA["repair_mood_scene"].title,
+      description: getToolDescription("repair_mood_scene"),
+      inputSchema: RepairMoodSceneInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      },
+      _meta: {
+        [RESOURCE_URI_META_KEY]: moodboardResource.uri
+      }
+    },
+    async (args, extra) => {
+      const startTime = Date.now();
+
+      try {
+        const result = await executeRepairMoodScene(
+          env,
+          args,
+          createProgressReporter(extra._meta?.progressToken, extra.sendNotification)
+        );
+
+        logger.info({
+          event: "tool_completed",
+          tool: "repair_mood_scene",
+          user_id: userId,
+          user_email: email,
+          action_id: "",
+          duration_ms: Date.now() - startTime,
+          ...provenanceLogFields(result),
+        });
+
         return {
           content: [{
             type: "text" as const,
-            text: `Error generating mood scene: ${error instanceof Error ? error.message : String(error)}`
+            text: JSON.stringify(result, null, 2)
           }],
-          isError: true
+          structuredContent: result as unknown as Record<string, unknown>
         };
+      } catch (error) {
+        logger.error({
+          event: "tool_failed",
+          tool: "repair_mood_scene",
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        return buildGenerationErrorResult(error, "repairing mood scene");
       }
     }
   );
 
   // ========================================================================
-  // Tool 2: learn_mood_primitives (Documentation Only)
+  // Tool 4: learn_mood_primitives (Documentation Only)
   // ========================================================================
   server.registerTool(
     "learn_mood_primitives",
     {
       title: TOOL_METADATA["learn_mood_primitives"].title,
       description: getToolDescription("learn_mood_primitives"),
-      inputSchema: {
-        category: z.enum(["geometries", "materials", "lighting", "animation", "all"]).optional().meta({
-          description: "Category of documentation to retrieve (default: all)"
-        }),
-      },
+      inputSchema: LearnMoodPrimitivesInputSchema,
     },
     async (args: LearnMoodPrimitivesInput) => {
       const category: MoodPrimitivesCategory = args.category ?? "all";
@@ -349,8 +498,18 @@ async function handleHTTPTransport(
         return handlePing(jsonRpcRequest);
       case "tools/list":
         return await handleToolsList(jsonRpcRequest);
-      case "tools/call":
+      case "tools/call": {
+        // Clients that accept SSE and send a progressToken get progress
+        // notifications (including streamed code) before the result
+        const progressToken = (jsonRpcRequest.params as { _meta?: { progressToken?: ProgressToken } } | undefined)
+          ?._meta?.progressToken;
+        if (progressToken !== undefined && request.headers.get("Accept")?.includes("text/event-stream")) {
+          return streamWithProgress(jsonRpcRequest.id, progressToken, (progress) =>
+            handleToolsCall(jsonRpcRequest, env, userId, userEmail, progress)
+          );
+        }
         return await handleToolsCall(jsonRpcRequest, env, userId, userEmail);
+      }
       case "resources/list":
         return await handleResourcesList(jsonRpcRequest);
       case "resources/read":
@@ -397,7 +556,64 @@ async function handleToolsList(request: { id: number | string }): Promise<Respon
           properties: {
             emotion: { type: "string", description: "The feeling or concept to visualize" },
             complexity: { type: "number", description: "Scale from 1-10 (default: 5)" },
-            height: { type: "number", description: "Height in pixels (default: 600)" }
+            height: { type: "number", description: "Height in pixels (default: 600)" },
+            width: { type: "number", description: "Width in pixels (default: fill the widget)" },
+            aspect: {
+              type: "number",
+              minimum: 0.25,
+              maximum: 4,
+              description: "Width / height ratio, e.g. 1.78 for 16:9; overrides height"
+            },
+            format: {
+              type: "string",
+              enum: [...SCENE_FORMATS],
+              description: "Output format: declarative spec (default) or legacy raw code"
+            },
+            blend: {
+              type: "array",
+              minItems: 2,
+              maxItems: 4,
+              items: {
+                type: "object",
+                properties: {
+                  emotion: { type: "string" },
+                  weight: { type: "number", exclusiveMinimum: 0 }
+                },
+                required: ["emotion", "weight"]
+              },
+              description: "Weighted mix of emotions, e.g. [{emotion: 'calm', weight: 70}, {emotion: 'anxiety', weight: 30}]"
+            },
+            style: {
+              type: "string",
+              enum: [...STYLE_NAMES],
+              description: "Style preset layered on top of the emotion (see learn_mood_primitives category 'styles')"
+            },
+            mode: {
+              type: "string",
+              enum: [...GENERATION_MODES],
+              description: "Generation mode: AI (default, procedural fallback) or procedural without AI"
+            },
+            seed: { type: "integer", minimum: 1, maximum: MAX_SEED, description: "Seed for reproducible scenes (default: random)" },
+            fresh: { type: "boolean", description: "Skip the generation cache and always generate a new scene (default: false)" },
+            promptVersion: {
+              type: "string",
+              enum: [...PROMPT_VERSIONS],
+              description: "Prompt template version for AI generation (default: the server's configured version)"
+            },
+            model: {
+              type: "string",
+              enum: [...MODEL_IDS],
+              description: "Model for AI generation; pins it instead of the fallback chain (default: the chain)"
+            },
+            audioReactive: {
+              type: "boolean",
+              description: "Make the scene react to ambient or microphone audio levels (default: false)"
+            },
+            caption: {
+              type: "string",
+              maxLength: MAX_TEXT_LENGTH,
+              description: "Short text placed in the scene as 3D lettering, e.g. a brand or campaign line (optional)"
+            }
           },
           required: ["emotion"]
         },
@@ -408,6 +624,115 @@ async function handleToolsList(request: { id: number | string }): Promise<Respon
           openWorldHint: false
         }
       },
+      {
+        name: "generate_mood_journey",
+        title: TOOL_METADATA["generate_mood_journey"].title,
+        description: getToolDescription("generate_mood_journey"),
+        inputSchema: {
+          type: "object",
+          properties: {
+            stages: {
+              type: "array",
+              minItems: MIN_JOURNEY_STAGES,
+              maxItems: MAX_JOURNEY_STAGES,
+              items: {
+                type: "object",
+                properties: {
+                  emotion: { type: "string" },
+                  duration: { type: "number", minimum: MIN_STAGE_SECONDS, maximum: MAX_STAGE_SECONDS }
+                },
+                required: ["emotion", "duration"]
+              },
+              description: "Ordered emotions with durations in seconds, e.g. [{emotion: 'anxiety', duration: 8}, {emotion: 'calm', duration: 12}]"
+            },
+            loop: { type: "boolean", description: "Morph back to the first stage and repeat (default: false)" },
+            complexity: { type: "number", description: "Scale from 1-10 (default: 5)" },
+            height: { type: "number", description: "Height in pixels (default: 600)" },
+            width: { type: "number", description: "Width in pixels (default: fill the widget)" },
+            aspect: {
+              type: "number",
+              minimum: 0.25,
+              maximum: 4,
+              description: "Width / height ratio, e.g. 1.78 for 16:9; overrides height"
+            },
+            style: {
+              type: "string",
+              enum: [...STYLE_NAMES],
+              description: "Style preset layered on top of the emotions"
+            },
+            mode: {
+              type: "string",
+              enum: [...GENERATION_MODES],
+              description: "Generation mode: AI (default, procedural fallback) or procedural without AI"
+            },
+            seed: { type: "integer", minimum: 1, maximum: MAX_SEED, description: "Seed for reproducible scenes (default: random)" },
+            fresh: { type: "boolean", description: "Skip the generation cache (default: false)" },
+            promptVersion: {
+              type: "string",
+              enum: [...PROMPT_VERSIONS],
+              description: "Prompt template version for AI generation (default: the server's configured version)"
+            },
+            model: {
+              type: "string",
+              enum: [...MODEL_IDS],
+              description: "Model for AI generation; pins it instead of the fallback chain (default: the chain)"
+            },
+            audioReactive: {
+              type: "boolean",
+              description: "Make the scene react to ambient or microphone audio levels (default: false)"
+            },
+            caption: {
+              type: "string",
+              maxLength: MAX_TEXT_LENGTH,
+              description: "Short text placed in the scene as 3D lettering, e.g. a brand or campaign line (optional)"
+            }
+          },
+          required: ["stages"]
+        },
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: false,
+          openWorldHint: false
+        }
+      },
+      {
+        name: "repair_mood_scene",
+        title: TOOL_METADATA["repair_mood_scene"].title,
+        description: getToolDescription("repair_mood_scene"),
+        inputSchema: {
+          type: "object",
+          properties: {
+            code: { type: "string", description: "The Three.js code that failed" },
+            error: { type: "string", description: "Error message thrown while executing the code" },
+            stack: { type: "string", description: "Stack trace of the error (optional)" },
+            emotion: { type: "string", description: "The emotion the scene was meant to express (optional)" },
+            complexity: { type: "number", description: "Scale from 1-10 (default: 5)" },
+            height: { type: "number", description: "Height in pixels (default: 600)" },
+            width: { type: "number", description: "Width in pixels of the failing scene (optional)" },
+            aspect: { type: "number", description: "Width / height ratio of the failing scene (optional)" },
+            seed: { type: "integer", minimum: 1, maximum: MAX_SEED, description: "Seed of the failing scene (optional)" },
+            promptVersion: {
+              type: "string",
+              enum: [...PROMPT_VERSIONS],
+              description: "Prompt template version of the failing scene (optional)"
+            },
+            model: {
+              type: "string",
+              enum: [...MODEL_IDS],
+              description: "Model for the repair (default: the fallback chain)"
+            },
+            audioReactive: { type: "boolean", description: "Whether the failing scene was audio-reactive (optional)" }
+          },
+          required: ["code", "error"]
+        },
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: false,
+          openWorldHint: false
+        }
+      },
       {
         name: "learn_mood_primitives",
         title: TOOL_METADATA["learn_mood_primitives"].title,
@@ -417,7 +742,7 @@ async function handleToolsList(request: { id: number | string }): Promise<Respon
           properties: {
             category: {
               type: "string",
-              enum: ["geometries", "materials", "lighting", "animation", "all"],
+              enum: ["geometries", "materials", "lighting", "animation", "styles", "shaders", "audio", "typography", "postprocessing", "all"],
               description: "Category of documentation (default: all)"
             }
           },
@@ -432,7 +757,8 @@ async function handleToolsCall(
   request: { id: number | string; params?: unknown },
   env: Env,
   userId: string,
-  userEmail: string
+  userEmail: string,
+  progress?: ProgressReporter
 ): Promise<Response> {
   const params = request.params as { name?: string; arguments?: Record<string, unknown> } | undefined;
   const { name, arguments: args } = params || {};
@@ -442,15 +768,39 @@ async function handleToolsCall(
       const emotion = (args?.emotion as string) || "";
       const complexity = (args?.complexity as number) || 5;
       const height = (args?.height as number) || 600;
+      const width = (args?.width as number) || undefined;
+      const aspect = parseAspect(args?.aspect);
+      const format = SCENE_FORMATS.find((f) => f === args?.format) ?? "spec";
+      const blend = (args?.blend as EmotionBlendComponent[] | undefined)
+        ?.filter((c) => typeof c?.emotion === "string" && c.emotion && typeof c.weight === "number" && c.weight > 0);
+      const style = STYLE_NAMES.find((name) => name === args?.style);
+      const mode = GENERATION_MODES.find((m) => m === args?.mode) ?? "ai";
+      const seed = parseSeed(args?.seed);
+      const fresh = args?.fresh === true;
+      const promptVersion = PROMPT_VERSIONS.find((version) => version === args?.promptVersion);
+      const model = MODEL_IDS.find((id) => id === args?.model);
+      const audioReactive = args?.audioReactive === true;
+      const caption = parseCaption(args?.caption);
       const startTime = Date.now();
 
       try {
-        const code = await enhanceEmotionToThreeJS(
-          env.AI,
+        const result = await executeGenerateMoodScene(env, {
           emotion,
           complexity,
-          env.AI_GATEWAY_ID
-        );
+          height,
+          width,
+          aspect,
+          format,
+          blend: blend && blend.length >= 2 ? blend.slice(0, 4) : undefined,
+          style,
+          mode,
+          seed,
+          fresh,
+          promptVersion,
+          model,
+          audioReactive,
+          caption,
+        }, progress);
 
         const durationMs = Date.now() - startTime;
 
@@ -461,10 +811,9 @@ async function handleToolsCall(
           user_email: userEmail,
           action_id: "",
           duration_ms: durationMs,
+          ...provenanceLogFields(result),
         });
 
-        const result = { code, emotion, height };
-
         return jsonRpcResponse(request.id, {
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
           structuredContent: result
@@ -476,10 +825,110 @@ async function handleToolsCall(
           error: error instanceof Error ? error.message : String(error),
         });
 
+        return jsonRpcResponse(request.id, buildGenerationErrorResult(error));
+      }
+    }
+
+    case "generate_mood_journey": {
+      const stages = (args?.stages as JourneyStage[] | undefined)
+        ?.filter((s) => typeof s?.emotion === "string" && s.emotion && typeof s.duration === "number")
+        .slice(0, MAX_JOURNEY_STAGES)
+        .map((s) => ({
+          emotion: s.emotion,
+          duration: Math.min(MAX_STAGE_SECONDS, Math.max(MIN_STAGE_SECONDS, s.duration)),
+        })) ?? [];
+      if (stages.length < MIN_JOURNEY_STAGES) {
+        return jsonRpcResponse(request.id, null, {
+          code: -32602,
+          message: `generate_mood_journey needs ${MIN_JOURNEY_STAGES}-${MAX_JOURNEY_STAGES} stages with an emotion and a duration`,
+        });
+      }
+      const startTime = Date.now();
+
+      try {
+        const result = await executeGenerateMoodJourney(env, {
+          stages,
+          loop: args?.loop === true,
+          complexity: (args?.complexity as number) || 5,
+          height: (args?.height as number) || 600,
+          width: (args?.width as number) || undefined,
+          aspect: parseAspect(args?.aspect),
+          style: STYLE_NAMES.find((name) => name === args?.style),
+          mode: GENERATION_MODES.find((m) => m === args?.mode) ?? "ai",
+          seed: parseSeed(args?.seed),
+          fresh: args?.fresh === true,
+          promptVersion: PROMPT_VERSIONS.find((version) => version === args?.promptVersion),
+          model: MODEL_IDS.find((id) => id === args?.model),
+          audioReactive: args?.audioReactive === true,
+          caption: parseCaption(args?.caption),
+        }, progress);
+
+        logger.info({
+          event: "tool_completed",
+          tool: "generate_mood_journey",
+          user_id: userId,
+          user_email: userEmail,
+          action_id: "",
+          duration_ms: Date.now() - startTime,
+          ...provenanceLogFields(result),
+        });
+
         return jsonRpcResponse(request.id, {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          structuredContent: result
+        });
+      } catch (error) {
+        logger.error({
+          event: "tool_failed",
+          tool: "generate_mood_journey",
+          error: error instanceof Error ? error.message : String(error),
         });
+
+        return jsonRpcResponse(request.id, buildGenerationErrorResult(error, "generating mood journey"));
+      }
+    }
+
+    case "repair_mood_scene": {
+      const startTime = Date.now();
+
+      try {
+        const result = await executeRepairMoodScene(env, {
+          code: (args?.code as string) || "",
+          error: (args?.error as string) || "",
+          stack: args?.stack as string | undefined,
+          emotion: args?.emotion as string | undefined,
+          complexity: (args?.complexity as number) || 5,
+          height: (args?.height as number) || 600,
+          width: (args?.width as number) || undefined,
+          aspect: parseAspect(args?.aspect),
+          seed: parseSeed(args?.seed),
+          promptVersion: PROMPT_VERSIONS.find((version) => version === args?.promptVersion),
+          model: MODEL_IDS.find((id) => id === args?.model),
+          audioReactive: args?.audioReactive === true,
+        }, progress);
+
+        logger.info({
+          event: "tool_completed",
+          tool: "repair_mood_scene",
+          user_id: userId,
+          user_email: userEmail,
+          action_id: "",
+          duration_ms: Date.now() - startTime,
+          ...provenanceLogFields(result),
+        });
+
+        return jsonRpcResponse(request.id, {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          structuredContent: result
+        });
+      } catch (error) {
+        logger.error({
+          event: "tool_failed",
+          tool: "repair_mood_scene",
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        return jsonRpcResponse(request.id, buildGenerationErrorResult(error, "repairing mood scene"));
       }
     }
 
@@ -568,6 +1017,80 @@ function jsonError(message: string, status: number): Response {
   });
 }
 
+/**
+ * Reads an aspect ratio argument; ratios outside 1:4 to 4:1 are ignored
+ */
+function parseAspect(value: unknown): number | undefined {
+  return typeof value === "number" && value >= 0.25 && value <= 4 ? value : undefined;
+}
+
+/**
+ * Reads a seed argument; anything but an integer from 1 to MAX_SEED is
+ * ignored, so a random seed is used
+ */
+function parseSeed(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= MAX_SEED ? value : undefined;
+}
+
+/**
+ * Reads a caption argument; blank captions are ignored and long ones cut
+ * to MAX_TEXT_LENGTH
+ */
+function parseCaption(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim().slice(0, MAX_TEXT_LENGTH) : undefined;
+}
+
+/**
+ * Runs a JSON-RPC handler behind a server-sent event stream
+ *
+ * Progress notifications are written as they are reported; the handler's
+ * JSON-RPC response is the final event, after which the stream closes.
+ */
+function streamWithProgress(
+  id: number | string,
+  progressToken: ProgressToken,
+  handler: (progress: ProgressReporter | undefined) => Promise<Response>
+): Response {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+  const writeEvent = (message: unknown) =>
+    writer.write(encoder.encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`));
+
+  const progress = createProgressReporter(progressToken, (notification) =>
+    writeEvent({ jsonrpc: "2.0", ...notification })
+  );
+
+  (async () => {
+    try {
+      const response = await handler(progress);
+      await writeEvent(await response.json());
+    } catch (error) {
+      await writeEvent({
+        jsonrpc: "2.0",
+        id,
+        error: { code: -32603, message: error instanceof Error ? error.message : String(error) },
+      });
+    } finally {
+      await writer.close();
+    }
+  })().catch((error) => {
+    // The client disconnected mid-stream; writing or closing failed
+    logger.error({
+      event: 'server_error',
+      error: error instanceof Error ? error.message : String(error),
+      context: 'progress stream',
+    });
+  });
+
+  return new Response(readable, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    }
+  });
+}
+
 function jsonRpcResponse(id: number | string, result: unknown, error?: { code: number; message: string }): Response {
   const response: Record<string, unknown> = { jsonrpc: "2.0", id };
   if (error) {
@@ -0,0 +1,249 @@
+/**
+ * Emotion Lexicon
+ *
+ * Maps free-text emotions ("bittersweet nostalgia", "Monday dread") to
+ * valence/arousal/dominance (VAD) coordinates. Each word of the input is
+ * looked up in the lexicon (exact, alias, or shared stem); the matches are
+ * averaged, and the nearest named emotions to the result are reported so
+ * the model and the widget can see how the input was understood.
+ *
+ * All three axes range from -1 to 1:
+ * - valence: unpleasant → pleasant
+ * - arousal: calm → excited
+ * - dominance: overwhelmed → in control
+ *
+ * @module emotion/lexicon
+ */
+
+/**
+ * A point in valence/arousal/dominance space
+ */
+export interface VAD {
+  valence: number;
+  arousal: number;
+  dominance: number;
+}
+
+/**
+ * How an emotion string was understood
+ */
+export interface EmotionResolution {
+  /** Lexicon entries matched by words of the input */
+  matched: string[];
+  /** Mean VAD of the matches (neutral when nothing matched) */
+  vad: VAD;
+  /** Closest named emotions to `vad`, nearest first */
+  nearest: { emotion: string; distance: number }[];
+}
+
+/** Named emotions and their VAD coordinates */
+export const EMOTION_LEXICON: Record<string, VAD> = {
+  // Pleasant, energetic
+  joy: { valence: 0.9, arousal: 0.5, dominance: 0.4 },
+  happiness: { valence: 0.9, arousal: 0.4, dominance: 0.4 },
+  delight: { valence: 0.85, arousal: 0.6, dominance: 0.4 },
+  excitement: { valence: 0.7, arousal: 0.9, dominance: 0.4 },
+  euphoria: { valence: 0.9, arousal: 0.9, dominance: 0.5 },
+  energy: { valence: 0.6, arousal: 0.9, dominance: 0.6 },
+  passion: { valence: 0.6, arousal: 0.85, dominance: 0.5 },
+  desire: { valence: 0.5, arousal: 0.7, dominance: 0.3 },
+  amusement: { valence: 0.7, arousal: 0.5, dominance: 0.3 },
+  playfulness: { valence: 0.7, arousal: 0.6, dominance: 0.3 },
+  triumph: { valence: 0.8, arousal: 0.8, dominance: 0.9 },
+  pride: { valence: 0.7, arousal: 0.4, dominance: 0.8 },
+  confidence: { valence: 0.6, arousal: 0.3, dominance: 0.9 },
+  determination: { valence: 0.4, arousal: 0.6, dominance: 0.8 },
+  power: { valence: 0.4, arousal: 0.7, dominance: 0.9 },
+  freedom: { valence: 0.8, arousal: 0.5, dominance: 0.6 },
+  optimism: { valence: 0.7, arousal: 0.4, dominance: 0.5 },
+  hope: { valence: 0.7, arousal: 0.2, dominance: 0.3 },
+  love: { valence: 0.9, arousal: 0.4, dominance: 0.3 },
+  gratitude: { valence: 0.8, arousal: 0.1, dominance: 0.2 },
+
+  // Pleasant, calm
+  tenderness: { valence: 0.7, arousal: -0.2, dominance: 0.1 },
+  contentment: { valence: 0.7, arousal: -0.4, dominance: 0.3 },
+  relief: { valence: 0.6, arousal: -0.5, dominance: 0.2 },
+  serenity: { valence: 0.7, arousal: -0.7, dominance: 0.3 },
+  peace: { valence: 0.75, arousal: -0.7, dominance: 0.3 },
+  tranquility: { valence: 0.7, arousal: -0.75, dominance: 0.3 },
+  calm: { valence: 0.6, arousal: -0.8, dominance: 0.3 },
+  dream: { valence: 0.5, arousal: -0.3, dominance: -0.2 },
+
+  // Open, exploratory
+  awe: { valence: 0.6, arousal: 0.5, dominance: -0.3 },
+  wonder: { valence: 0.6, arousal: 0.4, dominance: -0.1 },
+  curiosity: { valence: 0.5, arousal: 0.4, dominance: 0.2 },
+  anticipation: { valence: 0.3, arousal: 0.6, dominance: 0.2 },
+  surprise: { valence: 0.3, arousal: 0.8, dominance: -0.1 },
+  mystery: { valence: 0.1, arousal: 0.3, dominance: -0.2 },
+  solitude: { valence: 0.1, arousal: -0.5, dominance: 0 },
+
+  // Mixed, reflective
+  nostalgia: { valence: 0.2, arousal: -0.3, dominance: -0.2 },
+  bittersweet: { valence: 0.05, arousal: -0.2, dominance: -0.1 },
+  longing: { valence: -0.2, arousal: 0.1, dominance: -0.4 },
+  melancholy: { valence: -0.5, arousal: -0.5, dominance: -0.4 },
+
+  // Unpleasant, low energy
+  sadness: { valence: -0.7, arousal: -0.4, dominance: -0.5 },
+  sorrow: { valence: -0.75, arousal: -0.3, dominance: -0.5 },
+  grief: { valence: -0.8, arousal: 0.1, dominance: -0.6 },
+  loneliness: { valence: -0.7, arousal: -0.3, dominance: -0.6 },
+  despair: { valence: -0.9, arousal: 0.2, dominance: -0.8 },
+  boredom: { valence: -0.4, arousal: -0.8, dominance: -0.3 },
+  fatigue: { valence: -0.4, arousal: -0.9, dominance: -0.5 },
+  apathy: { valence: -0.3, arousal: -0.8, dominance: -0.4 },
+  shame: { valence: -0.7, arousal: 0.2, dominance: -0.7 },
+  guilt: { valence: -0.6, arousal: 0.1, dominance: -0.5 },
+
+  // Unpleasant, high energy
+  fear: { valence: -0.8, arousal: 0.7, dominance: -0.7 },
+  dread: { valence: -0.8, arousal: 0.5, dominance: -0.6 },
+  anxiety: { valence: -0.6, arousal: 0.7, dominance: -0.5 },
+  worry: { valence: -0.5, arousal: 0.4, dominance: -0.4 },
+  nervousness: { valence: -0.4, arousal: 0.6, dominance: -0.4 },
+  panic: { valence: -0.8, arousal: 0.95, dominance: -0.8 },
+  stress: { valence: -0.6, arousal: 0.7, dominance: -0.3 },
+  tension: { valence: -0.4, arousal: 0.6, dominance: 0 },
+  confusion: { valence: -0.3, arousal: 0.4, dominance: -0.4 },
+  embarrassment: { valence: -0.5, arousal: 0.5, dominance: -0.6 },
+  chaos: { valence: -0.4, arousal: 0.9, dominance: -0.2 },
+  intensity: { valence: 0, arousal: 0.9, dominance: 0.5 },
+  anger: { valence: -0.7, arousal: 0.8, dominance: 0.6 },
+  rage: { valence: -0.8, arousal: 0.95, dominance: 0.7 },
+  frustration: { valence: -0.6, arousal: 0.6, dominance: 0.1 },
+  irritation: { valence: -0.5, arousal: 0.5, dominance: 0.2 },
+  jealousy: { valence: -0.6, arousal: 0.6, dominance: -0.1 },
+  disgust: { valence: -0.7, arousal: 0.4, dominance: 0.3 },
+  contempt: { valence: -0.5, arousal: 0.2, dominance: 0.6 },
+};
+
+/**
+ * Inflected or colloquial words that the stem match would miss
+ */
+const ALIASES: Record<string, string> = {
+  happy: "happiness",
+  sad: "sadness",
+  mad: "anger",
+  angry: "anger",
+  furious: "rage",
+  fury: "rage",
+  afraid: "fear",
+  scared: "fear",
+  frightened: "fear",
+  terror: "fear",
+  anxious: "anxiety",
+  nervous: "nervousness",
+  stressed: "stress",
+  worried: "worry",
+  tense: "tension",
+  serene: "serenity",
+  peaceful: "peace",
+  tranquil: "tranquility",
+  relaxed: "calm",
+  calmness: "calm",
+  content: "contentment",
+  joyful: "joy",
+  fun: "amusement",
+  amused: "amusement",
+  playful: "playfulness",
+  loving: "love",
+  grateful: "gratitude",
+  hopeful: "hope",
+  proud: "pride",
+  excited: "excitement",
+  energetic: "energy",
+  powerful: "power",
+  free: "freedom",
+  surprised: "surprise",
+  awed: "awe",
+  curious: "curiosity",
+  mysterious: "mystery",
+  dreamy: "dream",
+  nostalgic: "nostalgia",
+  wistful: "longing",
+  yearning: "longing",
+  melancholic: "melancholy",
+  lonely: "loneliness",
+  depressed: "despair",
+  depression: "despair",
+  hopeless: "despair",
+  bored: "boredom",
+  tired: "fatigue",
+  exhausted: "fatigue",
+  ashamed: "shame",
+  guilty: "guilt",
+  jealous: "jealousy",
+  confused: "confusion",
+  chaotic: "chaos",
+  intense: "intensity",
+};
+
+/** Minimum shared prefix for a stem match ("passionate" → "passion") */
+const MIN_STEM_LENGTH = 5;
+
+/** Number of nearest named emotions reported */
+const NEAREST_COUNT = 3;
+
+const NEUTRAL_VAD: VAD = { valence: 0, arousal: 0, dominance: 0 };
+
+/**
+ * Euclidean distance between two VAD points
+ */
+export function vadDistance(a: VAD, b: VAD): number {
+  return Math.hypot(a.valence - b.valence, a.arousal - b.arousal, a.dominance - b.dominance);
+}
+
+/**
+ * Finds the lexicon entry for a single lower-cased word
+ */
+function lookupWord(word: string): string | undefined {
+  if (Object.prototype.hasOwnProperty.call(EMOTION_LEXICON, word)) return word;
+  if (Object.prototype.hasOwnProperty.call(ALIASES, word)) return ALIASES[word];
+  if (word.length < MIN_STEM_LENGTH) return undefined;
+
+  const stem = word.slice(0, MIN_STEM_LENGTH);
+  return Object.keys(EMOTION_LEXICON).find((entry) => entry.startsWith(stem));
+}
+
+/**
+ * Resolves free text to VAD coordinates and the nearest named emotions
+ *
+ * Words that are not emotions ("Monday", "a", "feeling") are ignored; if no
+ * word matches, the neutral point is used.
+ *
+ * @param emotion - Free-text emotion or concept
+ */
+export function resolveEmotion(emotion: string): EmotionResolution {
+  const words = emotion.toLowerCase().match(/[a-z]+/g) ?? [];
+  const matched = [...new Set(words.map(lookupWord).filter((w): w is string => !!w))];
+
+  const vad = matched.length === 0
+    ? NEUTRAL_VAD
+    : {
+        valence: mean(matched.map((m) => EMOTION_LEXICON[m].valence)),
+        arousal: mean(matched.map((m) => EMOTION_LEXICON[m].arousal)),
+        dominance: mean(matched.map((m) => EMOTION_LEXICON[m].dominance)),
+      };
+
+  return { matched, vad, nearest: nearestEmotions(vad) };
+}
+
+/**
+ * Named emotions closest to a VAD point, nearest first
+ */
+export function nearestEmotions(vad: VAD, count: number = NEAREST_COUNT): EmotionResolution["nearest"] {
+  return Object.entries(EMOTION_LEXICON)
+    .map(([emotion, point]) => ({ emotion, distance: round(vadDistance(vad, point)) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, count);
+}
+
+function mean(values: number[]): number {
+  return round(values.reduce((sum, v) => sum + v, 0) / values.length);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
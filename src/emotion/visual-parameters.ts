@@ -0,0 +1,219 @@
+/**
+ * Emotion → Visual Parameters
+ *
+ * Turns a VAD point into the concrete look of a scene: palette, motion
+ * speed, geometry sharpness and light intensity. The same parameters are
+ * given to the model as prompt constraints and returned in the tool result.
+ *
+ * Palette hue comes from the valence/arousal quadrant:
+ * pleasant+calm → teal, pleasant+excited → warm orange,
+ * unpleasant+excited → red/magenta, unpleasant+calm → deep blue/violet.
+ *
+ * @module emotion/visual-parameters
+ */
+
+import type { GEOMETRY_TYPES } from "../schemas/scene-spec";
+import {
+  nearestEmotions,
+  resolveEmotion,
+  type EmotionResolution,
+  type VAD,
+} from "./lexicon";
+
+type GeometryType = (typeof GEOMETRY_TYPES)[number];
+
+/**
+ * Scene parameters derived from an emotion
+ */
+export interface MoodVisualParameters {
+  /** Four 6-digit hex colors: primary, two analogous, one accent */
+  palette: string[];
+  /** Very dark tint of the primary hue */
+  background: string;
+  /** Animation speed multiplier (0.3 = languid, 3 = frantic) */
+  motionSpeed: number;
+  /** 0 = soft, rounded shapes; 1 = sharp, angular shapes */
+  geometrySharpness: number;
+  /** Geometry family matching the sharpness */
+  geometries: GeometryType[];
+  /** Key light intensity (0.2-1) */
+  lightIntensity: number;
+  /** Suggested bloom strength for emissive materials (0-1.5) */
+  bloomStrength: number;
+}
+
+/**
+ * One component of a weighted emotion blend
+ */
+export interface EmotionBlendComponent {
+  emotion: string;
+  weight: number;
+}
+
+/**
+ * A resolved emotion together with the parameters it drives
+ */
+export interface EmotionProfile extends EmotionResolution {
+  parameters: MoodVisualParameters;
+  /** Blend components with weights normalised to sum to 1, heaviest first */
+  blend?: EmotionBlendComponent[];
+}
+
+/** Hue (degrees) at each corner of the valence/arousal square */
+const QUADRANT_HUES = {
+  pleasantExcited: 35,
+  pleasantCalm: 190,
+  unpleasantCalm: 255,
+  unpleasantExcited: 350,
+} as const;
+
+/** Colors per palette */
+const PALETTE_SIZE = 4;
+
+const ROUNDED_GEOMETRIES: GeometryType[] = ["sphere", "torus", "cylinder"];
+const FACETED_GEOMETRIES: GeometryType[] = ["dodecahedron", "icosahedron", "torusKnot"];
+const SHARP_GEOMETRIES: GeometryType[] = ["tetrahedron", "octahedron", "cone", "box"];
+
+/**
+ * Resolves an emotion and derives its visual parameters
+ */
+export function buildEmotionProfile(emotion: string): EmotionProfile {
+  const resolution = resolveEmotion(emotion);
+  return { ...resolution, parameters: deriveVisualParameters(resolution.vad) };
+}
+
+/**
+ * Resolves a weighted blend of emotions ("70% calm, 30% anxiety")
+ *
+ * VAD and the numeric parameters are interpolated by weight; the palette
+ * takes colors from each component in proportion to its weight, so every
+ * component stays visible in the scene.
+ *
+ * @param components - Emotions with positive weights (any scale)
+ */
+export function buildBlendedEmotionProfile(components: EmotionBlendComponent[]): EmotionProfile {
+  const total = components.reduce((sum, c) => sum + c.weight, 0);
+  const blend = components
+    .map((c) => ({ emotion: c.emotion, weight: round(c.weight / total) }))
+    .sort((a, b) => b.weight - a.weight);
+  const profiles = blend.map((c) => ({ weight: c.weight, profile: buildEmotionProfile(c.emotion) }));
+
+  const weighted = (value: (profile: EmotionProfile) => number): number =>
+    round(profiles.reduce((sum, p) => sum + value(p.profile) * p.weight, 0));
+
+  const vad: VAD = {
+    valence: weighted((p) => p.vad.valence),
+    arousal: weighted((p) => p.vad.arousal),
+    dominance: weighted((p) => p.vad.dominance),
+  };
+
+  // Every component gets at least one palette slot, heaviest first; the
+  // heaviest components give up slots when rounding overfills the palette
+  const slots = profiles.map((p) => Math.max(1, Math.round(p.weight * PALETTE_SIZE)));
+  while (slots.reduce((sum, n) => sum + n, 0) > PALETTE_SIZE) {
+    slots[slots.indexOf(Math.max(...slots))]--;
+  }
+  const palette: string[] = [];
+  profiles.forEach(({ profile }, i) => palette.push(...profile.parameters.palette.slice(0, slots[i])));
+  const dominant = profiles[0].profile.parameters;
+  palette.push(...dominant.palette);
+
+  const geometrySharpness = weighted((p) => p.parameters.geometrySharpness);
+
+  return {
+    matched: [...new Set(profiles.flatMap((p) => p.profile.matched))],
+    vad,
+    nearest: nearestEmotions(vad),
+    parameters: {
+      palette: [...new Set(palette)].slice(0, PALETTE_SIZE),
+      background: dominant.background,
+      motionSpeed: weighted((p) => p.parameters.motionSpeed),
+      geometrySharpness,
+      geometries: geometriesForSharpness(geometrySharpness),
+      lightIntensity: weighted((p) => p.parameters.lightIntensity),
+      bloomStrength: weighted((p) => p.parameters.bloomStrength),
+    },
+    blend,
+  };
+}
+
+/**
+ * Maps a VAD point to scene parameters
+ */
+export function deriveVisualParameters(vad: VAD): MoodVisualParameters {
+  // Normalise axes to 0..1
+  const pleasant = (vad.valence + 1) / 2;
+  const excited = (vad.arousal + 1) / 2;
+  const control = (vad.dominance + 1) / 2;
+
+  const hue = blendHues([
+    [QUADRANT_HUES.pleasantExcited, pleasant * excited],
+    [QUADRANT_HUES.pleasantCalm, pleasant * (1 - excited)],
+    [QUADRANT_HUES.unpleasantCalm, (1 - pleasant) * (1 - excited)],
+    [QUADRANT_HUES.unpleasantExcited, (1 - pleasant) * excited],
+  ]);
+  const saturation = clamp(0.35 + 0.45 * excited + 0.2 * Math.abs(vad.valence), 0.3, 0.95);
+  const lightness = clamp(0.45 + 0.15 * vad.valence, 0.3, 0.65);
+  // Excited moods get a more contrasting accent
+  const accentOffset = 40 + 140 * excited;
+
+  const geometrySharpness = round(clamp(0.55 * excited + 0.45 * (1 - pleasant), 0, 1));
+
+  return {
+    palette: [
+      hslToHex(hue, saturation, lightness),
+      hslToHex(hue + 25, saturation, lightness + 0.08),
+      hslToHex(hue - 25, saturation * 0.9, lightness - 0.08),
+      hslToHex(hue + accentOffset, saturation, lightness + 0.1),
+    ],
+    background: hslToHex(hue, 0.35, 0.07),
+    motionSpeed: round(0.3 + 2.7 * Math.pow(excited, 1.5)),
+    geometrySharpness,
+    geometries: geometriesForSharpness(geometrySharpness),
+    lightIntensity: round(clamp(0.3 + 0.4 * pleasant + 0.3 * control, 0.2, 1)),
+    bloomStrength: round(clamp(0.2 + 1.3 * excited * (0.4 + 0.6 * pleasant), 0, 1.5)),
+  };
+}
+
+function geometriesForSharpness(sharpness: number): GeometryType[] {
+  if (sharpness < 0.35) return ROUNDED_GEOMETRIES;
+  if (sharpness < 0.65) return FACETED_GEOMETRIES;
+  return SHARP_GEOMETRIES;
+}
+
+/**
+ * Weighted circular mean of hues in degrees
+ */
+function blendHues(weighted: [hue: number, weight: number][]): number {
+  let x = 0;
+  let y = 0;
+  for (const [hue, weight] of weighted) {
+    const radians = (hue * Math.PI) / 180;
+    x += Math.cos(radians) * weight;
+    y += Math.sin(radians) * weight;
+  }
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+function hslToHex(hue: number, saturation: number, lightness: number): string {
+  const h = (((hue % 360) + 360) % 360) / 360;
+  const s = clamp(saturation, 0, 1);
+  const l = clamp(lightness, 0, 1);
+
+  const channel = (offset: number): string => {
+    const k = (offset + h * 12) % 12;
+    const a = s * Math.min(l, 1 - l);
+    const value = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, "0");
+  };
+
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,116 @@
+/**
+ * Exemplar Admin Endpoint
+ *
+ * /admin/exemplars curates the exemplar library:
+ * - GET lists every exemplar (without code)
+ * - POST promotes a generated scene: { emotion, code, style?, complexity? }
+ * - DELETE ?id=... removes a promoted exemplar
+ *
+ * Requests must send `Authorization: Bearer <EXEMPLAR_ADMIN_TOKEN>`. The
+ * endpoint does not exist (404) while the secret is unset.
+ *
+ * @module exemplars/admin-handler
+ */
+
+import * as z from "zod/v4";
+import type { Env } from "../types";
+import { STYLE_NAMES } from "../styles/presets";
+import { CodeValidationError } from "../validation/code-validator";
+import { logger } from "../shared/logger";
+import { listExemplars, promoteExemplar, removeExemplar } from "./library";
+
+export const EXEMPLAR_ADMIN_PATH = "/admin/exemplars";
+
+const DEFAULT_COMPLEXITY = 5;
+
+const PromotionSchema = z.object({
+  emotion: z.string().min(1),
+  code: z.string().min(1),
+  style: z.enum(STYLE_NAMES).optional(),
+  complexity: z.number().int().min(1).max(10).optional(),
+});
+
+/**
+ * Handles a request to the exemplar admin endpoint
+ */
+export async function handleExemplarAdminRequest(request: Request, env: Env): Promise<Response> {
+  if (!env.EXEMPLAR_ADMIN_TOKEN) {
+    return jsonResponse({ error: "Not found" }, 404);
+  }
+  if (!(await isAuthorized(request, env.EXEMPLAR_ADMIN_TOKEN))) {
+    return jsonResponse({ error: "Invalid admin token" }, 401);
+  }
+
+  if (request.method === "GET") {
+    return jsonResponse({ exemplars: await listExemplars(env.CACHE_KV) }, 200);
+  }
+
+  if (!env.CACHE_KV) {
+    return jsonResponse({ error: "CACHE_KV is not configured; promoted exemplars need it" }, 503);
+  }
+
+  if (request.method === "POST") {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonResponse({ error: "Body must be JSON" }, 400);
+    }
+
+    const parsed = PromotionSchema.safeParse(body);
+    if (!parsed.success) {
+      return jsonResponse({ error: "Invalid exemplar", issues: parsed.error.issues }, 400);
+    }
+
+    try {
+      const exemplar = await promoteExemplar(env.CACHE_KV, {
+        ...parsed.data,
+        complexity: parsed.data.complexity ?? DEFAULT_COMPLEXITY,
+      });
+      logger.info({ event: "exemplar_admin", operation: "promote", exemplar_id: exemplar.id, emotion: exemplar.emotion });
+      return jsonResponse({ exemplar }, 201);
+    } catch (error) {
+      if (error instanceof CodeValidationError) {
+        return jsonResponse({ error: error.message, diagnostics: error.diagnostics }, 400);
+      }
+      throw error;
+    }
+  }
+
+  if (request.method === "DELETE") {
+    const id = new URL(request.url).searchParams.get("id");
+    if (!id) {
+      return jsonResponse({ error: "Missing id parameter" }, 400);
+    }
+    if (!(await removeExemplar(env.CACHE_KV, id))) {
+      return jsonResponse({ error: `No promoted exemplar '${id}'` }, 404);
+    }
+    logger.info({ event: "exemplar_admin", operation: "remove", exemplar_id: id });
+    return new Response(null, { status: 204 });
+  }
+
+  return jsonResponse({ error: "Method not allowed" }, 405);
+}
+
+/**
+ * Compares the bearer token through SHA-256 digests so the comparison
+ * takes the same time wherever the tokens differ
+ */
+async function isAuthorized(request: Request, token: string): Promise<boolean> {
+  const provided = request.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  const [a, b] = await Promise.all(
+    [provided, token].map((value) => crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)))
+  );
+  const left = new Uint8Array(a);
+  const right = new Uint8Array(b);
+  let difference = 0;
+  for (let i = 0; i < left.length; i++) difference |= left[i] ^ right[i];
+  return difference === 0;
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
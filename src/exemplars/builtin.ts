@@ -0,0 +1,266 @@
+/**
+ * Built-in Scene Exemplars
+ *
+ * Hand-picked raw code scenes that seed the exemplar library, so few-shot
+ * prompts have examples even before any scene is promoted. They follow
+ * every sandbox requirement of the code prompt (seeded randomness, one
+ * renderer on the provided canvas, OrbitControls, budget of their
+ * complexity) because the model imitates whatever it is shown.
+ *
+ * "serenity" is the widget's original demo scene.
+ *
+ * @module exemplars/builtin
+ */
+
+import type { StyleName } from "../styles/presets";
+
+export interface BuiltinExemplar {
+  id: string;
+  emotion: string;
+  style?: StyleName;
+  complexity: number;
+  code: string;
+}
+
+export const BUILTIN_EXEMPLARS: BuiltinExemplar[] = [
+  {
+    id: "builtin-serenity",
+    emotion: "serenity",
+    complexity: 4,
+    code: `const scene = new THREE.Scene();
+const camera = new THREE.PerspectiveCamera(75, width / height, 0.1, 1000);
+const renderer = new THREE.WebGLRenderer({ canvas, antialias: true });
+renderer.setSize(width, height);
+renderer.setClearColor(0x1a1a2e);
+
+// Floating spheres in soft colors
+const spheres = [];
+const colors = [0x7ec8e3, 0xb4e7ce, 0xf5d9e8, 0xfef9c7];
+
+for (let i = 0; i < 12; i++) {
+  const geometry = new THREE.SphereGeometry(0.3 + random() * 0.3, 32, 32);
+  const material = new THREE.MeshStandardMaterial({
+    color: colors[i % colors.length],
+    roughness: 0.4,
+    metalness: 0.1,
+  });
+  const sphere = new THREE.Mesh(geometry, material);
+  sphere.position.set((random() - 0.5) * 6, (random() - 0.5) * 4, (random() - 0.5) * 4);
+  sphere.userData = {
+    baseY: sphere.position.y,
+    offset: random() * Math.PI * 2,
+    speed: 0.3 + random() * 0.5,
+    amplitude: 0.2 + random() * 0.3,
+  };
+  scene.add(sphere);
+  spheres.push(sphere);
+}
+
+const light = new THREE.DirectionalLight(0xffffff, 0.8);
+light.position.set(3, 5, 3);
+scene.add(light);
+scene.add(new THREE.AmbientLight(0x404060, 0.6));
+
+const controls = new OrbitControls(camera, renderer.domElement);
+controls.enableDamping = true;
+controls.dampingFactor = 0.05;
+camera.position.z = 6;
+
+const clock = new THREE.Clock();
+function animate() {
+  requestAnimationFrame(animate);
+  const time = clock.getElapsedTime();
+  spheres.forEach((sphere) => {
+    const { baseY, offset, speed, amplitude } = sphere.userData;
+    sphere.position.y = baseY + Math.sin(time * speed + offset) * amplitude;
+  });
+  controls.update();
+  renderer.render(scene, camera);
+}
+animate();`,
+  },
+  {
+    id: "builtin-anxiety",
+    emotion: "anxiety",
+    complexity: 5,
+    code: `const scene = new THREE.Scene();
+scene.fog = new THREE.FogExp2(0x120808, 0.08);
+const camera = new THREE.PerspectiveCamera(70, width / height, 0.1, 100);
+const renderer = new THREE.WebGLRenderer({ canvas, antialias: true });
+renderer.setSize(width, height);
+renderer.setClearColor(0x120808);
+
+// Angular shards that never settle
+const shards = [];
+const colors = [0xd7263d, 0xf46036, 0x2e294e];
+for (let i = 0; i < 15; i++) {
+  const geometry = i % 2 === 0 ? new THREE.OctahedronGeometry(0.4, 0) : new THREE.TetrahedronGeometry(0.45, 0);
+  const material = new THREE.MeshStandardMaterial({
+    color: colors[i % colors.length],
+    roughness: 0.3,
+    metalness: 0.5,
+    flatShading: true,
+  });
+  const shard = new THREE.Mesh(geometry, material);
+  const angle = (i / 15) * Math.PI * 2;
+  shard.position.set(Math.cos(angle) * 2.5, (random() - 0.5) * 2, Math.sin(angle) * 2.5);
+  shard.userData = { origin: shard.position.clone(), spin: 1 + random() * 2 };
+  scene.add(shard);
+  shards.push(shard);
+}
+
+scene.add(new THREE.AmbientLight(0x331111, 0.4));
+const flicker = new THREE.PointLight(0xff3322, 1, 12);
+flicker.position.set(0, 2, 0);
+scene.add(flicker);
+
+const controls = new OrbitControls(camera, renderer.domElement);
+controls.enableDamping = true;
+camera.position.set(0, 1.5, 6);
+
+const clock = new THREE.Clock();
+function animate() {
+  requestAnimationFrame(animate);
+  const time = clock.getElapsedTime();
+  shards.forEach((shard) => {
+    const { origin, spin } = shard.userData;
+    shard.position.set(
+      origin.x + (random() - 0.5) * 0.06,
+      origin.y + Math.sin(time * 3 * spin) * 0.1,
+      origin.z + (random() - 0.5) * 0.06
+    );
+    shard.rotation.x += 0.02 * spin;
+    shard.rotation.y += 0.03 * spin;
+  });
+  flicker.intensity = 0.6 + random() * 0.4;
+  controls.update();
+  renderer.render(scene, camera);
+}
+animate();`,
+  },
+  {
+    id: "builtin-awe",
+    emotion: "awe",
+    complexity: 6,
+    code: `const scene = new THREE.Scene();
+const camera = new THREE.PerspectiveCamera(60, width / height, 0.1, 200);
+const renderer = new THREE.WebGLRenderer({ canvas, antialias: true });
+renderer.setSize(width, height);
+renderer.setClearColor(0x05051a);
+
+// A glowing knot inside a slowly turning starfield
+const knot = new THREE.Mesh(
+  new THREE.TorusKnotGeometry(1.2, 0.35, 128, 16),
+  new THREE.MeshStandardMaterial({ color: 0x6c5ce7, emissive: 0x2d1b69, roughness: 0.2, metalness: 0.6 })
+);
+scene.add(knot);
+
+const starCount = 2000;
+const positions = new Float32Array(starCount * 3);
+for (let i = 0; i < starCount; i++) {
+  const radius = 15 + random() * 25;
+  const theta = random() * Math.PI * 2;
+  const phi = Math.acos(2 * random() - 1);
+  positions[i * 3] = radius * Math.sin(phi) * Math.cos(theta);
+  positions[i * 3 + 1] = radius * Math.sin(phi) * Math.sin(theta);
+  positions[i * 3 + 2] = radius * Math.cos(phi);
+}
+const starGeometry = new THREE.BufferGeometry();
+starGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+const stars = new THREE.Points(starGeometry, new THREE.PointsMaterial({ color: 0xdfe6ff, size: 0.12 }));
+scene.add(stars);
+
+scene.add(new THREE.AmbientLight(0x202040, 0.5));
+const key = new THREE.PointLight(0xa29bfe, 1, 30);
+key.position.set(4, 4, 4);
+scene.add(key);
+
+const controls = new OrbitControls(camera, renderer.domElement);
+controls.enableDamping = true;
+camera.position.set(0, 0, 8);
+
+const composer = new EffectComposer(renderer);
+composer.addPass(new RenderPass(scene, camera));
+composer.addPass(new UnrealBloomPass(new THREE.Vector2(width, height), 0.9, 0.6, 0.2));
+
+const clock = new THREE.Clock();
+function animate() {
+  requestAnimationFrame(animate);
+  const time = clock.getElapsedTime();
+  knot.rotation.x = time * 0.1;
+  knot.rotation.y = time * 0.15;
+  stars.rotation.y = time * 0.01;
+  controls.update();
+  composer.render();
+}
+animate();`,
+  },
+  {
+    id: "builtin-melancholy",
+    emotion: "melancholy",
+    complexity: 4,
+    code: `const scene = new THREE.Scene();
+scene.fog = new THREE.Fog(0x0b1220, 4, 16);
+const camera = new THREE.PerspectiveCamera(65, width / height, 0.1, 100);
+const renderer = new THREE.WebGLRenderer({ canvas, antialias: true });
+renderer.setSize(width, height);
+renderer.setClearColor(0x0b1220);
+
+// Slow rain falling past a few heavy, sinking stones
+const dropCount = 800;
+const positions = new Float32Array(dropCount * 3);
+for (let i = 0; i < dropCount; i++) {
+  positions[i * 3] = (random() - 0.5) * 12;
+  positions[i * 3 + 1] = random() * 10 - 3;
+  positions[i * 3 + 2] = (random() - 0.5) * 12;
+}
+const rainGeometry = new THREE.BufferGeometry();
+rainGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+const rain = new THREE.Points(
+  rainGeometry,
+  new THREE.PointsMaterial({ color: 0x7f8fa6, size: 0.05, transparent: true, opacity: 0.6 })
+);
+scene.add(rain);
+
+const stones = [];
+for (let i = 0; i < 6; i++) {
+  const stone = new THREE.Mesh(
+    new THREE.DodecahedronGeometry(0.4 + random() * 0.3, 1),
+    new THREE.MeshStandardMaterial({ color: 0x34495e, roughness: 0.9 })
+  );
+  stone.position.set((random() - 0.5) * 5, (random() - 0.5) * 2, (random() - 0.5) * 3);
+  stone.userData = { baseY: stone.position.y, offset: random() * Math.PI * 2 };
+  scene.add(stone);
+  stones.push(stone);
+}
+
+scene.add(new THREE.HemisphereLight(0x40506a, 0x0b1220, 0.6));
+const moon = new THREE.DirectionalLight(0x9fb3c8, 0.4);
+moon.position.set(-3, 5, 2);
+scene.add(moon);
+
+const controls = new OrbitControls(camera, renderer.domElement);
+controls.enableDamping = true;
+camera.position.set(0, 1, 7);
+
+const clock = new THREE.Clock();
+function animate() {
+  requestAnimationFrame(animate);
+  const delta = clock.getDelta();
+  const time = clock.elapsedTime;
+  const array = rainGeometry.attributes.position.array;
+  for (let i = 0; i < dropCount; i++) {
+    array[i * 3 + 1] -= delta * 1.5;
+    if (array[i * 3 + 1] < -3) array[i * 3 + 1] = 7;
+  }
+  rainGeometry.attributes.position.needsUpdate = true;
+  stones.forEach((stone) => {
+    stone.position.y = stone.userData.baseY + Math.sin(time * 0.3 + stone.userData.offset) * 0.15;
+    stone.rotation.y += 0.001;
+  });
+  controls.update();
+  renderer.render(scene, camera);
+}
+animate();`,
+  },
+];
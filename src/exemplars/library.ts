@@ -0,0 +1,195 @@
+/**
+ * Scene Exemplar Library
+ *
+ * Few-shot examples for code generation: the built-in exemplars plus
+ * generated scenes promoted by an admin. Promoted exemplars live in
+ * CACHE_KV under their own prefix, without expiry; their emotion
+ * coordinates are stored as KV metadata so retrieval ranks every exemplar
+ * from a single list call and only reads the code of the ones it picks.
+ *
+ * Retrieval ranks exemplars by VAD distance to the requested emotion, with
+ * a penalty for a different style, and returns the closest one plus up to
+ * two more that are still close.
+ *
+ * Library failures are logged and fall back to the built-in exemplars: a
+ * broken library must never fail a generation.
+ *
+ * @module exemplars/library
+ */
+
+import type { VAD } from "../emotion/lexicon";
+import { vadDistance } from "../emotion/lexicon";
+import { buildEmotionProfile, type EmotionProfile } from "../emotion/visual-parameters";
+import type { StyleName } from "../styles/presets";
+import { getPerformanceBudget } from "../generation/performance-budget";
+import { CodeValidationError, validateThreeCode } from "../validation/code-validator";
+import { logger } from "../shared/logger";
+import { BUILTIN_EXEMPLARS } from "./builtin";
+
+const KEY_PREFIX = "exemplar:";
+
+/** Most exemplars injected into one prompt */
+export const MAX_EXEMPLARS = 3;
+
+/** Exemplars beyond the closest one must be at least this close (VAD units) */
+const MAX_EXEMPLAR_DISTANCE = 0.6;
+
+/** Added to the distance when the exemplar's style differs from the request */
+const STYLE_MISMATCH_PENALTY = 0.5;
+
+/**
+ * What retrieval needs to rank an exemplar; stored as KV metadata
+ */
+export interface ExemplarSummary {
+  id: string;
+  emotion: string;
+  vad: VAD;
+  style?: StyleName;
+  complexity: number;
+  source: "builtin" | "promoted";
+  /** ISO timestamp of the promotion */
+  promotedAt?: string;
+}
+
+export interface SceneExemplar extends ExemplarSummary {
+  code: string;
+}
+
+/**
+ * A generated scene to promote into the library
+ */
+export interface ExemplarPromotion {
+  emotion: string;
+  code: string;
+  style?: StyleName;
+  complexity: number;
+}
+
+const BUILTIN_SCENE_EXEMPLARS: SceneExemplar[] = BUILTIN_EXEMPLARS.map((exemplar) => ({
+  ...exemplar,
+  vad: buildEmotionProfile(exemplar.emotion).vad,
+  source: "builtin",
+}));
+
+/**
+ * Lists every exemplar without its code
+ */
+export async function listExemplars(kv?: KVNamespace): Promise<ExemplarSummary[]> {
+  const builtins = BUILTIN_SCENE_EXEMPLARS.map(({ code: _code, ...summary }) => summary);
+  if (!kv) return builtins;
+
+  const promoted: ExemplarSummary[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list<ExemplarSummary>({ prefix: KEY_PREFIX, cursor });
+    for (const key of page.keys) {
+      if (key.metadata) promoted.push(key.metadata);
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return [...builtins, ...promoted];
+}
+
+/**
+ * Picks the exemplars closest to an emotion profile and style
+ *
+ * @returns 1 to MAX_EXEMPLARS exemplars, closest first
+ */
+export async function findExemplars(
+  kv: KVNamespace | undefined,
+  profile: EmotionProfile,
+  style?: StyleName
+): Promise<SceneExemplar[]> {
+  let summaries: ExemplarSummary[];
+  try {
+    summaries = await listExemplars(kv);
+  } catch (error) {
+    logger.warn({ event: "exemplar_retrieval", exemplar_ids: [], error: errorMessage(error) });
+    summaries = await listExemplars();
+  }
+
+  const distance = (exemplar: ExemplarSummary) =>
+    vadDistance(exemplar.vad, profile.vad) + (exemplar.style === style ? 0 : STYLE_MISMATCH_PENALTY);
+  const ranked = summaries
+    .map((exemplar) => ({ exemplar, distance: distance(exemplar) }))
+    .sort((a, b) => a.distance - b.distance);
+  const picked = ranked
+    .filter((entry, index) => index === 0 || entry.distance <= MAX_EXEMPLAR_DISTANCE)
+    .slice(0, MAX_EXEMPLARS)
+    .map((entry) => entry.exemplar);
+
+  const exemplars: SceneExemplar[] = [];
+  for (const summary of picked) {
+    const exemplar = await loadExemplar(kv, summary);
+    if (exemplar) exemplars.push(exemplar);
+  }
+
+  logger.info({ event: "exemplar_retrieval", exemplar_ids: exemplars.map((e) => e.id) });
+  return exemplars;
+}
+
+async function loadExemplar(kv: KVNamespace | undefined, summary: ExemplarSummary): Promise<SceneExemplar | null> {
+  if (summary.source === "builtin") {
+    return BUILTIN_SCENE_EXEMPLARS.find((e) => e.id === summary.id) ?? null;
+  }
+  try {
+    const code = await kv?.get(KEY_PREFIX + summary.id);
+    return code ? { ...summary, code } : null;
+  } catch (error) {
+    logger.warn({ event: "exemplar_retrieval", exemplar_ids: [summary.id], error: errorMessage(error) });
+    return null;
+  }
+}
+
+/**
+ * Adds a generated scene to the library
+ *
+ * The code must pass the validator at its complexity's budget, so the
+ * model is never shown an example it would be rejected for imitating.
+ * Promoting the same code twice updates the existing exemplar.
+ *
+ * @throws CodeValidationError when the code fails validation
+ */
+export async function promoteExemplar(kv: KVNamespace, promotion: ExemplarPromotion): Promise<ExemplarSummary> {
+  const { emotion, code, style, complexity } = promotion;
+  const validation = validateThreeCode(code, { budget: getPerformanceBudget(complexity) });
+  if (!validation.valid) {
+    throw new CodeValidationError(validation.diagnostics, code);
+  }
+
+  const summary: ExemplarSummary = {
+    id: await hashCode(code),
+    emotion,
+    vad: buildEmotionProfile(emotion).vad,
+    style,
+    complexity,
+    source: "promoted",
+    promotedAt: new Date().toISOString(),
+  };
+  await kv.put(KEY_PREFIX + summary.id, code, { metadata: summary });
+  return summary;
+}
+
+/**
+ * Removes a promoted exemplar; built-in exemplars cannot be removed
+ *
+ * @returns False when no promoted exemplar has that id
+ */
+export async function removeExemplar(kv: KVNamespace, id: string): Promise<boolean> {
+  const key = KEY_PREFIX + id;
+  const existing = await kv.get(key);
+  if (existing === null) return false;
+  await kv.delete(key);
+  return true;
+}
+
+/** Short content hash: promoted ids are stable for the same code */
+async function hashCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(code));
+  return [...new Uint8Array(digest)].slice(0, 8).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,143 @@
+/**
+ * Generation Cache
+ *
+ * Stores AI-generated scenes in CACHE_KV so repeated requests ("peace" at
+ * complexity 5, twice) don't pay for the model again. Entries are keyed on
+ * the normalized request and the prompt template version, so a request for
+ * another template never gets a scene generated from a different prompt.
+ *
+ * Requests without a seed share one entry per request, which keeps the
+ * seed it was generated with; requests with a seed get their own entry.
+ * `fresh: true` skips the lookup and overwrites the entry.
+ *
+ * Cache failures are logged and otherwise ignored: a broken cache must
+ * never fail a generation.
+ *
+ * @module generation/cache
+ */
+
+import type { Env, GenerateMoodSceneInput, GenerateMoodSceneOutput } from "../types";
+import type { PromptVersion } from "../prompts/templates";
+import { logger } from "../shared/logger";
+
+/** Entry lifetime when CACHE_TTL_SECONDS is unset (7 days) */
+export const DEFAULT_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** KV rejects expirationTtl below 60 seconds */
+const MIN_CACHE_TTL_SECONDS = 60;
+
+const KEY_PREFIX = "scene";
+
+/**
+ * The generated part of a result; everything else is rebuilt per request
+ */
+export type CachedGeneration = Pick<GenerateMoodSceneOutput, "format" | "spec" | "code" | "seed" | "provenance">;
+
+/**
+ * Reads the entry lifetime from the environment
+ */
+export function getCacheTtlSeconds(env: Env): number {
+  const configured = Number.parseInt(env.CACHE_TTL_SECONDS ?? "", 10);
+  if (Number.isNaN(configured)) return DEFAULT_CACHE_TTL_SECONDS;
+  return Math.max(MIN_CACHE_TTL_SECONDS, configured);
+}
+
+/**
+ * Lower-cases and collapses punctuation/whitespace, so "Peace!" and
+ * "  peace " share an entry
+ */
+export function normalizeEmotion(emotion: string): string {
+  return emotion.toLowerCase().replace(/[^\p{L}\p{N}%]+/gu, " ").trim();
+}
+
+/**
+ * Cache key for a generation request
+ *
+ * The normalized request is hashed to stay within KV's key length limit;
+ * the prompt version stays readable so entries can be listed per version.
+ */
+export async function buildGenerationCacheKey(
+  args: GenerateMoodSceneInput,
+  complexity: number,
+  format: string,
+  promptVersion: PromptVersion
+): Promise<string> {
+  const request = {
+    emotion: normalizeEmotion(args.emotion),
+    blend: args.blend
+      ?.map((c) => ({ emotion: normalizeEmotion(c.emotion), weight: c.weight }))
+      .sort((a, b) => a.emotion.localeCompare(b.emotion)),
+    complexity,
+    format,
+    style: args.style ?? null,
+    seed: args.seed ?? null,
+    model: args.model ?? null,
+    audioReactive: args.audioReactive ?? false,
+    caption: args.caption ?? null,
+  };
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(request)));
+  const hash = [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+  return `${KEY_PREFIX}:${promptVersion}:${hash}`;
+}
+
+/**
+ * Looks up a cached generation
+ *
+ * @returns The entry, or null on a miss, an unusable entry or a KV error
+ */
+export async function readCachedGeneration(env: Env, key: string): Promise<CachedGeneration | null> {
+  if (!env.CACHE_KV) return null;
+
+  let entry: CachedGeneration | null;
+  try {
+    entry = await env.CACHE_KV.get<CachedGeneration>(key, "json");
+  } catch (error) {
+    logger.warn({ event: "cache_operation", operation: "miss", key, error: errorMessage(error) });
+    return null;
+  }
+
+  if (!entry) {
+    logger.info({ event: "cache_operation", operation: "miss", key });
+    return null;
+  }
+
+  // Entries written by an older shape of the result are dropped
+  if (typeof entry.seed !== "number" || (entry.format === "code" ? !entry.code : !entry.spec)) {
+    logger.warn({ event: "cache_operation", operation: "evict", key });
+    await env.CACHE_KV.delete(key).catch(() => undefined);
+    return null;
+  }
+
+  logger.info({ event: "cache_operation", operation: "hit", key });
+  return entry;
+}
+
+/**
+ * Stores a generation for later identical requests
+ */
+export async function writeCachedGeneration(
+  env: Env,
+  key: string,
+  output: GenerateMoodSceneOutput
+): Promise<void> {
+  if (!env.CACHE_KV) return;
+
+  const entry: CachedGeneration = {
+    format: output.format,
+    spec: output.spec,
+    code: output.code,
+    seed: output.seed,
+    provenance: output.provenance,
+  };
+  const ttl_seconds = getCacheTtlSeconds(env);
+  try {
+    await env.CACHE_KV.put(key, JSON.stringify(entry), { expirationTtl: ttl_seconds });
+    logger.info({ event: "cache_operation", operation: "set", key, ttl_seconds });
+  } catch (error) {
+    logger.warn({ event: "cache_operation", operation: "set", key, ttl_seconds, error: errorMessage(error) });
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
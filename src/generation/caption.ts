@@ -0,0 +1,125 @@
+/**
+ * Scene Captions
+ *
+ * A caption is a short line of text (a brand, a campaign line, a title)
+ * placed into a spec scene as a text object. Placement is deterministic so
+ * every generation path - AI, procedural and fallback - frames it the same
+ * way: in the lower third of the view, turned towards the viewer, sized to
+ * fit the view's width and lettered in the palette color that stands out
+ * most against the background.
+ *
+ * @module generation/caption
+ */
+
+import type { MoodSceneSpec, SceneText } from "../schemas/scene-spec";
+
+type Vec3 = [number, number, number];
+
+/** Share of the camera-target distance at which the caption floats */
+const CAPTION_DEPTH = 0.55;
+
+/** How far below the view's centre the caption sits, as a share of half the view height */
+const CAPTION_DROP = 0.6;
+
+/** Largest letter height, as a share of half the view height */
+const MAX_LETTER_SIZE = 0.14;
+
+/** Share of the view's width the caption may span */
+const MAX_CAPTION_WIDTH = 0.8;
+
+/** Average glyph advance of the bundled fonts, as a share of the letter height */
+const GLYPH_ADVANCE = 0.65;
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const scale = (a: Vec3, s: number): Vec3 => [a[0] * s, a[1] * s, a[2] * s];
+const length = (a: Vec3) => Math.hypot(a[0], a[1], a[2]);
+const normalize = (a: Vec3): Vec3 => scale(a, 1 / (length(a) || 1));
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Relative luminance of a #rrggbb color (WCAG)
+ */
+function luminance(hex: string): number {
+  const [r, g, b] = [1, 3, 5].map((i) => {
+    const channel = parseInt(hex.slice(i, i + 2), 16) / 255;
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+function contrast(a: string, b: string): number {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+/**
+ * Adds a caption text object to a spec
+ *
+ * Scenes whose camera auto-rotates orbit the target, so their caption hangs
+ * below the target where every angle sees it; otherwise it floats between
+ * the camera and the composition.
+ *
+ * @param spec - Scene to caption
+ * @param caption - Text to place (at most MAX_TEXT_LENGTH characters)
+ * @param palette - Colors the lettering may use
+ * @param background - Background the lettering must read against (default: the spec's)
+ */
+export function placeCaption(
+  spec: MoodSceneSpec,
+  caption: string,
+  palette: string[],
+  background: string = spec.background
+): MoodSceneSpec {
+  const { fov, position: eye, target, autoRotate } = spec.camera;
+  const toTarget = sub(target, eye);
+  const distance = length(toTarget) || 6;
+  const forward = normalize(toTarget);
+  let right = cross(forward, [0, 1, 0]);
+  // Looking straight up or down: any horizontal axis will do
+  if (length(right) < 1e-3) right = [1, 0, 0];
+  const up = autoRotate ? ([0, 1, 0] as Vec3) : cross(normalize(right), forward);
+
+  const depth = autoRotate ? distance : distance * CAPTION_DEPTH;
+  const anchor = autoRotate ? target : add(eye, scale(forward, depth));
+  const halfHeight = Math.tan(((fov / 2) * Math.PI) / 180) * depth;
+  const position = add(anchor, scale(up, -halfHeight * CAPTION_DROP));
+  const size = Math.min(
+    halfHeight * MAX_LETTER_SIZE,
+    (halfHeight * 2 * MAX_CAPTION_WIDTH) / (caption.length * GLYPH_ADVANCE)
+  );
+
+  const colors = palette.length > 0 ? palette : ["#f5f5f5", "#111111"];
+  const color = colors.reduce((best, c) => (contrast(c, background) > contrast(best, background) ? c : best));
+
+  const text: SceneText = {
+    kind: "text",
+    id: "caption",
+    text: caption,
+    font: "helvetiker",
+    size: round(size),
+    depth: round(size * 0.15),
+    material: {
+      type: "standard",
+      color,
+      emissive: color,
+      emissiveIntensity: 0.3,
+      roughness: 0.4,
+      metalness: 0.2,
+      opacity: 1,
+      wireframe: false,
+      flatShading: false,
+    },
+    position: position.map(round) as Vec3,
+    rotation: [0, 0, 0],
+    faceCamera: true,
+    behaviours: [{ type: "float", speed: 0.6, amplitude: round(size * 0.15), axis: "y" }],
+  };
+
+  return { ...spec, objects: [...spec.objects, text] };
+}
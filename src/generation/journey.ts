@@ -0,0 +1,85 @@
+/**
+ * Mood Journeys
+ *
+ * A journey is one scene whose palette, motion and lighting move through an
+ * ordered list of emotions ("anxiety resolving into calm"). The scene is
+ * generated once, for the blend of every stage weighted by its duration, so
+ * its objects suit the whole journey. Each stage adds a keyframe holding
+ * the visual parameters of its own emotion; the widget interpolates between
+ * keyframes as the journey plays.
+ *
+ * @module generation/journey
+ */
+
+import { buildEmotionProfile } from "../emotion/visual-parameters";
+
+export const MIN_JOURNEY_STAGES = 2;
+export const MAX_JOURNEY_STAGES = 6;
+
+/** Stage duration bounds, in seconds */
+export const MIN_STAGE_SECONDS = 1;
+export const MAX_STAGE_SECONDS = 120;
+
+/**
+ * Share of each stage spent morphing into the next one; the rest holds the
+ * stage's own look
+ */
+export const JOURNEY_TRANSITION_RATIO = 0.5;
+
+/**
+ * One emotion of a journey and how long it lasts
+ */
+export interface JourneyStage {
+  emotion: string;
+  /** Seconds */
+  duration: number;
+}
+
+/**
+ * The look of one stage, from its emotion's visual parameters
+ */
+export interface JourneyKeyframe {
+  emotion: string;
+  /** Seconds from the start of the journey */
+  start: number;
+  duration: number;
+  palette: string[];
+  background: string;
+  motionSpeed: number;
+  lightIntensity: number;
+  bloomStrength: number;
+}
+
+export interface MoodJourney {
+  keyframes: JourneyKeyframe[];
+  /** Total length in seconds */
+  duration: number;
+  /** Whether the last stage morphs back into the first and the journey repeats */
+  loop: boolean;
+  transitionRatio: number;
+}
+
+/**
+ * Builds the keyframes for a list of stages
+ */
+export function buildMoodJourney(stages: JourneyStage[], loop: boolean): MoodJourney {
+  let start = 0;
+  const keyframes = stages.map(({ emotion, duration }) => {
+    const { palette, background, motionSpeed, lightIntensity, bloomStrength } =
+      buildEmotionProfile(emotion).parameters;
+    const keyframe: JourneyKeyframe = {
+      emotion,
+      start,
+      duration,
+      palette,
+      background,
+      motionSpeed,
+      lightIntensity,
+      bloomStrength,
+    };
+    start += duration;
+    return keyframe;
+  });
+
+  return { keyframes, duration: start, loop, transitionRatio: JOURNEY_TRANSITION_RATIO };
+}
@@ -0,0 +1,172 @@
+/**
+ * Performance Budgets
+ *
+ * What a scene may cost at each complexity level: draw calls, particles,
+ * segments per geometry, lights and post-processing passes. Budgets are
+ * enforced in three places:
+ * - specs are auto-downgraded on the server (fewer instances, lower detail)
+ * - raw code is checked statically and rejected with an explanation, which
+ *   sends it through the self-repair loop
+ * - the widget measures renderer.info at runtime and lowers the resolution
+ *   of scenes that still exceed the budget
+ *
+ * @module generation/performance-budget
+ */
+
+import type { MoodSceneSpec, SceneMeshGroup } from "../schemas/scene-spec";
+
+export interface PerformanceBudget {
+  complexity: number;
+  /** Draw calls per frame (one per mesh, points or line object) */
+  maxDrawCalls: number;
+  /** Particles (points vertices) across the scene */
+  maxParticles: number;
+  /** Product of a geometry's segment counts, e.g. 32 × 16 for a sphere */
+  maxGeometrySegments: number;
+  maxLights: number;
+  /** Passes after the RenderPass (bloom, film, ...) */
+  maxPostPasses: number;
+}
+
+export type BudgetMetric = "drawCalls" | "particles" | "geometrySegments" | "lights" | "postPasses";
+
+/**
+ * A measured value over its budget
+ */
+export interface BudgetViolation {
+  metric: BudgetMetric;
+  value: number;
+  limit: number;
+}
+
+const MIN_COMPLEXITY = 1;
+const MAX_COMPLEXITY = 10;
+
+/** Readable names for explanations */
+export const BUDGET_METRIC_LABELS: Record<BudgetMetric, string> = {
+  drawCalls: "draw calls",
+  particles: "particles",
+  geometrySegments: "geometry segments",
+  lights: "lights",
+  postPasses: "post-processing passes",
+};
+
+/**
+ * Budget for a complexity level (1-10, clamped)
+ */
+export function getPerformanceBudget(complexity: number): PerformanceBudget {
+  const level = Math.min(MAX_COMPLEXITY, Math.max(MIN_COMPLEXITY, Math.round(complexity)));
+  return {
+    complexity: level,
+    maxDrawCalls: 20 + 15 * level,
+    maxParticles: 1500 * level,
+    maxGeometrySegments: 1000 + 500 * level,
+    maxLights: 3 + Math.floor(level / 2),
+    maxPostPasses: level <= 3 ? 1 : level <= 7 ? 2 : 3,
+  };
+}
+
+/**
+ * "412 draw calls (max 95)"
+ */
+export function formatBudgetViolation({ metric, value, limit }: BudgetViolation): string {
+  return `${value} ${BUDGET_METRIC_LABELS[metric]} (max ${limit})`;
+}
+
+// ============================================================================
+// Spec Enforcement
+// ============================================================================
+
+/**
+ * Segment product of the geometry the widget builds for a spec mesh group
+ * (mirrors createGeometry in the scene interpreter)
+ */
+function specGeometrySegments(geometry: SceneMeshGroup["geometry"]): number {
+  const segments = Math.max(3, geometry.detail);
+  switch (geometry.type) {
+    case "sphere":
+      return segments * 2 * segments;
+    case "torus":
+      return segments * segments * 4;
+    case "torusKnot":
+      return segments * 8 * segments;
+    case "plane":
+      return segments * segments;
+    case "ring":
+      return segments * 2;
+    case "cone":
+    case "cylinder":
+      return segments;
+    default:
+      // Box and polyhedra have fixed or capped subdivision
+      return 1;
+  }
+}
+
+/**
+ * Downgrades a spec until it fits the budget
+ *
+ * Mesh and particle counts are scaled down proportionally (every group
+ * keeps at least one instance and text is kept whole), geometry detail is
+ * lowered and the lights listed last are dropped. Bloom, a spec's only
+ * pass, fits every budget.
+ *
+ * @returns The fitted spec and a description of every change
+ */
+export function fitSpecToBudget(
+  spec: MoodSceneSpec,
+  budget: PerformanceBudget
+): { spec: MoodSceneSpec; adjustments: string[] } {
+  const adjustments: string[] = [];
+
+  // Each mesh instance, particle group and text object is one draw call
+  const meshInstances = spec.objects.reduce((sum, o) => sum + (o.kind === "mesh" ? o.count : 0), 0);
+  const singleCallObjects = spec.objects.filter((o) => o.kind !== "mesh").length;
+  const meshCallBudget = Math.max(1, budget.maxDrawCalls - singleCallObjects);
+  const meshScale = meshInstances > meshCallBudget ? meshCallBudget / meshInstances : 1;
+
+  const particles = spec.objects.reduce((sum, o) => sum + (o.kind === "particles" ? o.count : 0), 0);
+  const particleScale = particles > budget.maxParticles ? budget.maxParticles / particles : 1;
+
+  if (meshScale < 1) {
+    adjustments.push(`Mesh instances reduced from ${meshInstances} to fit ${budget.maxDrawCalls} draw calls`);
+  }
+  if (particleScale < 1) {
+    adjustments.push(`Particles reduced from ${particles} to ${budget.maxParticles}`);
+  }
+
+  const objects = spec.objects.map((object) => {
+    if (object.kind === "text") return object;
+    if (object.kind === "particles") {
+      return particleScale < 1
+        ? { ...object, count: Math.max(1, Math.floor(object.count * particleScale)) }
+        : object;
+    }
+
+    let detail = object.geometry.detail;
+    while (detail > 0 && specGeometrySegments({ ...object.geometry, detail }) > budget.maxGeometrySegments) {
+      detail--;
+    }
+    if (detail !== object.geometry.detail) {
+      adjustments.push(
+        `${object.id ?? object.geometry.type} detail lowered from ${object.geometry.detail} to ${detail}`
+      );
+    }
+
+    return {
+      ...object,
+      count: meshScale < 1 ? Math.max(1, Math.floor(object.count * meshScale)) : object.count,
+      geometry: { ...object.geometry, detail },
+    };
+  });
+
+  const lights = spec.lights.slice(0, budget.maxLights);
+  if (lights.length < spec.lights.length) {
+    adjustments.push(`Lights reduced from ${spec.lights.length} to ${budget.maxLights}`);
+  }
+
+  return {
+    spec: adjustments.length > 0 ? { ...spec, objects, lights } : spec,
+    adjustments,
+  };
+}
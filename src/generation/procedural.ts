@@ -0,0 +1,320 @@
+/**
+ * Procedural Scene Generator
+ *
+ * Builds a MoodSceneSpec without calling a model. The emotion profile (a
+ * single emotion or a weighted blend) supplies the look: palette,
+ * background, geometry family, motion speed, light and bloom. Its
+ * valence/arousal/dominance point picks the nearest mood family from the
+ * emotional mappings in SERVER_INSTRUCTIONS, which supplies the structure:
+ * materials, layouts, behaviours and atmosphere. The seed drives every
+ * random choice, so the same profile, complexity and seed always produce
+ * the same scene.
+ *
+ * Used when generate_mood_scene is called with mode "procedural", and as
+ * the fallback when AI generation is unavailable or keeps failing.
+ *
+ * @module generation/procedural
+ */
+
+import {
+  parseMoodSceneSpec,
+  SCENE_SPEC_VERSION,
+  type GEOMETRY_TYPES,
+  type BEHAVIOUR_TYPES,
+  type LAYOUT_TYPES,
+  type MoodSceneSpec,
+} from "../schemas/scene-spec";
+import { createSeededRandom } from "./seed";
+import { EMOTION_LEXICON, vadDistance } from "../emotion/lexicon";
+import { buildEmotionProfile, type EmotionProfile } from "../emotion/visual-parameters";
+
+/**
+ * How generate_mood_scene produces a scene: with the model, or procedurally
+ */
+export const GENERATION_MODES = ["ai", "procedural"] as const;
+export type GenerationMode = (typeof GENERATION_MODES)[number];
+
+type GeometryType = (typeof GEOMETRY_TYPES)[number];
+type BehaviourType = (typeof BEHAVIOUR_TYPES)[number];
+type LayoutType = (typeof LAYOUT_TYPES)[number];
+type MaterialType = "standard" | "physical" | "basic" | "normal";
+
+/**
+ * Structure shared by one family of emotions
+ */
+interface MoodFamily {
+  name: string;
+  materials: MaterialType[];
+  roughness: number;
+  metalness: number;
+  emissiveIntensity: number;
+  layouts: LayoutType[];
+  behaviours: BehaviourType[];
+  amplitude: number;
+  /** Large wireframe shape enclosing the scene ("nested shapes") */
+  centerpiece?: GeometryType;
+  particles: { layout: LayoutType; behaviours: BehaviourType[] };
+  fog?: boolean;
+  autoRotate: boolean;
+}
+
+/**
+ * A family's structure with the look of one emotion profile
+ */
+interface MoodProfile extends MoodFamily {
+  background: string;
+  palette: string[];
+  geometries: GeometryType[];
+  flatShading: boolean;
+  /** Base animation speed; behaviours vary around it */
+  speed: number;
+  particleColor: string;
+  bloom?: number;
+}
+
+/**
+ * One family per mapping in SERVER_INSTRUCTIONS "Creative Guidelines"
+ */
+const MOOD_FAMILIES: MoodFamily[] = [
+  {
+    name: "peace",
+    materials: ["standard", "physical"],
+    roughness: 0.3,
+    metalness: 0.1,
+    emissiveIntensity: 0.1,
+    layouts: ["ring", "sphere", "spiral"],
+    behaviours: ["float", "rotate"],
+    amplitude: 0.4,
+    particles: { layout: "sphere", behaviours: ["rotate"] },
+    autoRotate: true,
+  },
+  {
+    name: "energy",
+    materials: ["standard"],
+    roughness: 0.25,
+    metalness: 0.4,
+    emissiveIntensity: 0.6,
+    layouts: ["spiral", "ring", "random"],
+    behaviours: ["rotate", "orbit", "pulse"],
+    amplitude: 0.6,
+    particles: { layout: "spiral", behaviours: ["orbit"] },
+    autoRotate: false,
+  },
+  {
+    name: "chaos",
+    materials: ["standard", "basic", "normal", "physical"],
+    roughness: 0.6,
+    metalness: 0.3,
+    emissiveIntensity: 0.4,
+    layouts: ["random"],
+    behaviours: ["jitter", "rotate", "orbit"],
+    amplitude: 0.8,
+    particles: { layout: "random", behaviours: ["jitter"] },
+    autoRotate: false,
+  },
+  {
+    name: "curiosity",
+    materials: ["physical", "standard"],
+    roughness: 0.2,
+    metalness: 0.5,
+    emissiveIntensity: 0.8,
+    layouts: ["sphere", "spiral", "ring"],
+    behaviours: ["pulse", "rotate", "float"],
+    amplitude: 0.3,
+    centerpiece: "icosahedron",
+    particles: { layout: "sphere", behaviours: ["pulse", "rotate"] },
+    autoRotate: true,
+  },
+  {
+    name: "joy",
+    materials: ["standard", "physical"],
+    roughness: 0.35,
+    metalness: 0.05,
+    emissiveIntensity: 0.3,
+    layouts: ["grid", "ring", "random"],
+    behaviours: ["float", "pulse", "rotate"],
+    amplitude: 0.8,
+    particles: { layout: "random", behaviours: ["float"] },
+    autoRotate: false,
+  },
+  {
+    name: "melancholy",
+    materials: ["standard"],
+    roughness: 0.8,
+    metalness: 0.05,
+    emissiveIntensity: 0.05,
+    layouts: ["line", "random"],
+    behaviours: ["fall", "float"],
+    amplitude: 0.5,
+    particles: { layout: "random", behaviours: ["fall"] },
+    fog: true,
+    autoRotate: false,
+  },
+];
+
+/**
+ * Builds the profile for an emotion profile: the family whose emotion lies
+ * closest in valence/arousal/dominance space, with the emotion's own
+ * visual parameters in place of the family's look
+ */
+function buildMoodProfile({ vad, parameters }: EmotionProfile): MoodProfile {
+  const family = MOOD_FAMILIES.reduce((best, candidate) =>
+    vadDistance(vad, EMOTION_LEXICON[candidate.name]) < vadDistance(vad, EMOTION_LEXICON[best.name])
+      ? candidate
+      : best
+  );
+  return {
+    ...family,
+    background: parameters.background,
+    palette: parameters.palette,
+    geometries: parameters.geometries,
+    flatShading: parameters.geometrySharpness > 0.5,
+    speed: parameters.motionSpeed,
+    particleColor: parameters.palette[parameters.palette.length - 1],
+    bloom: parameters.bloomStrength > 0 ? parameters.bloomStrength : undefined,
+  };
+}
+
+/**
+ * Generates a scene spec for an emotion without calling a model
+ *
+ * @param emotion - The emotion or concept to visualize
+ * @param complexity - Complexity level 1-10 (affects object count)
+ * @param seed - Seed for every random choice
+ * @param emotionProfile - Resolved emotion or blend; defaults to the emotion's own profile
+ * @returns Validated scene spec
+ */
+export function generateProceduralScene(
+  emotion: string,
+  complexity: number,
+  seed: number,
+  emotionProfile: EmotionProfile = buildEmotionProfile(emotion)
+): MoodSceneSpec {
+  const random = createSeededRandom(seed);
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)];
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const profile = buildMoodProfile(emotionProfile);
+
+  // Same instance budget the AI prompts ask for
+  const totalInstances = Math.floor(5 + complexity * 2);
+  const groupCount = Math.min(4, 1 + Math.floor(complexity / 3));
+
+  const objects: MoodSceneSpec["objects"] = [];
+  let remaining = totalInstances;
+
+  for (let i = 0; i < groupCount; i++) {
+    const count = i === groupCount - 1
+      ? remaining
+      : Math.max(1, Math.round(remaining / (groupCount - i)));
+    remaining -= count;
+
+    const color = profile.palette[i % profile.palette.length];
+    const behaviours = [pick(profile.behaviours), pick(profile.behaviours)]
+      .filter((type, index, all) => all.indexOf(type) === index)
+      .map((type) => ({
+        type,
+        speed: round(profile.speed * (0.7 + random() * 0.6)),
+        amplitude: round(profile.amplitude * (0.7 + random() * 0.6)),
+        axis: pick(["x", "y", "z"] as const),
+      }));
+
+    objects.push({
+      kind: "mesh",
+      id: `${profile.name}-${i + 1}`,
+      geometry: {
+        type: pick(profile.geometries),
+        size: round(0.3 + random() * 0.4),
+        detail: profile.flatShading ? 0 : 32,
+      },
+      material: {
+        type: pick(profile.materials),
+        color,
+        emissive: color,
+        emissiveIntensity: profile.emissiveIntensity,
+        roughness: profile.roughness,
+        metalness: profile.metalness,
+        opacity: 1,
+        wireframe: false,
+        flatShading: profile.flatShading,
+      },
+      count,
+      layout: pick(profile.layouts),
+      spread: round(2.5 + random() * 2 + i),
+      position: [0, 0, 0],
+      rotation: [0, 0, 0],
+      scale: 1,
+      scaleVariance: round(0.2 + random() * 0.4),
+      colorVariants: profile.palette,
+      behaviours,
+    });
+  }
+
+  if (profile.centerpiece) {
+    objects.push({
+      kind: "mesh",
+      id: `${profile.name}-centerpiece`,
+      geometry: { type: profile.centerpiece, size: 2.5, detail: 1 },
+      material: {
+        type: "basic",
+        color: profile.palette[0],
+        emissiveIntensity: 0,
+        roughness: 0.5,
+        metalness: 0,
+        opacity: 0.35,
+        wireframe: true,
+        flatShading: false,
+      },
+      count: 1,
+      layout: "random",
+      spread: 0,
+      position: [0, 0, 0],
+      rotation: [0, 0, 0],
+      scale: 1,
+      scaleVariance: 0,
+      behaviours: [{ type: "rotate", speed: round(profile.speed * 0.3), amplitude: 0, axis: "y" }],
+    });
+  }
+
+  objects.push({
+    kind: "particles",
+    id: `${profile.name}-particles`,
+    count: 200 + complexity * 150,
+    size: 0.04,
+    color: profile.particleColor,
+    opacity: 0.7,
+    layout: profile.particles.layout,
+    spread: 12,
+    position: [0, 0, 0],
+    behaviours: profile.particles.behaviours.map((type) => ({
+      type,
+      speed: round(profile.speed * 0.5),
+      amplitude: round(profile.amplitude),
+      axis: "y" as const,
+    })),
+  });
+
+  return parseMoodSceneSpec({
+    version: SCENE_SPEC_VERSION,
+    title: `${emotion} (${profile.name})`.slice(0, 80),
+    background: profile.background,
+    camera: {
+      fov: 75,
+      position: [0, 1, 8],
+      target: [0, 0, 0],
+      autoRotate: profile.autoRotate,
+      autoRotateSpeed: 0.5,
+    },
+    fog: profile.fog
+      ? { type: "exp2", color: profile.background, near: 1, far: 30, density: 0.08 }
+      : undefined,
+    lights: [
+      { type: "ambient", color: "#ffffff", intensity: 0.4 },
+      { type: "directional", color: "#ffffff", intensity: emotionProfile.parameters.lightIntensity, position: [5, 5, 5] },
+      { type: "point", color: profile.palette[1], intensity: 1, position: [-4, 2, 3] },
+    ],
+    objects,
+    postProcessing: profile.bloom
+      ? { bloom: { strength: profile.bloom, radius: 0.4, threshold: 0.2 } }
+      : undefined,
+  });
+}
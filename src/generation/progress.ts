@@ -0,0 +1,107 @@
+/**
+ * Generation Progress Notifications
+ *
+ * Streams generation progress to the client as MCP `notifications/progress`
+ * messages, tied to the progressToken the client sent with the tool call.
+ * While scene code streams from the model, the text generated so far rides
+ * along in the notification's `_meta` under PARTIAL_CODE_META_KEY so the
+ * widget can render it live.
+ *
+ * Transport-agnostic: callers provide the function that delivers a
+ * notification (McpAgent's `extra.sendNotification`, or an SSE writer on the
+ * API key path).
+ *
+ * @module generation/progress
+ */
+
+/** `_meta` key carrying the partial code in progress notifications */
+export const PARTIAL_CODE_META_KEY = "3d-moodboard/partialCode";
+
+/** Minimum delay between two partial-code notifications */
+const PARTIAL_CODE_INTERVAL_MS = 200;
+
+export type ProgressToken = string | number;
+
+/**
+ * A `notifications/progress` message ready to be sent to the client
+ */
+export interface ProgressNotification {
+  method: "notifications/progress";
+  params: {
+    progressToken: ProgressToken;
+    progress: number;
+    message?: string;
+    _meta?: Record<string, unknown>;
+  };
+}
+
+export interface ProgressUpdate {
+  /** Human-readable stage, e.g. "Generating scene code" */
+  message: string;
+  /** Code generated so far in the current attempt */
+  partialCode?: string;
+}
+
+/**
+ * Reports progress for one tool call
+ */
+export interface ProgressReporter {
+  report(update: ProgressUpdate): Promise<void>;
+  /**
+   * Returns a streaming callback for GenerationOptions.onToken that forwards
+   * the partial code at most every PARTIAL_CODE_INTERVAL_MS
+   */
+  streamCode(message: string): (text: string) => Promise<void>;
+}
+
+/**
+ * Creates a reporter for a tool call, or undefined when the client did not
+ * ask for progress (no progressToken)
+ *
+ * Delivery failures are swallowed: progress is best-effort and must never
+ * fail the generation itself.
+ *
+ * @param progressToken - Token from the request's `_meta.progressToken`
+ * @param send - Delivers a notification on the caller's transport
+ */
+export function createProgressReporter(
+  progressToken: ProgressToken | undefined,
+  send: (notification: ProgressNotification) => Promise<void>
+): ProgressReporter | undefined {
+  if (progressToken === undefined) return undefined;
+
+  // Progress must increase with every notification
+  let progress = 0;
+
+  const report = async ({ message, partialCode }: ProgressUpdate): Promise<void> => {
+    progress++;
+    try {
+      await send({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress,
+          message,
+          ...(partialCode !== undefined && {
+            _meta: { [PARTIAL_CODE_META_KEY]: partialCode },
+          }),
+        },
+      });
+    } catch {
+      // Client went away or transport closed; keep generating
+    }
+  };
+
+  return {
+    report,
+    streamCode(message) {
+      let lastSent = 0;
+      return async (text) => {
+        const now = Date.now();
+        if (now - lastSent < PARTIAL_CODE_INTERVAL_MS) return;
+        lastSent = now;
+        await report({ message, partialCode: text });
+      };
+    },
+  };
+}
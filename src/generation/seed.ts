@@ -0,0 +1,47 @@
+/**
+ * Scene Seeds
+ *
+ * Every scene carries a seed: it is passed to model sampling and returned
+ * to the widget, which uses it for its PRNG. Reusing a seed recreates the
+ * scene exactly.
+ *
+ * @module generation/seed
+ */
+
+/** Largest seed accepted by the tool inputs (unsigned 32-bit) */
+export const MAX_SEED = 4294967295;
+
+/**
+ * Returns the requested seed, or a fresh random one when none was given
+ */
+export function resolveSeed(seed?: number): number {
+  if (seed !== undefined) return seed;
+  // Workers AI requires seed >= 1
+  return (crypto.getRandomValues(new Uint32Array(1))[0] % MAX_SEED) + 1;
+}
+
+/**
+ * Seed for a fresh retry within the self-repair loop.
+ *
+ * Retrying with the original seed would reproduce the same failure; offsetting
+ * by the attempt number keeps the whole loop deterministic for a given seed.
+ */
+export function seedForAttempt(seed: number, attempt: number): number {
+  return ((seed - 1 + attempt - 1) % MAX_SEED) + 1;
+}
+
+/**
+ * mulberry32 PRNG, the same generator the widget installs as Math.random
+ *
+ * @returns Function producing floats in [0, 1), like Math.random
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Self-Repair Generation Loop
+ *
+ * Wraps a generation step with automatic retries. When the output is
+ * rejected by the validator, the failing code and its diagnostics are fed
+ * back to the model for repair; other failures (bad JSON, transient AI
+ * errors) retry the original step. Every attempt is recorded so callers can
+ * return the history in the tool result.
+ *
+ * @module generation/self-repair
+ */
+
+import type { Env } from "../types";
+import { logger } from "../shared/logger";
+import {
+  CodeValidationError,
+  type CodeDiagnostic,
+} from "../validation/code-validator";
+
+/** Repairs allowed after the first attempt when MAX_REPAIR_ATTEMPTS is unset */
+export const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+/** Hard ceiling regardless of configuration, to bound AI cost per call */
+const MAX_REPAIR_ATTEMPTS_CEILING = 5;
+
+/**
+ * One pass through the loop, as reported in structuredContent
+ */
+export interface GenerationAttempt {
+  attempt: number;
+  /** Why this attempt ran: "initial", "repair: ..." or "retry: ..." */
+  reason: string;
+  outcome: "success" | "rejected" | "failed";
+  duration_ms: number;
+  error?: string;
+  diagnostics?: CodeDiagnostic[];
+}
+
+/**
+ * Thrown when every attempt failed. `lastError` is the final failure.
+ */
+export class SelfRepairExhaustedError extends Error {
+  readonly attempts: GenerationAttempt[];
+  readonly lastError: unknown;
+
+  constructor(attempts: GenerationAttempt[], lastError: unknown) {
+    const message = lastError instanceof Error ? lastError.message : String(lastError);
+    super(`Scene generation failed after ${attempts.length} attempt(s): ${message}`);
+    this.name = "SelfRepairExhaustedError";
+    this.attempts = attempts;
+    this.lastError = lastError;
+  }
+}
+
+export interface SelfRepairSteps<T> {
+  /**
+   * Produces a fresh result (first attempt and non-repairable retries).
+   * Receives the 1-based attempt number so retries can vary their seed.
+   */
+  generate: (attempt: number) => Promise<T>;
+  /**
+   * Repairs rejected code using its diagnostics; omit to always regenerate.
+   * Receives the attempt number too, so repairs can vary their seed.
+   */
+  repair?: (code: string, diagnostics: CodeDiagnostic[], attempt: number) => Promise<T>;
+}
+
+/**
+ * Reads the repair budget from the environment
+ */
+export function getMaxRepairAttempts(env: Env): number {
+  const configured = Number.parseInt(env.MAX_REPAIR_ATTEMPTS ?? "", 10);
+  if (Number.isNaN(configured)) return DEFAULT_MAX_REPAIR_ATTEMPTS;
+  return Math.min(MAX_REPAIR_ATTEMPTS_CEILING, Math.max(0, configured));
+}
+
+/**
+ * Runs a generation step with up to `maxRepairs` follow-up attempts
+ *
+ * @param tool - Tool name, for log events
+ * @param steps - Generate and (optionally) repair callbacks
+ * @param maxRepairs - Attempts allowed after the first one
+ * @returns The first successful value plus the attempt history
+ * @throws SelfRepairExhaustedError when every attempt fails
+ */
+export async function runWithSelfRepair<T>(
+  tool: string,
+  steps: SelfRepairSteps<T>,
+  maxRepairs: number
+): Promise<{ value: T; attempts: GenerationAttempt[] }> {
+  const attempts: GenerationAttempt[] = [];
+  let next: (attempt: number) => Promise<T> = steps.generate;
+  let reason = "initial";
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const startTime = Date.now();
+
+    try {
+      const value = await next(attempt);
+      const record: GenerationAttempt = {
+        attempt,
+        reason,
+        outcome: "success",
+        duration_ms: Date.now() - startTime,
+      };
+      attempts.push(record);
+      logger.info({
+        event: "generation_attempt",
+        tool,
+        attempt,
+        reason,
+        outcome: record.outcome,
+        duration_ms: record.duration_ms,
+      });
+      return { value, attempts };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const rejected = error instanceof CodeValidationError;
+      const record: GenerationAttempt = {
+        attempt,
+        reason,
+        outcome: rejected ? "rejected" : "failed",
+        duration_ms: Date.now() - startTime,
+        error: message,
+        diagnostics: rejected ? error.diagnostics : undefined,
+      };
+      attempts.push(record);
+      logger.warn({
+        event: "generation_attempt",
+        tool,
+        attempt,
+        reason,
+        outcome: record.outcome,
+        duration_ms: record.duration_ms,
+        diagnostics_count: record.diagnostics?.length,
+        error: message,
+      });
+
+      if (attempt > maxRepairs) {
+        logger.error({
+          event: "generation_exhausted",
+          tool,
+          attempts: attempts.length,
+          error: message,
+        });
+        throw new SelfRepairExhaustedError(attempts, error);
+      }
+
+      const { repair } = steps;
+      if (rejected && repair && error.code !== undefined) {
+        const { code, diagnostics } = error;
+        const rules = diagnostics.filter((d) => d.severity === "error").map((d) => d.rule);
+        reason = `repair: ${[...new Set(rules)].join(", ")}`;
+        next = (attempt) => repair(code, diagnostics, attempt);
+      } else {
+        reason = `retry: ${message}`;
+        next = steps.generate;
+      }
+    }
+  }
+
+  // Unreachable: the loop either returns or throws on the last attempt
+  throw new SelfRepairExhaustedError(attempts, new Error("No attempts were made"));
+}
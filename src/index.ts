@@ -2,6 +2,7 @@ import OAuthProvider from "@cloudflare/workers-oauth-provider";
 import { Moodboard3DMCP } from "./server";
 import { AuthkitHandler } from "./auth/authkit-handler";
 import { handleApiKeyRequest } from "./api-key-handler";
+import { EXEMPLAR_ADMIN_PATH, handleExemplarAdminRequest } from "./exemplars/admin-handler";
 import type { Env } from "./types";
 import { logger } from "./shared/logger";
 
@@ -29,6 +30,9 @@ export { Moodboard3DMCP };
  * - /callback - Handles OAuth callback from WorkOS
  * - /token - Token endpoint for OAuth clients
  * - /register - Dynamic Client Registration endpoint
+ *
+ * Admin Endpoints (EXEMPLAR_ADMIN_TOKEN bearer token):
+ * - /admin/exemplars - Curates the few-shot exemplar library
  */
 
 // Create OAuthProvider instance
@@ -55,6 +59,10 @@ export default {
             const url = new URL(request.url);
             const authHeader = request.headers.get("Authorization");
 
+            if (url.pathname === EXEMPLAR_ADMIN_PATH) {
+                return await handleExemplarAdminRequest(request, env);
+            }
+
             // Check for API key authentication on MCP endpoints
             if (isApiKeyRequest(url.pathname, authHeader)) {
                 logger.info({ event: 'transport_request', transport: 'http', method: 'api_key', user_email: '' });
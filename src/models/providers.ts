@@ -0,0 +1,315 @@
+/**
+ * Model Providers
+ *
+ * Generation talks to a ModelClient instead of the Workers AI binding: the
+ * client runs each completion through an ordered chain of models and moves
+ * on to the next model when one fails (unavailable, rate limited, timed
+ * out). Output problems are not provider failures: rejected code still
+ * goes through the self-repair loop.
+ *
+ * Providers:
+ * - workers-ai (default): the AI binding, through AI Gateway when configured
+ * - stub (AI_PROVIDER=stub): answers from the procedural generator and the
+ *   built-in exemplars, so the pipeline runs in `wrangler dev` without
+ *   network access
+ *
+ * @module models/providers
+ */
+
+import type { Env } from "../types";
+import { logger } from "../shared/logger";
+import { vadDistance } from "../emotion/lexicon";
+import { buildEmotionProfile } from "../emotion/visual-parameters";
+import { generateProceduralScene } from "../generation/procedural";
+import { BUILTIN_EXEMPLARS } from "../exemplars/builtin";
+import {
+  resolveModelChain,
+  STUB_MODEL,
+  type ModelConfig,
+  type ModelId,
+} from "./registry";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  /** Output the prompt needs; lowered to each model's max_tokens */
+  max_tokens: number;
+  seed?: number;
+  /**
+   * Receives the text generated so far; when set, the completion streams.
+   * A fallback model restarts the text from scratch.
+   */
+  onToken?: (text: string) => void | Promise<void>;
+  /** Constrains the output to a JSON Schema; only jsonMode models are tried */
+  jsonSchema?: unknown;
+  /** What the prompt asks for; read by providers that do not run a model */
+  subject: { emotion: string; complexity: number };
+}
+
+/**
+ * Sampling parameters a completion was requested with
+ */
+export interface CompletionParameters {
+  max_tokens: number;
+  temperature: number;
+  seed?: number;
+  stream?: boolean;
+  response_format?: "json_schema";
+}
+
+export interface Completion {
+  text: string;
+  /** Model that produced the text */
+  model: string;
+  parameters: CompletionParameters;
+}
+
+/**
+ * Thrown when no model can answer: the AI binding is missing, or every
+ * model in the chain failed. `lastError` is the last model's error.
+ */
+export class ModelUnavailableError extends Error {
+  readonly lastError: unknown;
+
+  constructor(message: string, lastError?: unknown) {
+    super(message);
+    this.name = "ModelUnavailableError";
+    this.lastError = lastError;
+  }
+}
+
+/**
+ * Runs one completion on one model
+ */
+export interface ModelProvider {
+  name: "workers-ai" | "stub";
+  run(model: ModelConfig, request: CompletionRequest, parameters: CompletionParameters): Promise<string>;
+}
+
+/**
+ * Runs completions through a provider's fallback chain
+ */
+export interface ModelClient {
+  /**
+   * @throws ModelUnavailableError when every model in the chain fails
+   */
+  complete(request: CompletionRequest): Promise<Completion>;
+}
+
+/**
+ * Creates the client for a tool call
+ *
+ * @param env - Worker environment bindings (AI, AI_GATEWAY_ID, AI_MODELS, AI_PROVIDER)
+ * @param override - Model requested by the call; pins the chain to that model
+ * @throws ModelUnavailableError when the Workers AI binding is missing
+ */
+export function createModelClient(env: Env, override?: ModelId): ModelClient {
+  if (env.AI_PROVIDER === "stub") {
+    return createFallbackClient(createStubProvider(), [STUB_MODEL]);
+  }
+  if (!env.AI) {
+    throw new ModelUnavailableError("Workers AI binding is not configured");
+  }
+  return createFallbackClient(
+    createWorkersAIProvider(env.AI, env.AI_GATEWAY_ID),
+    resolveModelChain(env, override)
+  );
+}
+
+function createFallbackClient(provider: ModelProvider, chain: ModelConfig[]): ModelClient {
+  return {
+    async complete(request) {
+      const models = request.jsonSchema ? chain.filter((model) => model.jsonMode) : chain;
+      if (models.length === 0) {
+        throw new Error(`None of the models ${chain.map((m) => m.id).join(", ")} support JSON output`);
+      }
+
+      let lastError: unknown;
+      for (const [index, model] of models.entries()) {
+        const parameters: CompletionParameters = {
+          max_tokens: Math.min(request.max_tokens, model.max_tokens),
+          temperature: model.temperature,
+          seed: request.seed,
+        };
+        if (request.onToken) parameters.stream = true;
+        if (request.jsonSchema) parameters.response_format = "json_schema";
+
+        try {
+          const text = await provider.run(model, request, parameters);
+          return { text, model: model.id, parameters };
+        } catch (error) {
+          lastError = error;
+          logger.warn({
+            event: "model_fallback",
+            provider: provider.name,
+            model: model.id,
+            next_model: models[index + 1]?.id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      throw new ModelUnavailableError(
+        lastError instanceof Error ? lastError.message : String(lastError),
+        lastError
+      );
+    },
+  };
+}
+
+// ============================================================================
+// Workers AI
+// ============================================================================
+
+/**
+ * Chat input accepted by every model in the registry
+ */
+interface ChatModelInput {
+  messages: ChatMessage[];
+  max_tokens: number;
+  temperature: number;
+  seed?: number;
+  stream?: boolean;
+  response_format?: { type: "json_schema"; json_schema: unknown };
+}
+
+function createWorkersAIProvider(ai: Ai, gatewayId?: string): ModelProvider {
+  return {
+    name: "workers-ai",
+    async run(model, request, parameters) {
+      const inputs: ChatModelInput = {
+        messages: request.messages,
+        max_tokens: parameters.max_tokens,
+        temperature: parameters.temperature,
+        seed: parameters.seed,
+      };
+      if (request.jsonSchema) {
+        inputs.response_format = { type: "json_schema", json_schema: request.jsonSchema };
+      }
+
+      if (request.onToken) {
+        const stream = await ai.run(model.id as ModelId, { ...inputs, stream: true }, buildGatewayOptions(gatewayId));
+        return readTokenStream(stream as ReadableStream<Uint8Array>, request.onToken);
+      }
+
+      const response = await ai.run(model.id as ModelId, inputs, buildGatewayOptions(gatewayId));
+      return extractResponseText(response);
+    },
+  };
+}
+
+/**
+ * Builds Workers AI run options, routing through AI Gateway when configured
+ */
+function buildGatewayOptions(gatewayId?: string): AiOptions {
+  const options: AiOptions = {};
+  if (gatewayId) {
+    options.gateway = {
+      id: gatewayId,
+      cacheTtl: 3600, // Cache for 1 hour
+    };
+  }
+  return options;
+}
+
+/**
+ * Extracts the text payload from a Workers AI text-generation response
+ *
+ * JSON mode may return an already-parsed object in `response`; it is
+ * serialized back so every provider returns text.
+ */
+function extractResponseText(response: unknown): string {
+  const payload = typeof response === "object" && response !== null && "response" in response
+    ? (response as { response: unknown }).response
+    : response;
+  return typeof payload === "string" ? payload : JSON.stringify(payload);
+}
+
+/**
+ * Reads a Workers AI server-sent event stream to completion
+ *
+ * Each event is a `data: {"response":"..."}` line; the stream ends with
+ * `data: [DONE]`. `onToken` receives the accumulated text after every token.
+ */
+async function readTokenStream(
+  stream: ReadableStream<Uint8Array>,
+  onToken: (text: string) => void | Promise<void>
+): Promise<string> {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let text = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (!line.startsWith("data:")) continue;
+      const data = line.slice("data:".length).trim();
+      if (!data || data === "[DONE]") continue;
+
+      try {
+        const token = (JSON.parse(data) as { response?: unknown }).response;
+        if (typeof token === "string" && token) {
+          text += token;
+          await onToken(text);
+        }
+      } catch {
+        // Ignore keep-alive or malformed events; the validator checks the result
+      }
+    }
+  }
+
+  return text;
+}
+
+// ============================================================================
+// Stub
+// ============================================================================
+
+/** Seed for stub specs when the call has none */
+const STUB_SEED = 1;
+
+/**
+ * Answers without a model: specs come from the procedural generator, code
+ * from the built-in exemplar closest to the emotion that fits the budget
+ */
+function createStubProvider(): ModelProvider {
+  return {
+    name: "stub",
+    async run(_model, request, parameters) {
+      const { emotion, complexity } = request.subject;
+      const text = request.jsonSchema
+        ? JSON.stringify(generateProceduralScene(emotion, complexity, parameters.seed ?? STUB_SEED))
+        : pickStubExemplar(emotion, complexity);
+      await request.onToken?.(text);
+      return text;
+    },
+  };
+}
+
+function pickStubExemplar(emotion: string, complexity: number): string {
+  const { vad } = buildEmotionProfile(emotion);
+  const fitting = BUILTIN_EXEMPLARS.filter((exemplar) => exemplar.complexity <= complexity);
+  const candidates = fitting.length > 0
+    ? fitting
+    : [...BUILTIN_EXEMPLARS].sort((a, b) => a.complexity - b.complexity).slice(0, 1);
+
+  let best = candidates[0];
+  let bestDistance = Infinity;
+  for (const exemplar of candidates) {
+    const distance = vadDistance(buildEmotionProfile(exemplar.emotion).vad, vad);
+    if (distance < bestDistance) {
+      best = exemplar;
+      bestDistance = distance;
+    }
+  }
+  return best.code;
+}
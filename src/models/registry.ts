@@ -0,0 +1,85 @@
+/**
+ * Model Registry
+ *
+ * The Workers AI models generation may use, with their sampling settings.
+ * Only models listed here can be selected, either as the environment's
+ * fallback chain (AI_MODELS) or per call (`model` tool input).
+ *
+ * @module models/registry
+ */
+
+import type { Env } from "../types";
+
+export const MODEL_IDS = [
+  "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+  "@cf/meta/llama-4-scout-17b-16e-instruct",
+  "@cf/qwen/qwen2.5-coder-32b-instruct",
+] as const;
+export type ModelId = (typeof MODEL_IDS)[number];
+
+/**
+ * Per-model settings sent with every completion
+ */
+export interface ModelConfig {
+  id: string;
+  /** Output cap; a template's max_tokens is lowered to it */
+  max_tokens: number;
+  temperature: number;
+  /** Supports `response_format: json_schema` (required for specs) */
+  jsonMode: boolean;
+}
+
+export const MODEL_CONFIGS: Record<ModelId, ModelConfig> = {
+  "@cf/meta/llama-3.3-70b-instruct-fp8-fast": {
+    id: "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+    max_tokens: 4096,
+    temperature: 0.6,
+    jsonMode: true,
+  },
+  "@cf/meta/llama-4-scout-17b-16e-instruct": {
+    id: "@cf/meta/llama-4-scout-17b-16e-instruct",
+    max_tokens: 4096,
+    temperature: 0.5,
+    jsonMode: true,
+  },
+  "@cf/qwen/qwen2.5-coder-32b-instruct": {
+    id: "@cf/qwen/qwen2.5-coder-32b-instruct",
+    max_tokens: 4096,
+    temperature: 0.4,
+    jsonMode: false,
+  },
+};
+
+/** Chain used when AI_MODELS is unset or lists no allowed model */
+export const DEFAULT_MODEL_CHAIN: ModelId[] = [
+  "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+  "@cf/meta/llama-4-scout-17b-16e-instruct",
+];
+
+/** Settings reported by the stub provider */
+export const STUB_MODEL: ModelConfig = {
+  id: "stub",
+  max_tokens: 4096,
+  temperature: 0,
+  jsonMode: true,
+};
+
+export function isModelId(id: string | undefined): id is ModelId {
+  return (MODEL_IDS as readonly string[]).includes(id ?? "");
+}
+
+/**
+ * Models to try, in order: the per-call override alone, else the
+ * environment's AI_MODELS chain (comma-separated; ids outside the
+ * allowlist are ignored), else the default chain
+ */
+export function resolveModelChain(env: Env, override?: ModelId): ModelConfig[] {
+  if (override) return [MODEL_CONFIGS[override]];
+
+  const configured = (env.AI_MODELS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(isModelId);
+  const chain = configured.length > 0 ? [...new Set(configured)] : DEFAULT_MODEL_CHAIN;
+  return chain.map((id) => MODEL_CONFIGS[id]);
+}
@@ -0,0 +1,132 @@
+/**
+ * Prompt Sections
+ *
+ * Building blocks shared by every prompt template version: the emotion
+ * profile, style constraints, performance budget, audio reactivity,
+ * captions and post-processing guidance rendered as prompt text.
+ *
+ * @module prompts/sections
+ */
+
+import type { EmotionProfile } from "../emotion/visual-parameters";
+import type { StylePreset } from "../styles/presets";
+import type { PerformanceBudget } from "../generation/performance-budget";
+import type { SceneExemplar } from "../exemplars/library";
+import { COLOR_GRADE_NAMES } from "../shaders/post-processing";
+
+/**
+ * Describes an emotion profile as prompt constraints
+ */
+export function formatEmotionProfile(profile: EmotionProfile): string {
+  const { matched, vad, nearest, parameters, blend } = profile;
+  const understood = matched.length > 0 ? matched.join(", ") : "no known emotion words";
+  const mix = blend
+    ? `- Blend: ${blend.map((c) => `${Math.round(c.weight * 100)}% ${c.emotion}`).join(", ")}; express every component in these proportions (palette share, share of objects and motion)\n`
+    : "";
+
+  return `${mix}- Understood as: ${understood}; closest named emotions: ${nearest.map((n) => n.emotion).join(", ")}
+- Valence ${vad.valence} (unpleasant -1 to pleasant 1), arousal ${vad.arousal} (calm -1 to excited 1), dominance ${vad.dominance} (overwhelmed -1 to in control 1)
+- Palette: ${parameters.palette.join(", ")}; background ${parameters.background}
+- Motion speed: ${parameters.motionSpeed}x (1 = moderate); scale every animation speed by it
+- Geometry sharpness: ${parameters.geometrySharpness} (0 = soft, 1 = angular); prefer ${parameters.geometries.join(", ")}
+- Key light intensity: ${parameters.lightIntensity}; bloom strength: ${parameters.bloomStrength}
+
+Use these parameters: they encode the emotion's palette, pace, shape language and light.`;
+}
+
+/**
+ * Describes a complexity level's performance budget as prompt constraints
+ */
+export function formatPerformanceBudget(budget: PerformanceBudget): string {
+  return `- At most ${budget.maxDrawCalls} draw calls (meshes, points, lines)
+- At most ${budget.maxParticles} particles in total
+- At most ${budget.maxGeometrySegments} segments per geometry (e.g. sphere width × height segments)
+- At most ${budget.maxLights} lights
+- At most ${budget.maxPostPasses} post-processing pass(es) after the RenderPass`;
+}
+
+/**
+ * Describes a style preset as prompt constraints (empty without a style)
+ */
+export function formatStyle(style?: StylePreset): string {
+  if (!style) return "";
+
+  const palette = style.paletteHint
+    ? `\n- Favour these colors alongside the emotion palette: ${style.paletteHint.join(", ")}`
+    : "";
+
+  return `
+STYLE: ${style.title} - ${style.description}
+${style.promptConstraints.map((c) => `- ${c}`).join("\n")}${palette}
+Where the style conflicts with the requirements above, follow the style.
+`;
+}
+
+/**
+ * Renders retrieved exemplars as example scenes (empty without exemplars)
+ */
+export function formatExemplars(exemplars: SceneExemplar[] = []): string {
+  if (exemplars.length === 0) return "";
+
+  const examples = exemplars.map((exemplar, index) => {
+    const style = exemplar.style ? `, style ${exemplar.style}` : "";
+    return `--- Example ${index + 1}: "${exemplar.emotion}" (complexity ${exemplar.complexity}${style}) ---\n${exemplar.code}`;
+  });
+
+  return `
+EXAMPLE SCENES:
+Well-made scenes for nearby emotions. Match their structure and quality, but design a new scene for the requested emotion; do not copy them.
+${examples.join("\n\n")}
+`;
+}
+
+/**
+ * Asks for a scene driven by the widget's audio levels
+ */
+export function formatAudioReactivity(): string {
+  return `
+AUDIO REACTIVITY:
+The scene must react to sound through the audio global. Its levels are smoothed, range 0-1 and stay 0 while no audio plays:
+- audio.bass: scale pulses and the amplitude of large motions
+- audio.mid: emissive intensity and light intensity
+- audio.treble: fine detail such as particle size, opacity or shimmer
+- audio.level: overall loudness, e.g. bloom strength
+Read the levels every frame inside the animation loop and add them on top of the normal animation (base + level * amount), so the scene still moves in silence.
+`;
+}
+
+/**
+ * Asks for a scene that shows a caption
+ *
+ * Code scenes letter the caption themselves; spec scenes only leave room
+ * for it, since the server places it after generation.
+ */
+export function formatCaption(caption: string, format: "code" | "spec"): string {
+  const placement =
+    format === "code"
+      ? `Render it with createTextGeometry as one mesh in the lower third of the view, facing the camera (copy camera.quaternion every frame), in the palette color that reads best against the background, with a slow, subtle drift. Size it to fit comfortably within the view's width.`
+      : `A text object with the caption is added in the lower third of the view, facing the camera. Keep that area uncluttered and do not add the caption yourself.`;
+  return `
+CAPTION:
+The scene shows the caption ${JSON.stringify(caption)}. ${placement}
+`;
+}
+
+/**
+ * Points the model at the post-processing passes that suit each family of
+ * emotions, so scenes stop relying on bloom alone
+ */
+export function formatPostProcessingGuide(): string {
+  return `
+POST-PROCESSING:
+Give the emotion its own treatment instead of bloom alone. Pick the one or two passes that say the most, within the budget:
+- chaos, anxiety, anger: GlitchPass or chromatic aberration (ShaderPass with RGBShiftShader), "bleach" grade
+- melancholy, sadness, nostalgia: FilmPass grain, a vignette (ShaderPass with VignetteShader), "cool" grade
+- grief, dread: "noir" grade and a dark vignette
+- energy, excitement: AfterimagePass trails, "teal-orange" grade
+- wonder, intimacy, introspection: BokehPass depth of field focused on the centrepiece
+- joy, warmth: "warm" grade; serenity, longing: "dream" grade
+Colour grades (${COLOR_GRADE_NAMES.join(", ")}) are applied with new LUTPass({ lut: createColorGradeLUT(name) }).
+Add passes after the RenderPass (bloom first) and render with composer.render().
+`;
+}
@@ -0,0 +1,346 @@
+/**
+ * Prompt Template Registry
+ *
+ * Every prompt the model sees comes from a versioned template, so a scene
+ * can be traced back to the exact prompt that produced it and prompt
+ * changes can be compared side by side. Templates are immutable once
+ * released: change a prompt by adding a new version.
+ *
+ * The version is chosen per request (`promptVersion`), then per environment
+ * (PROMPT_VERSION), then defaults to the latest.
+ *
+ * Versions:
+ * - v1: emotion profile, style and sandbox requirements
+ * - v2: v1 plus the complexity's performance budget
+ * - v3: v2 plus few-shot exemplars retrieved by emotion and style (code format)
+ * - v4: v3 plus the onResize hook for scenes that must react to canvas resizes
+ * - v5: v4 plus the audio global; audio-reactive requests bind motion and
+ *   emissive intensity to its levels (code format)
+ * - v6: v5 plus 3D typography: the createTextGeometry global, spec text
+ *   objects and captions
+ * - v7: v6 plus the post-processing toolkit and which passes suit which
+ *   emotions (code format)
+ * - v8: v7 plus the setLoopPeriod hook, so the widget can record seamless
+ *   loops (code format)
+ *
+ * @module prompts/templates
+ */
+
+import type { Env } from "../types";
+import type { EmotionProfile } from "../emotion/visual-parameters";
+import type { StylePreset } from "../styles/presets";
+import type { SceneExemplar } from "../exemplars/library";
+import { GLSL_CHUNK_NAMES } from "../shaders/glsl-chunks";
+import { TEXT_FONTS } from "../schemas/scene-spec";
+import { getPerformanceBudget } from "../generation/performance-budget";
+import {
+  formatAudioReactivity,
+  formatCaption,
+  formatEmotionProfile,
+  formatExemplars,
+  formatPerformanceBudget,
+  formatPostProcessingGuide,
+  formatStyle,
+} from "./sections";
+
+export const PROMPT_VERSIONS = ["v1", "v2", "v3", "v4", "v5", "v6", "v7", "v8"] as const;
+export type PromptVersion = (typeof PROMPT_VERSIONS)[number];
+
+/** Template used when neither the request nor the environment picks one */
+export const DEFAULT_PROMPT_VERSION: PromptVersion = "v8";
+
+/**
+ * What a template needs to render a prompt
+ */
+export interface PromptContext {
+  emotion: string;
+  complexity: number;
+  profile: EmotionProfile;
+  style?: StylePreset;
+  /** Few-shot examples, rendered by templates with `exemplars` */
+  exemplars?: SceneExemplar[];
+  /** Bind the scene to the audio levels; honoured by templates with audio (v5+) */
+  audioReactive?: boolean;
+  /** Text the scene shows; honoured by templates with text (v6+) */
+  caption?: string;
+}
+
+export interface RepairPromptContext extends PromptContext {
+  /** The code that failed */
+  code: string;
+  /** Bullet list of validator diagnostics and runtime errors */
+  problems: string;
+}
+
+/**
+ * Sampling parameters sent with every completion of a template
+ */
+export interface PromptParameters {
+  /** Large enough that full scenes are not truncated */
+  max_tokens: number;
+}
+
+export interface PromptTemplate {
+  version: PromptVersion;
+  description: string;
+  parameters: PromptParameters;
+  /** Code generation retrieves exemplars for the prompt */
+  exemplars: boolean;
+  codeSystem: (ctx: PromptContext) => string;
+  codeUser: (ctx: PromptContext) => string;
+  codeRepairUser: (ctx: RepairPromptContext) => string;
+  specSystem: (ctx: PromptContext) => string;
+  specUser: (ctx: PromptContext) => string;
+}
+
+// ============================================================================
+// Template Parts
+// ============================================================================
+
+interface TemplateFeatures {
+  /** Include the complexity's performance budget (v2+) */
+  budget: boolean;
+  /** Include retrieved exemplars in code prompts (v3+) */
+  exemplars: boolean;
+  /** List the onResize global (v4+) */
+  resize: boolean;
+  /** List the audio global and honour audio-reactive requests (v5+) */
+  audio: boolean;
+  /** List createTextGeometry and text objects, and honour captions (v6+) */
+  text: boolean;
+  /** List the post-processing toolkit and when to use each pass (v7+) */
+  postProcessing: boolean;
+  /** List the setLoopPeriod global (v8+) */
+  loop: boolean;
+}
+
+function codeSystem({ budget, exemplars: withExemplars, resize, audio, text, postProcessing, loop }: TemplateFeatures) {
+  return ({ complexity, profile, style, exemplars, audioReactive, caption }: PromptContext): string => {
+    const budgetRequirement = budget ? "\n11. Stay within the performance budget below; over-budget code is rejected" : "";
+    const budgetSection = budget
+      ? `\nPERFORMANCE BUDGET:\n${formatPerformanceBudget(getPerformanceBudget(complexity))}\n`
+      : "";
+    const resizeGlobal = resize
+      ? "\n- onResize(callback) (callback(width, height) runs when the canvas resizes; renderers, PerspectiveCameras and EffectComposers are resized automatically, so only size-dependent values such as shader resolution uniforms need it)"
+      : "";
+    const audioGlobal = audio
+      ? "\n- audio (smoothed sound levels audio.bass, audio.mid, audio.treble and audio.level, 0-1; 0 while no audio plays)"
+      : "";
+    const postProcessingGlobals = postProcessing
+      ? "\n- FilmPass, GlitchPass, AfterimagePass, BokehPass, LUTPass, ShaderPass, RGBShiftShader, VignetteShader (more post-processing passes)\n- createColorGradeLUT(name) (lookup table of a built-in colour grade for LUTPass)"
+      : "";
+    const loopGlobal = loop
+      ? "\n- setLoopPeriod(seconds) (declare that the animation repeats exactly every `seconds`, e.g. when all motion follows sin(time * 2 * Math.PI / seconds); the widget records seamless video loops from it)"
+      : "";
+    const textGlobal = text
+      ? `\n- createTextGeometry(text, { font, size, depth, bevel }) (centred TextGeometry from the bundled fonts: ${TEXT_FONTS.join(", ")}; no font can be loaded otherwise)`
+      : "";
+
+    return `You are an expert Three.js developer creating abstract art installations.
+Your code will be executed in a sandboxed environment with these globals:
+- THREE (Three.js library r181)
+- canvas (pre-created canvas element)
+- width, height (canvas dimensions)
+- OrbitControls (for camera controls)
+- EffectComposer, RenderPass, UnrealBloomPass (for post-processing)${postProcessingGlobals}
+- random() (seeded PRNG; Math.random is replaced by it, so the same seed recreates the same scene)
+- GLSL (shader chunk strings: ${GLSL_CHUNK_NAMES.map((n) => `GLSL.${n}`).join(", ")}; fbm needs noise first)${resizeGlobal}${audioGlobal}${textGlobal}${loopGlobal}
+
+REQUIREMENTS:
+1. Create a complete, self-contained scene
+2. Always include OrbitControls for user exploration
+3. Use requestAnimationFrame for animations
+4. Set renderer.setClearColor() to a dark color
+5. Keep light intensity <= 1
+6. Use MeshStandardMaterial for most objects; for gradients or flowing noise use THREE.ShaderMaterial with \${GLSL.noise}-style chunks interpolated before void main(), and write gl_FragColor
+7. The complexity parameter ${complexity}/10 means include roughly ${Math.floor(5 + complexity * 2)} objects
+8. Create exactly one THREE.WebGLRenderer with { canvas } so it draws on the provided canvas
+9. Never use fetch, document, window, parent, postMessage, localStorage, eval, Function or import()
+10. Use random()/Math.random() for all randomness; never derive randomness from Date.now() or performance.now()${budgetRequirement}
+${budgetSection}
+EMOTION PROFILE:
+${formatEmotionProfile(profile)}
+${formatStyle(style)}${audio && audioReactive ? formatAudioReactivity() : ""}${text && caption ? formatCaption(caption, "code") : ""}${postProcessing ? formatPostProcessingGuide() : ""}${withExemplars ? formatExemplars(exemplars) : ""}
+Return ONLY executable JavaScript code. No markdown, no explanations, no code blocks.`;
+  };
+}
+
+function codeUser({ emotion, complexity }: PromptContext): string {
+  return `Generate Three.js code for the emotion: "${emotion}" with complexity ${complexity}/10.
+
+The scene should visually represent the feeling of "${emotion}" using abstract 3D shapes, appropriate colors, lighting, and animations.
+
+Remember:
+- Include OrbitControls for camera manipulation
+- Use appropriate colors and shapes for the emotion
+- Add smooth animations that reinforce the mood
+- Keep code clean and efficient`;
+}
+
+function codeRepairUser({ emotion, code, problems }: RepairPromptContext): string {
+  return `The following Three.js code for the emotion "${emotion}" does not work.
+
+PROBLEMS:
+${problems || "- unknown failure"}
+
+CODE:
+${code}
+
+Fix every problem while keeping the visual intent of the scene.
+Return the COMPLETE corrected code, not a diff.`;
+}
+
+function specSystem({ budget, text }: Pick<TemplateFeatures, "budget" | "text">) {
+  return ({ complexity, profile, style, caption }: PromptContext): string => {
+    const budgetRequirement = budget
+      ? "\n4. Stay within the performance budget below (each mesh instance and each particle group is one draw call); larger scenes are scaled down"
+      : "";
+    const budgetSection = budget
+      ? `\nPERFORMANCE BUDGET:\n${formatPerformanceBudget(getPerformanceBudget(complexity))}\n`
+      : "";
+    const textObjects = text
+      ? `\n  or kind "text" (text + font: ${TEXT_FONTS.join(", ")} + size + depth + material + behaviours; faceCamera keeps it turned to the viewer)`
+      : "";
+
+    return `You are an expert generative artist designing abstract 3D art installations.
+You describe scenes as JSON documents ("MoodSceneSpec") that a renderer turns into Three.js scenes.
+
+SPEC FORMAT:
+- version: always 1
+- background: dark hex color (use the emotion profile's background)
+- camera: fov, position, target, optional autoRotate
+- lights: 1-8 lights (ambient, directional, point, spot, hemisphere), intensity <= 1
+- objects: groups of kind "mesh" (geometry + material + count + layout + behaviours)
+  or kind "particles" (count + size + color + layout + behaviours)${textObjects}
+- fog: optional linear or exp2 fog
+- postProcessing.bloom: optional glow for emissive materials
+
+Behaviours animate every instance of a group: float, rotate, pulse, orbit, jitter, fall.
+Layouts distribute instances: random, ring, grid, sphere, spiral, line.
+
+REQUIREMENTS:
+1. The complexity parameter ${complexity}/10 means roughly ${Math.floor(5 + complexity * 2)} mesh instances in total
+2. Every object group should have at least one behaviour so the scene feels alive
+3. Colors must be 6-digit hex strings${budgetRequirement}
+${budgetSection}
+EMOTION PROFILE:
+${formatEmotionProfile(profile)}
+${formatStyle(style)}${text && caption ? formatCaption(caption, "spec") : ""}
+Return ONLY the JSON document. No markdown, no explanations.`;
+  };
+}
+
+function specUser({ emotion, complexity }: PromptContext): string {
+  return `Design a MoodSceneSpec for the emotion: "${emotion}" with complexity ${complexity}/10.
+
+The scene should visually represent the feeling of "${emotion}" through its palette, shapes, layout, lighting and motion.`;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export const PROMPT_TEMPLATES: Record<PromptVersion, PromptTemplate> = {
+  v1: {
+    version: "v1",
+    description: "Emotion profile, style and sandbox requirements",
+    parameters: { max_tokens: 4096 },
+    exemplars: false,
+    codeSystem: codeSystem({ budget: false, exemplars: false, resize: false, audio: false, text: false, postProcessing: false, loop: false }),
+    codeUser,
+    codeRepairUser,
+    specSystem: specSystem({ budget: false, text: false }),
+    specUser,
+  },
+  v2: {
+    version: "v2",
+    description: "v1 plus the complexity's performance budget",
+    parameters: { max_tokens: 4096 },
+    exemplars: false,
+    codeSystem: codeSystem({ budget: true, exemplars: false, resize: false, audio: false, text: false, postProcessing: false, loop: false }),
+    codeUser,
+    codeRepairUser,
+    specSystem: specSystem({ budget: true, text: false }),
+    specUser,
+  },
+  v3: {
+    version: "v3",
+    description: "v2 plus few-shot exemplars retrieved by emotion and style",
+    parameters: { max_tokens: 4096 },
+    exemplars: true,
+    codeSystem: codeSystem({ budget: true, exemplars: true, resize: false, audio: false, text: false, postProcessing: false, loop: false }),
+    codeUser,
+    codeRepairUser,
+    specSystem: specSystem({ budget: true, text: false }),
+    specUser,
+  },
+  v4: {
+    version: "v4",
+    description: "v3 plus the onResize hook",
+    parameters: { max_tokens: 4096 },
+    exemplars: true,
+    codeSystem: codeSystem({ budget: true, exemplars: true, resize: true, audio: false, text: false, postProcessing: false, loop: false }),
+    codeUser,
+    codeRepairUser,
+    specSystem: specSystem({ budget: true, text: false }),
+    specUser,
+  },
+  v5: {
+    version: "v5",
+    description: "v4 plus the audio global for audio-reactive scenes",
+    parameters: { max_tokens: 4096 },
+    exemplars: true,
+    codeSystem: codeSystem({ budget: true, exemplars: true, resize: true, audio: true, text: false, postProcessing: false, loop: false }),
+    codeUser,
+    codeRepairUser,
+    specSystem: specSystem({ budget: true, text: false }),
+    specUser,
+  },
+  v6: {
+    version: "v6",
+    description: "v5 plus 3D typography and captions",
+    parameters: { max_tokens: 4096 },
+    exemplars: true,
+    codeSystem: codeSystem({ budget: true, exemplars: true, resize: true, audio: true, text: true, postProcessing: false, loop: false }),
+    codeUser,
+    codeRepairUser,
+    specSystem: specSystem({ budget: true, text: true }),
+    specUser,
+  },
+  v7: {
+    version: "v7",
+    description: "v6 plus the post-processing toolkit",
+    parameters: { max_tokens: 4096 },
+    exemplars: true,
+    codeSystem: codeSystem({ budget: true, exemplars: true, resize: true, audio: true, text: true, postProcessing: true, loop: false }),
+    codeUser,
+    codeRepairUser,
+    specSystem: specSystem({ budget: true, text: true }),
+    specUser,
+  },
+  v8: {
+    version: "v8",
+    description: "v7 plus the setLoopPeriod hook for seamless recordings",
+    parameters: { max_tokens: 4096 },
+    exemplars: true,
+    codeSystem: codeSystem({ budget: true, exemplars: true, resize: true, audio: true, text: true, postProcessing: true, loop: true }),
+    codeUser,
+    codeRepairUser,
+    specSystem: specSystem({ budget: true, text: true }),
+    specUser,
+  },
+};
+
+function isPromptVersion(version: string | undefined): version is PromptVersion {
+  return (PROMPT_VERSIONS as readonly string[]).includes(version ?? "");
+}
+
+/**
+ * Picks the template for a request: the requested version, else the
+ * environment's PROMPT_VERSION, else the latest. Unknown environment values
+ * fall back to the latest.
+ */
+export function resolvePromptTemplate(env: Env, requested?: PromptVersion): PromptTemplate {
+  if (requested) return PROMPT_TEMPLATES[requested];
+  return PROMPT_TEMPLATES[isPromptVersion(env.PROMPT_VERSION) ? env.PROMPT_VERSION : DEFAULT_PROMPT_VERSION];
+}
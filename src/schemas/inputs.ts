@@ -1,5 +1,5 @@
 /**
- * Input Schemas for {{SERVER_NAME}} MCP Tools
+ * Input Schemas for 3D Abstract Moodboard MCP Tools
  *
  * Zod validation schemas for tool input parameters.
  * Use Zod 4 syntax with plain objects (ZodRawShapeCompat pattern).
@@ -7,49 +7,288 @@
  * IMPORTANT: Define schemas as plain objects with Zod fields, NOT z.object()!
  * The MCP SDK expects ZodRawShapeCompat format for inputSchema.
  *
+ * Shared by server.ts (OAuth path) and api-key-handler.ts (API key path)
+ * so both registrations stay in sync.
+ *
  * @module schemas/inputs
  */
 
 import * as z from "zod/v4";
+import { MAX_TEXT_LENGTH, SCENE_FORMATS } from "./scene-spec";
+import { GENERATION_MODES } from "../generation/procedural";
+import { STYLE_NAMES } from "../styles/presets";
+import { PROMPT_VERSIONS } from "../prompts/templates";
+import { MODEL_IDS } from "../models/registry";
+import {
+  MAX_JOURNEY_STAGES,
+  MAX_STAGE_SECONDS,
+  MIN_JOURNEY_STAGES,
+  MIN_STAGE_SECONDS,
+} from "../generation/journey";
 
 /**
- * Input schema for example_tool
+ * Input schema for generate_mood_scene
  *
  * Pattern: Plain object with Zod fields (ZodRawShapeCompat)
- * This is the CORRECT pattern for MCP SDK inputSchema.
- *
- * TODO: Replace with your tool's input parameters
+ * Type definition lives in types.ts (GenerateMoodSceneInput).
  */
-export const ExampleToolInput = {
-  query: z.string()
+export const GenerateMoodSceneInputSchema = {
+  emotion: z
+    .string()
+    .min(1)
+    .meta({
+      description:
+        "The feeling or concept to visualize (e.g., peace, chaos, energy, curiosity)",
+    }),
+  complexity: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .optional()
+    .meta({
+      description:
+        "Scale from 1-10 of how many objects to generate (default: 5)",
+    }),
+  height: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .meta({
+      description: "Height in pixels for the 3D canvas (default: 600)",
+    }),
+  width: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .meta({
+      description: "Width in pixels for the 3D canvas, at most the widget's width (default: fill the widget)",
+    }),
+  aspect: z
+    .number()
+    .min(0.25)
+    .max(4)
+    .optional()
+    .meta({
+      description:
+        "Width / height ratio of the 3D canvas, e.g. 1.78 for 16:9; the height follows the widget's width and overrides height",
+    }),
+  format: z
+    .enum(SCENE_FORMATS)
+    .optional()
+    .meta({
+      description:
+        "Output format: 'spec' for a validated declarative MoodSceneSpec (default) or 'code' for legacy raw Three.js JavaScript",
+    }),
+  blend: z
+    .array(
+      z.object({
+        emotion: z.string().min(1).meta({ description: "Component emotion, e.g. calm" }),
+        weight: z.number().positive().meta({ description: "Relative weight, e.g. 70 or 0.7" }),
+      })
+    )
+    .min(2)
+    .max(4)
+    .optional()
+    .meta({
+      description:
+        "Weighted mix of emotions, e.g. [{emotion: 'calm', weight: 70}, {emotion: 'anxiety', weight: 30}]. Palette, motion, shapes and light are interpolated by weight; `emotion` remains the scene's label",
+    }),
+  style: z
+    .enum(STYLE_NAMES)
+    .optional()
+    .meta({
+      description:
+        "Style preset layered on top of the emotion: low-poly, vaporwave, brutalist, glass, wireframe or ink (see learn_mood_primitives category 'styles')",
+    }),
+  mode: z
+    .enum(GENERATION_MODES)
+    .optional()
+    .meta({
+      description:
+        "Generation mode: 'ai' uses the model (default, falls back to procedural if it fails, or for code if no model is available) or 'procedural' builds a deterministic scene from the emotional mappings without AI (always returns a spec)",
+    }),
+  seed: z
+    .number()
+    .int()
     .min(1)
-    .meta({ description: "The search query or input value" }),
-  format: z.enum(["concise", "detailed"])
+    .max(4294967295)
     .optional()
-    .meta({ description: "Response format: concise (default) or detailed" }),
+    .meta({
+      description:
+        "Seed for reproducible scenes. Reusing the seed returned by a previous call recreates that scene (default: random)",
+    }),
+  fresh: z
+    .boolean()
+    .optional()
+    .meta({
+      description:
+        "Skip the generation cache and always generate a new scene. Identical requests are otherwise served the cached scene (default: false)",
+    }),
+  promptVersion: z
+    .enum(PROMPT_VERSIONS)
+    .optional()
+    .meta({
+      description:
+        "Prompt template version for AI generation, e.g. to compare prompt versions or pin one (default: the server's configured version, else the latest)",
+    }),
+  model: z
+    .enum(MODEL_IDS)
+    .optional()
+    .meta({
+      description:
+        "Model for AI generation, from the allowlist; pins the model instead of the server's fallback chain (default: the chain)",
+    }),
+  audioReactive: z
+    .boolean()
+    .optional()
+    .meta({
+      description:
+        "Make the scene react to sound: the widget offers an ambient track or the microphone, and motion and glow follow its bass/mid/treble levels (default: false)",
+    }),
+  caption: z
+    .string()
+    .min(1)
+    .max(MAX_TEXT_LENGTH)
+    .optional()
+    .meta({
+      description:
+        "Short text placed in the scene as 3D lettering, e.g. a brand or campaign line; specs frame it in the lower third facing the viewer",
+    }),
 };
 
 /**
- * Type definition (manual since it's a plain object, not z.object())
+ * Input schema for generate_mood_journey
  *
- * NOTE: With plain object pattern, use interface instead of z.infer<>
+ * Scene options share generate_mood_scene's fields.
+ * Type definition lives in types.ts (GenerateMoodJourneyInput).
  */
-export interface ExampleToolParams {
-  query: string;
-  format?: "concise" | "detailed";
-}
+export const GenerateMoodJourneyInputSchema = {
+  stages: z
+    .array(
+      z.object({
+        emotion: z.string().min(1).meta({ description: "Emotion of this stage, e.g. anxiety" }),
+        duration: z
+          .number()
+          .min(MIN_STAGE_SECONDS)
+          .max(MAX_STAGE_SECONDS)
+          .meta({ description: `Seconds the stage lasts (${MIN_STAGE_SECONDS}-${MAX_STAGE_SECONDS})` }),
+      })
+    )
+    .min(MIN_JOURNEY_STAGES)
+    .max(MAX_JOURNEY_STAGES)
+    .meta({
+      description:
+        "Ordered emotions the scene moves through, e.g. [{emotion: 'anxiety', duration: 8}, {emotion: 'calm', duration: 12}]",
+    }),
+  loop: z
+    .boolean()
+    .optional()
+    .meta({
+      description: "Morph the last stage back into the first and repeat (default: false, the last stage holds)",
+    }),
+  complexity: GenerateMoodSceneInputSchema.complexity,
+  height: GenerateMoodSceneInputSchema.height,
+  width: GenerateMoodSceneInputSchema.width,
+  aspect: GenerateMoodSceneInputSchema.aspect,
+  style: GenerateMoodSceneInputSchema.style,
+  mode: GenerateMoodSceneInputSchema.mode,
+  seed: GenerateMoodSceneInputSchema.seed,
+  fresh: GenerateMoodSceneInputSchema.fresh,
+  promptVersion: GenerateMoodSceneInputSchema.promptVersion,
+  model: GenerateMoodSceneInputSchema.model,
+  audioReactive: GenerateMoodSceneInputSchema.audioReactive,
+  caption: GenerateMoodSceneInputSchema.caption,
+};
+
+/**
+ * Input schema for repair_mood_scene
+ *
+ * Sent by the widget's "Fix it" action when generated code throws at runtime.
+ */
+export const RepairMoodSceneInputSchema = {
+  code: z
+    .string()
+    .min(1)
+    .meta({ description: "The Three.js code that failed" }),
+  error: z
+    .string()
+    .min(1)
+    .meta({ description: "Error message thrown while executing the code" }),
+  stack: z
+    .string()
+    .optional()
+    .meta({ description: "Stack trace of the error, if available" }),
+  emotion: z
+    .string()
+    .optional()
+    .meta({ description: "The emotion the scene was meant to express" }),
+  complexity: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .optional()
+    .meta({ description: "Complexity level the scene was generated for (default: 5)" }),
+  height: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .meta({ description: "Height in pixels for the 3D canvas (default: 600)" }),
+  width: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .meta({ description: "Width in pixels of the failing scene's canvas" }),
+  aspect: z
+    .number()
+    .min(0.25)
+    .max(4)
+    .optional()
+    .meta({ description: "Width / height ratio of the failing scene's canvas" }),
+  seed: z
+    .number()
+    .int()
+    .min(1)
+    .max(4294967295)
+    .optional()
+    .meta({ description: "Seed of the failing scene, kept so the repaired scene looks the same" }),
+  promptVersion: z
+    .enum(PROMPT_VERSIONS)
+    .optional()
+    .meta({ description: "Prompt template version of the failing scene (its provenance.promptVersion)" }),
+  model: z
+    .enum(MODEL_IDS)
+    .optional()
+    .meta({ description: "Model for the repair, from the allowlist (default: the server's fallback chain)" }),
+  audioReactive: z
+    .boolean()
+    .optional()
+    .meta({ description: "Whether the failing scene was audio-reactive" }),
+};
+
+/**
+ * Input schema for learn_mood_primitives
+ */
+export const LearnMoodPrimitivesInputSchema = {
+  category: z
+    .enum(["geometries", "materials", "lighting", "animation", "styles", "shaders", "audio", "typography", "postprocessing", "all"])
+    .optional()
+    .meta({
+      description:
+        "Category of documentation to retrieve (default: all)",
+    }),
+};
 
-// TODO: Add more input schemas for your tools
-//
 // CORRECT Pattern:
 // export const MyToolInput = {
 //   field: z.string().meta({ description: "..." }),
 //   optional_field: z.number().optional().meta({ description: "..." }),
 // };
-// export interface MyToolParams {
-//   field: string;
-//   optional_field?: number;
-// }
 //
 // WRONG Pattern (don't use z.object):
 // export const WrongInput = z.object({ ... }).shape;  // ❌ Broken in Zod 4
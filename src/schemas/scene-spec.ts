@@ -0,0 +1,242 @@
+/**
+ * MoodSceneSpec Schema for 3D Abstract Moodboard
+ *
+ * Declarative, JSON-serializable description of a mood scene. Instead of
+ * emitting raw JavaScript, the model emits a spec that is validated here and
+ * interpreted by the widget into a Three.js scene. Specs can be validated,
+ * diffed, stored and re-rendered without executing generated code.
+ *
+ * @module schemas/scene-spec
+ */
+
+import * as z from "zod/v4";
+
+/**
+ * Current spec version. Bump when the shape changes incompatibly.
+ */
+export const SCENE_SPEC_VERSION = 1;
+
+const HexColor = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/)
+  .meta({ description: "Hex color string, e.g. #7ec8e3" });
+
+const Vec3 = z
+  .tuple([z.number(), z.number(), z.number()])
+  .meta({ description: "[x, y, z] vector" });
+
+export const GEOMETRY_TYPES = [
+  "sphere",
+  "box",
+  "icosahedron",
+  "octahedron",
+  "dodecahedron",
+  "tetrahedron",
+  "torus",
+  "torusKnot",
+  "cone",
+  "cylinder",
+  "ring",
+  "plane",
+] as const;
+
+export const BEHAVIOUR_TYPES = [
+  "float",
+  "rotate",
+  "pulse",
+  "orbit",
+  "jitter",
+  "fall",
+] as const;
+
+export const LAYOUT_TYPES = ["random", "ring", "grid", "sphere", "spiral", "line"] as const;
+
+/**
+ * Typefaces bundled with the widget; scenes cannot load other fonts
+ */
+export const TEXT_FONTS = ["helvetiker", "helvetiker-bold", "optimer"] as const;
+export type TextFont = (typeof TEXT_FONTS)[number];
+
+/** Longest text a text object (or a caption) may hold */
+export const MAX_TEXT_LENGTH = 60;
+
+const GeometrySchema = z.object({
+  type: z.enum(GEOMETRY_TYPES),
+  size: z.number().positive().max(10).default(1).meta({
+    description: "Base radius/edge length in world units",
+  }),
+  detail: z.number().int().min(0).max(64).default(16).meta({
+    description: "Segment count (round shapes) or subdivision level (polyhedra, clamped to 5)",
+  }),
+});
+
+const MaterialSchema = z.object({
+  type: z.enum(["standard", "physical", "basic", "normal"]).default("standard"),
+  color: HexColor,
+  emissive: HexColor.optional(),
+  emissiveIntensity: z.number().min(0).max(5).default(0),
+  roughness: z.number().min(0).max(1).default(0.5),
+  metalness: z.number().min(0).max(1).default(0.1),
+  opacity: z.number().min(0).max(1).default(1),
+  wireframe: z.boolean().default(false),
+  flatShading: z.boolean().default(false),
+});
+
+const BehaviourSchema = z.object({
+  type: z.enum(BEHAVIOUR_TYPES),
+  speed: z.number().min(0).max(10).default(1),
+  amplitude: z.number().min(0).max(10).default(0.5),
+  axis: z.enum(["x", "y", "z"]).default("y"),
+});
+
+const MeshGroupSchema = z.object({
+  kind: z.literal("mesh"),
+  id: z.string().max(40).optional(),
+  geometry: GeometrySchema,
+  material: MaterialSchema,
+  count: z.number().int().min(1).max(200).default(1),
+  layout: z.enum(LAYOUT_TYPES).default("random"),
+  spread: z.number().min(0).max(50).default(4),
+  position: Vec3.default([0, 0, 0]),
+  rotation: Vec3.default([0, 0, 0]),
+  scale: z.number().positive().max(10).default(1),
+  scaleVariance: z.number().min(0).max(1).default(0).meta({
+    description: "Random per-instance scale variation (0 = uniform)",
+  }),
+  colorVariants: z.array(HexColor).max(8).optional().meta({
+    description: "Alternative colors cycled across instances",
+  }),
+  behaviours: z.array(BehaviourSchema).max(4).default([]),
+});
+
+const ParticleGroupSchema = z.object({
+  kind: z.literal("particles"),
+  id: z.string().max(40).optional(),
+  count: z.number().int().min(1).max(20000).default(500),
+  size: z.number().positive().max(2).default(0.05),
+  color: HexColor,
+  opacity: z.number().min(0).max(1).default(0.8),
+  layout: z.enum(LAYOUT_TYPES).default("random"),
+  spread: z.number().min(0).max(50).default(10),
+  position: Vec3.default([0, 0, 0]),
+  behaviours: z.array(BehaviourSchema).max(4).default([]),
+});
+
+const TextSchema = z.object({
+  kind: z.literal("text"),
+  id: z.string().max(40).optional(),
+  text: z.string().min(1).max(MAX_TEXT_LENGTH),
+  font: z.enum(TEXT_FONTS).default("helvetiker").meta({
+    description: "helvetiker (clean sans), helvetiker-bold (heavy sans) or optimer (elegant, flared)",
+  }),
+  size: z.number().positive().max(5).default(0.5).meta({
+    description: "Letter height in world units",
+  }),
+  depth: z.number().min(0).max(2).default(0.1).meta({
+    description: "Extrusion depth (0 = flat lettering)",
+  }),
+  material: MaterialSchema,
+  position: Vec3.default([0, 0, 0]),
+  rotation: Vec3.default([0, 0, 0]),
+  faceCamera: z.boolean().default(false).meta({
+    description: "Keep the text turned towards the viewer (overrides rotation)",
+  }),
+  behaviours: z.array(BehaviourSchema).max(4).default([]),
+});
+
+const SceneObjectSchema = z.discriminatedUnion("kind", [
+  MeshGroupSchema,
+  ParticleGroupSchema,
+  TextSchema,
+]);
+
+const LightSchema = z.object({
+  type: z.enum(["ambient", "directional", "point", "spot", "hemisphere"]),
+  color: HexColor.default("#ffffff"),
+  groundColor: HexColor.optional().meta({ description: "Hemisphere lights only" }),
+  intensity: z.number().min(0).max(1).default(0.6),
+  position: Vec3.optional(),
+});
+
+const FogSchema = z.object({
+  type: z.enum(["linear", "exp2"]).default("exp2"),
+  color: HexColor,
+  near: z.number().min(0).default(1),
+  far: z.number().positive().default(30),
+  density: z.number().min(0).max(1).default(0.05),
+});
+
+const CameraSchema = z.object({
+  fov: z.number().min(20).max(120).default(75),
+  position: Vec3.default([0, 0, 6]),
+  target: Vec3.default([0, 0, 0]),
+  autoRotate: z.boolean().default(false),
+  autoRotateSpeed: z.number().min(0).max(10).default(0.5),
+});
+
+const PostProcessingSchema = z.object({
+  bloom: z
+    .object({
+      strength: z.number().min(0).max(3).default(0.5),
+      radius: z.number().min(0).max(1).default(0.4),
+      threshold: z.number().min(0).max(1).default(0.85),
+    })
+    .optional(),
+});
+
+/**
+ * Complete scene spec emitted by the model and consumed by the widget
+ */
+export const MoodSceneSpecSchema = z.object({
+  version: z.literal(SCENE_SPEC_VERSION),
+  title: z.string().max(80).optional(),
+  background: HexColor.default("#1a1a2e"),
+  camera: CameraSchema.default({
+    fov: 75,
+    position: [0, 0, 6],
+    target: [0, 0, 0],
+    autoRotate: false,
+    autoRotateSpeed: 0.5,
+  }),
+  fog: FogSchema.optional(),
+  lights: z.array(LightSchema).min(1).max(8),
+  objects: z.array(SceneObjectSchema).min(1).max(24),
+  postProcessing: PostProcessingSchema.optional(),
+});
+
+export type MoodSceneSpec = z.infer<typeof MoodSceneSpecSchema>;
+export type SceneObject = MoodSceneSpec["objects"][number];
+export type SceneMeshGroup = Extract<SceneObject, { kind: "mesh" }>;
+export type SceneParticleGroup = Extract<SceneObject, { kind: "particles" }>;
+export type SceneText = Extract<SceneObject, { kind: "text" }>;
+export type SceneLight = MoodSceneSpec["lights"][number];
+export type SceneBehaviour = SceneMeshGroup["behaviours"][number];
+
+/**
+ * Output format of generate_mood_scene.
+ *
+ * "spec" is the default declarative path; "code" keeps the legacy
+ * raw-JavaScript generation available behind an explicit opt-in.
+ */
+export const SCENE_FORMATS = ["spec", "code"] as const;
+export type SceneFormat = (typeof SCENE_FORMATS)[number];
+
+/**
+ * JSON Schema for the spec, used to constrain the model's JSON output
+ */
+export const MOOD_SCENE_SPEC_JSON_SCHEMA = z.toJSONSchema(MoodSceneSpecSchema, {
+  io: "input",
+});
+
+/**
+ * Validates an unknown value against the spec schema.
+ *
+ * @throws Error with a readable list of issues when the value is invalid
+ */
+export function parseMoodSceneSpec(value: unknown): MoodSceneSpec {
+  const result = MoodSceneSpecSchema.safeParse(value);
+  if (!result.success) {
+    throw new Error(`Invalid scene spec:\n${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
@@ -11,32 +11,57 @@ export const SERVER_INSTRUCTIONS = `
 ## Available Tools
 
 ### generate_mood_scene
-Generates dynamic Three.js code for abstract 3D art installations based on an emotion or concept.
-- Input: emotion (required), complexity (1-10, optional), height (pixels, optional)
-- Output: Three.js JavaScript code executed in the widget
+Generates abstract 3D art installations based on an emotion or concept.
+- Input: emotion (required), complexity (1-10, optional), height (pixels, optional), width (pixels, optional), aspect (width / height ratio, optional), format ("spec" or "code", optional), blend (weighted emotions, optional), style (preset, optional), mode ("ai" or "procedural", optional), seed (optional), fresh (optional), promptVersion (optional), model (optional), audioReactive (optional), caption (optional)
+- Output: A validated MoodSceneSpec (declarative JSON scene) by default, or raw Three.js JavaScript with format "code"
 - Widget: Displays interactive 3D scene with OrbitControls for exploration
+- Emotion understanding: free text ("bittersweet nostalgia", "Monday dread") is resolved to valence/arousal/dominance and nearest named emotions; the result's emotionProfile shows the palette, motion speed, geometry sharpness and light intensity it drove
+- Blends: for mixed feelings ("70% calm, 30% anxiety") pass blend: [{emotion: "calm", weight: 70}, {emotion: "anxiety", weight: 30}] and a short label as emotion
+- Styles: low-poly, vaporwave, brutalist, glass, wireframe or ink change the rendering treatment while the emotion keeps choosing palette and motion; list them with learn_mood_primitives(category: "styles")
+- Reproducibility: every result includes its seed; pass it back with the same inputs to recreate a scene
+- Caching: identical requests are served the cached scene (cached: true); pass fresh: true when the user wants a new variation
+- Provenance: AI scenes include provenance (promptVersion, model, generation parameters); pass promptVersion to compare prompt template versions or keep using an older one
+- Models: the server tries its models in order and falls back to the next when one is unavailable; pass model only when the user asks for a specific one (it disables the fallback)
+- Canvas size: the canvas fills the widget and follows it when resized; pass aspect (e.g. 1.78 for 16:9, 1 for square) for a fixed shape, or width for a narrower canvas
+- Audio: pass audioReactive: true for scenes that move with sound; the widget offers a synthesized ambient track tuned to the emotion or the user's microphone (opt-in), and the scene follows its bass/mid/treble levels
+- Captions: pass caption (up to 60 characters, e.g. a brand or campaign line) to place 3D lettering in the scene; specs frame it in the lower third facing the viewer, code scenes render it with createTextGeometry
+- Fallback: if AI generation of a spec fails, or no model is available, a procedural scene is returned with mode "procedural" and a fallbackReason; format "code" scenes that still fail validation after repairs are returned as an error with the validator's diagnostics; request mode "procedural" directly for an AI-free scene
+
+### generate_mood_journey
+Generates one scene that moves through an ordered sequence of emotions over time.
+- Input: stages (2-6 of {emotion, duration in seconds}, required), loop (optional), plus generate_mood_scene's scene options: complexity, height, width, aspect, style, mode, seed, fresh, promptVersion, model, audioReactive, caption (optional)
+- Output: A MoodSceneSpec for the blend of all stages plus journey keyframes (each stage's palette, background, motion speed, light intensity and bloom strength)
+- Widget: Palette, motion and lighting morph from stage to stage; play/pause and a timeline let the user scrub through the journey
+- Use it for changes of feeling: "anxiety resolving into calm" → stages [{emotion: "anxiety", duration: 8}, {emotion: "calm", duration: 12}]
+
+### repair_mood_scene
+Repairs raw scene code that threw an error in the widget (called by the widget's "Fix it" button).
+- Input: code, error (required), stack, emotion, complexity, height, width, aspect, seed, promptVersion, model, audioReactive (optional)
+- Output: Corrected, validated Three.js JavaScript code rendered in place
 
 ### learn_mood_primitives
 Get documentation and examples for abstract visual techniques in Three.js.
-- Input: category (geometries, materials, lighting, animation, or all)
+- Input: category (geometries, materials, lighting, animation, styles, shaders, audio, typography, postprocessing, or all)
 - Output: Markdown documentation with code examples
 
 ## Creative Guidelines
 
 When generating scenes, follow these emotional mappings:
 
-- **Peace/Serenity**: Soft blue/teal colors (#7ec8e3), floating spheres, slow easing animations
-- **Energy/Excitement**: Vibrant reds/oranges, sharp geometries (Icosahedrons, Octahedrons), rapid movement
-- **Chaos/Intensity**: High-contrast colors, random particle positions, glitch-like motion, multiple materials
-- **Curiosity/Wonder**: Gradients, nested shapes, gentle pulsing effects, emissive materials
-- **Joy/Happiness**: Bright yellows and pinks, bouncing animations, rounded shapes
-- **Melancholy/Sadness**: Deep blues and purples, slow falling particles, fog effects
+- **Peace/Serenity**: Soft blue/teal colors (#7ec8e3), floating spheres, slow easing animations, a "dream" colour grade
+- **Energy/Excitement**: Vibrant reds/oranges, sharp geometries (Icosahedrons, Octahedrons), rapid movement, afterimage trails, a "teal-orange" grade
+- **Chaos/Intensity**: High-contrast colors, random particle positions, glitch-like motion, multiple materials, GlitchPass or chromatic aberration (RGBShiftShader), a "bleach" grade
+- **Curiosity/Wonder**: Gradients, nested shapes, gentle pulsing effects, emissive materials, bokeh depth of field
+- **Joy/Happiness**: Bright yellows and pinks, bouncing animations, rounded shapes, a "warm" grade
+- **Melancholy/Sadness**: Deep blues and purples, slow falling particles, fog effects, film grain, a vignette and a "cool" grade
+- **Grief/Dread**: Near-monochrome, heavy shapes, very slow motion, a "noir" grade and a dark vignette
 
 ## Technical Constraints
 
 - Keep light intensity <= 1 to avoid overexposure
-- Use UnrealBloomPass for glowing "neon" effects
+- Use UnrealBloomPass for glowing "neon" effects, and the other passes (film grain, chromatic aberration, glitch, afterimage, bokeh, vignette, colour grading) so each emotion gets its own treatment; see learn_mood_primitives(category: "postprocessing")
 - Use MeshStandardMaterial for realistic lighting interactions
+- Use THREE.ShaderMaterial with the GLSL chunks for gradients and flowing noise; shader compile errors are shown in the widget and can be repaired
 - Always set renderer.setClearColor() to a dark background (0x1a1a2e recommended)
 - Always include OrbitControls to allow user exploration
 - Use requestAnimationFrame for smooth animations
@@ -51,6 +76,14 @@ OrbitControls   // Interactive camera controls
 EffectComposer  // Post-processing composer
 RenderPass      // Render pass
 UnrealBloomPass // Bloom effect for glow
+FilmPass, GlitchPass, AfterimagePass, BokehPass // Grain, glitch, trails, depth of field
+ShaderPass, RGBShiftShader, VignetteShader      // Chromatic aberration and vignette passes
+LUTPass, createColorGradeLUT // new LUTPass({ lut: createColorGradeLUT("cool") }): warm, cool, teal-orange, bleach, noir, dream
+GLSL            // Shader chunks: GLSL.hash, noise, fbm, palette, gradient, rotate
+onResize        // onResize((width, height) => ...) runs when the canvas resizes
+audio           // Smoothed sound levels 0-1: audio.bass, mid, treble, level
+createTextGeometry // createTextGeometry(text, { font, size, depth, bevel }): centred 3D lettering from the bundled fonts
+setLoopPeriod   // setLoopPeriod(seconds): the animation repeats exactly every period; the widget records seamless loops
 \`\`\`
 
 ## Example Queries
@@ -58,6 +91,8 @@ UnrealBloomPass // Bloom effect for glow
 "Visualize serenity" → generate_mood_scene(emotion: "serenity", complexity: 3)
 "Show me chaos" → generate_mood_scene(emotion: "chaos", complexity: 8)
 "Create an energetic scene" → generate_mood_scene(emotion: "energy", complexity: 6)
+"A launch moodboard for Aurora" → generate_mood_scene(emotion: "anticipation", caption: "AURORA")
+"Show anxiety melting into calm" → generate_mood_journey(stages: [{emotion: "anxiety", duration: 8}, {emotion: "calm", duration: 12}])
 "What geometries can I use?" → learn_mood_primitives(category: "geometries")
 
 ## Performance Expectations
@@ -68,9 +103,9 @@ UnrealBloomPass // Bloom effect for glow
 
 ## Limitations
 
-- No persistent scene storage (scenes are generated on-the-fly)
+- No persistent scene library (generated scenes are only cached for repeat requests)
 - No VR/AR support in this version
-- Complex scenes (complexity > 8) may affect performance on mobile devices
+- Each complexity level has a performance budget (draw calls, particles, geometry segments, lights, post-processing passes): specs are scaled down to fit (budgetAdjustments), over-budget code is rejected and repaired, and the widget lowers the resolution of scenes that still exceed it at runtime
 `.trim();
 
 export default SERVER_INSTRUCTIONS;
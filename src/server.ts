@@ -9,15 +9,34 @@ import { McpAgent } from "agents/mcp";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { RESOURCE_URI_META_KEY } from "@modelcontextprotocol/ext-apps";
 import * as z from "zod/v4";
-import type { Env, GenerateMoodSceneInput, LearnMoodPrimitivesInput } from "./types";
+import type {
+  Env,
+  GenerateMoodSceneInput,
+  GenerateMoodJourneyInput,
+  RepairMoodSceneInput,
+  LearnMoodPrimitivesInput,
+} from "./types";
 import type { Props } from "./auth/props";
 import { loadHtml } from "./helpers/assets";
 import { UI_RESOURCES, UI_MIME_TYPE } from "./resources/ui-resources";
 import { SERVER_INSTRUCTIONS } from "./server-instructions";
 import { TOOL_METADATA, getToolDescription } from "./tools/descriptions";
 import { logger } from "./shared/logger";
+import { createProgressReporter } from "./generation/progress";
+import {
+  executeGenerateMoodScene,
+  executeGenerateMoodJourney,
+  executeRepairMoodScene,
+  buildGenerationErrorResult,
+  provenanceLogFields,
+} from "./tools";
+import {
+  GenerateMoodSceneInputSchema,
+  GenerateMoodJourneyInputSchema,
+  RepairMoodSceneInputSchema,
+  LearnMoodPrimitivesInputSchema,
+} from "./schemas/inputs";
 import {
-  enhanceEmotionToThreeJS,
   MOOD_PRIMITIVES_DOCUMENTATION,
   type MoodPrimitivesCategory,
 } from "./ai-prompt-enhancer";
@@ -89,33 +108,7 @@ export class Moodboard3DMCP extends McpAgent<Env, unknown, Props> {
       {
         title: TOOL_METADATA["generate_mood_scene"].title,
         description: getToolDescription("generate_mood_scene"),
-        inputSchema: {
-          emotion: z
-            .string()
-            .min(1)
-            .meta({
-              description:
-                "The feeling or concept to visualize (e.g., peace, chaos, energy, curiosity)",
-            }),
-          complexity: z
-            .number()
-            .int()
-            .min(1)
-            .max(10)
-            .optional()
-            .meta({
-              description:
-                "Scale from 1-10 of how many objects to generate (default: 5)",
-            }),
-          height: z
-            .number()
-            .int()
-            .positive()
-            .optional()
-            .meta({
-              description: "Height in pixels for the 3D canvas (default: 600)",
-            }),
-        },
+        inputSchema: GenerateMoodSceneInputSchema,
         annotations: {
           readOnlyHint: true,
           destructiveHint: false,
@@ -126,21 +119,20 @@ export class Moodboard3DMCP extends McpAgent<Env, unknown, Props> {
           [RESOURCE_URI_META_KEY]: moodboardResource.uri,
         },
       },
-      async (args) => {
+      async (args, extra) => {
         if (!this.props?.userId) {
           throw new Error("User ID not found in authentication context");
         }
 
-        const { emotion, complexity = 5, height = 600 } = args as GenerateMoodSceneInput;
         const startTime = Date.now();
 
         try {
-          // Generate Three.js code using Workers AI
-          const code = await enhanceEmotionToThreeJS(
-            this.env.AI,
-            emotion,
-            complexity,
-            this.env.AI_GATEWAY_ID
+          // Generate the scene (spec or code) using Workers AI, streaming
+          // progress when the client sent a progressToken
+          const result = await executeGenerateMoodScene(
+            this.env,
+            args as GenerateMoodSceneInput,
+            createProgressReporter(extra._meta?.progressToken, extra.sendNotification)
           );
 
           const durationMs = Date.now() - startTime;
@@ -152,13 +144,72 @@ export class Moodboard3DMCP extends McpAgent<Env, unknown, Props> {
             user_email: this.props.email ?? "",
             action_id: "",
             duration_ms: durationMs,
+            ...provenanceLogFields(result),
           });
 
-          const result = {
-            code,
-            emotion,
-            height,
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+            structuredContent: result as unknown as Record<string, unknown>,
           };
+        } catch (error) {
+          logger.error({
+            event: "tool_failed",
+            tool: "generate_mood_scene",
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          return buildGenerationErrorResult(error);
+        }
+      }
+    );
+
+    // ========================================================================
+    // PART 3: Register generate_mood_journey Tool
+    // ========================================================================
+    this.server.registerTool(
+      "generate_mood_journey",
+      {
+        title: TOOL_METADATA["generate_mood_journey"].title,
+        description: getToolDescription("generate_mood_journey"),
+        inputSchema: GenerateMoodJourneyInputSchema,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: false, // AI-generated scenes may vary
+          openWorldHint: false,
+        },
+        _meta: {
+          [RESOURCE_URI_META_KEY]: moodboardResource.uri,
+        },
+      },
+      async (args, extra) => {
+        if (!this.props?.userId) {
+          throw new Error("User ID not found in authentication context");
+        }
+
+        const startTime = Date.now();
+
+        try {
+          const result = await executeGenerateMoodJourney(
+            this.env,
+            args as GenerateMoodJourneyInput,
+            createProgressReporter(extra._meta?.progressToken, extra.sendNotification)
+          );
+
+          logger.info({
+            event: "tool_completed",
+            tool: "generate_mood_journey",
+            user_id: this.props.userId ?? "",
+            user_email: this.props.email ?? "",
+            action_id: "",
+            duration_ms: Date.now() - startTime,
+            ...provenanceLogFields(result),
+          });
 
           return {
             content: [
@@ -172,42 +223,88 @@ export class Moodboard3DMCP extends McpAgent<Env, unknown, Props> {
         } catch (error) {
           logger.error({
             event: "tool_failed",
-            tool: "generate_mood_scene",
+            tool: "generate_mood_journey",
             error: error instanceof Error ? error.message : String(error),
           });
 
+          return buildGenerationErrorResult(error, "generating mood journey");
+        }
+      }
+    );
+
+    // ========================================================================
+    // PART 4: Register repair_mood_scene Tool (widget "Fix it" action)
+    // ========================================================================
+    this.server.registerTool(
+      "repair_mood_scene",
+      {
+        title: TOOL_METADATA["repair_mood_scene"].title,
+        description: getToolDescription("repair_mood_scene"),
+        inputSchema: RepairMoodSceneInputSchema,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: false, // AI-generated code may vary
+          openWorldHint: false,
+        },
+        _meta: {
+          [RESOURCE_URI_META_KEY]: moodboardResource.uri,
+        },
+      },
+      async (args, extra) => {
+        if (!this.props?.userId) {
+          throw new Error("User ID not found in authentication context");
+        }
+
+        const startTime = Date.now();
+
+        try {
+          const result = await executeRepairMoodScene(
+            this.env,
+            args as RepairMoodSceneInput,
+            createProgressReporter(extra._meta?.progressToken, extra.sendNotification)
+          );
+
+          logger.info({
+            event: "tool_completed",
+            tool: "repair_mood_scene",
+            user_id: this.props.userId ?? "",
+            user_email: this.props.email ?? "",
+            action_id: "",
+            duration_ms: Date.now() - startTime,
+            ...provenanceLogFields(result),
+          });
+
           return {
             content: [
               {
                 type: "text" as const,
-                text: `Error generating mood scene: ${
-                  error instanceof Error ? error.message : String(error)
-                }`,
+                text: JSON.stringify(result, null, 2),
               },
             ],
-            isError: true,
+            structuredContent: result as unknown as Record<string, unknown>,
           };
+        } catch (error) {
+          logger.error({
+            event: "tool_failed",
+            tool: "repair_mood_scene",
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          return buildGenerationErrorResult(error, "repairing mood scene");
         }
       }
     );
 
     // ========================================================================
-    // PART 3: Register learn_mood_primitives Tool (Documentation Only)
+    // PART 5: Register learn_mood_primitives Tool (Documentation Only)
     // ========================================================================
     this.server.registerTool(
       "learn_mood_primitives",
       {
         title: TOOL_METADATA["learn_mood_primitives"].title,
         description: getToolDescription("learn_mood_primitives"),
-        inputSchema: {
-          category: z
-            .enum(["geometries", "materials", "lighting", "animation", "all"])
-            .optional()
-            .meta({
-              description:
-                "Category of documentation to retrieve (default: all)",
-            }),
-        },
+        inputSchema: LearnMoodPrimitivesInputSchema,
       },
       async (args) => {
         const typedArgs = args as LearnMoodPrimitivesInput;
@@ -0,0 +1,233 @@
+/**
+ * GLSL Chunk Library
+ *
+ * Noise and gradient functions for THREE.ShaderMaterial scenes. The widget
+ * exposes them to scene code as `GLSL.<chunk>` strings to interpolate into
+ * shader sources; the prompt and learn_mood_primitives document them, and
+ * the validator checks that every chunk function a shader calls is
+ * included.
+ *
+ * @module shaders/glsl-chunks
+ */
+
+export interface GlslChunk {
+  /** GLSL signatures of the functions the chunk defines */
+  signatures: string[];
+  description: string;
+  /** Chunks that must be included before this one */
+  requires: GlslChunkName[];
+  source: string;
+}
+
+export const GLSL_CHUNK_NAMES = ["hash", "noise", "fbm", "palette", "gradient", "rotate"] as const;
+export type GlslChunkName = (typeof GLSL_CHUNK_NAMES)[number];
+
+export const GLSL_CHUNKS: Record<GlslChunkName, GlslChunk> = {
+  hash: {
+    signatures: ["float hash(vec3 p)"],
+    description: "Cheap pseudo-random value in [0, 1) for a 3D point (grain, sparkle)",
+    requires: [],
+    source: /* glsl */ `
+float hash(vec3 p) {
+  p = fract(p * 0.3183099 + 0.1);
+  p *= 17.0;
+  return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
+}
+`,
+  },
+  noise: {
+    signatures: ["float snoise(vec3 v)"],
+    description: "3D simplex noise in [-1, 1] (Ashima Arts); animate by feeding time into z",
+    requires: [],
+    source: /* glsl */ `
+vec3 mod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+vec4 mod289(vec4 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+vec4 permute(vec4 x) { return mod289(((x * 34.0) + 1.0) * x); }
+vec4 taylorInvSqrt(vec4 r) { return 1.79284291400159 - 0.85373472095314 * r; }
+
+float snoise(vec3 v) {
+  const vec2 C = vec2(1.0 / 6.0, 1.0 / 3.0);
+  const vec4 D = vec4(0.0, 0.5, 1.0, 2.0);
+
+  vec3 i = floor(v + dot(v, C.yyy));
+  vec3 x0 = v - i + dot(i, C.xxx);
+
+  vec3 g = step(x0.yzx, x0.xyz);
+  vec3 l = 1.0 - g;
+  vec3 i1 = min(g.xyz, l.zxy);
+  vec3 i2 = max(g.xyz, l.zxy);
+
+  vec3 x1 = x0 - i1 + C.xxx;
+  vec3 x2 = x0 - i2 + C.yyy;
+  vec3 x3 = x0 - D.yyy;
+
+  i = mod289(i);
+  vec4 p = permute(permute(permute(
+    i.z + vec4(0.0, i1.z, i2.z, 1.0))
+    + i.y + vec4(0.0, i1.y, i2.y, 1.0))
+    + i.x + vec4(0.0, i1.x, i2.x, 1.0));
+
+  float n_ = 0.142857142857;
+  vec3 ns = n_ * D.wyz - D.xzx;
+
+  vec4 j = p - 49.0 * floor(p * ns.z * ns.z);
+  vec4 x_ = floor(j * ns.z);
+  vec4 y_ = floor(j - 7.0 * x_);
+
+  vec4 x = x_ * ns.x + ns.yyyy;
+  vec4 y = y_ * ns.x + ns.yyyy;
+  vec4 h = 1.0 - abs(x) - abs(y);
+
+  vec4 b0 = vec4(x.xy, y.xy);
+  vec4 b1 = vec4(x.zw, y.zw);
+  vec4 s0 = floor(b0) * 2.0 + 1.0;
+  vec4 s1 = floor(b1) * 2.0 + 1.0;
+  vec4 sh = -step(h, vec4(0.0));
+
+  vec4 a0 = b0.xzyw + s0.xzyw * sh.xxyy;
+  vec4 a1 = b1.xzyw + s1.xzyw * sh.zzww;
+
+  vec3 p0 = vec3(a0.xy, h.x);
+  vec3 p1 = vec3(a0.zw, h.y);
+  vec3 p2 = vec3(a1.xy, h.z);
+  vec3 p3 = vec3(a1.zw, h.w);
+
+  vec4 norm = taylorInvSqrt(vec4(dot(p0, p0), dot(p1, p1), dot(p2, p2), dot(p3, p3)));
+  p0 *= norm.x;
+  p1 *= norm.y;
+  p2 *= norm.z;
+  p3 *= norm.w;
+
+  vec4 m = max(0.6 - vec4(dot(x0, x0), dot(x1, x1), dot(x2, x2), dot(x3, x3)), 0.0);
+  m = m * m;
+  return 42.0 * dot(m * m, vec4(dot(p0, x0), dot(p1, x1), dot(p2, x2), dot(p3, x3)));
+}
+`,
+  },
+  fbm: {
+    signatures: ["float fbm(vec3 p)"],
+    description: "Fractal Brownian motion: 5 octaves of snoise for clouds, smoke and marble",
+    requires: ["noise"],
+    source: /* glsl */ `
+float fbm(vec3 p) {
+  float value = 0.0;
+  float amplitude = 0.5;
+  for (int i = 0; i < 5; i++) {
+    value += amplitude * snoise(p);
+    p *= 2.0;
+    amplitude *= 0.5;
+  }
+  return value;
+}
+`,
+  },
+  palette: {
+    signatures: ["vec3 palette(float t, vec3 a, vec3 b, vec3 c, vec3 d)"],
+    description: "Cosine color palette (Inigo Quilez): a + b * cos(2π(c * t + d)) for smooth cycling hues",
+    requires: [],
+    source: /* glsl */ `
+vec3 palette(float t, vec3 a, vec3 b, vec3 c, vec3 d) {
+  return a + b * cos(6.28318 * (c * t + d));
+}
+`,
+  },
+  gradient: {
+    signatures: ["vec3 gradient3(vec3 c1, vec3 c2, vec3 c3, float t)"],
+    description: "Smooth three-stop gradient for t in [0, 1]",
+    requires: [],
+    source: /* glsl */ `
+vec3 gradient3(vec3 c1, vec3 c2, vec3 c3, float t) {
+  t = clamp(t, 0.0, 1.0);
+  return t < 0.5 ? mix(c1, c2, smoothstep(0.0, 0.5, t)) : mix(c2, c3, smoothstep(0.5, 1.0, t));
+}
+`,
+  },
+  rotate: {
+    signatures: ["mat2 rotate2d(float angle)"],
+    description: "2D rotation matrix for swirling UVs",
+    requires: [],
+    source: /* glsl */ `
+mat2 rotate2d(float angle) {
+  float s = sin(angle);
+  float c = cos(angle);
+  return mat2(c, -s, s, c);
+}
+`,
+  },
+};
+
+/**
+ * Chunk sources by name, as exposed to scene code (`GLSL.noise`, ...)
+ */
+export const GLSL = Object.fromEntries(
+  GLSL_CHUNK_NAMES.map((name) => [name, GLSL_CHUNKS[name].source])
+) as Record<GlslChunkName, string>;
+
+/**
+ * Name of the function a chunk signature defines, e.g. "snoise"
+ */
+export function chunkFunctionName(signature: string): string {
+  return signature.slice(0, signature.indexOf("(")).trim().split(/\s+/).pop() ?? signature;
+}
+
+/**
+ * Markdown listing of every chunk with a ShaderMaterial example, for
+ * learn_mood_primitives
+ */
+export function formatShaderChunksDocumentation(): string {
+  const sections = GLSL_CHUNK_NAMES.map((name) => {
+    const chunk = GLSL_CHUNKS[name];
+    const requires = chunk.requires.length > 0
+      ? `\nRequires: ${chunk.requires.map((r) => `\`\${GLSL.${r}}\``).join(", ")} before it.`
+      : "";
+    return `## \`GLSL.${name}\`
+${chunk.description}
+\`\`\`glsl
+${chunk.signatures.join("\n")}
+\`\`\`${requires}`;
+  });
+
+  return `# Custom Shaders
+
+Use \`THREE.ShaderMaterial\` for gradients, flowing noise and glow that standard materials can't express. The \`GLSL\` global holds ready-made chunks; interpolate them into a shader source before \`void main()\`.
+
+\`\`\`javascript
+const material = new THREE.ShaderMaterial({
+  uniforms: {
+    uTime: { value: 0 },
+    uColorA: { value: new THREE.Color('#1b3b6f') },
+    uColorB: { value: new THREE.Color('#7ec8e3') },
+  },
+  vertexShader: \`
+    varying vec3 vPosition;
+    void main() {
+      vPosition = position;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  \`,
+  fragmentShader: \`
+    uniform float uTime;
+    uniform vec3 uColorA;
+    uniform vec3 uColorB;
+    varying vec3 vPosition;
+    \${GLSL.noise}
+    \${GLSL.fbm}
+    void main() {
+      float n = fbm(vPosition * 1.5 + vec3(0.0, 0.0, uTime * 0.2));
+      gl_FragColor = vec4(mix(uColorA, uColorB, n * 0.5 + 0.5), 1.0);
+    }
+  \`,
+});
+
+// In animate(): material.uniforms.uTime.value = clock.getElapsedTime();
+\`\`\`
+
+Rules:
+- Every shader needs \`void main()\`; fragment shaders must write \`gl_FragColor\`
+- Include a chunk before calling its functions, and its required chunks before it
+- ShaderMaterial ignores scene lights; shade with uniforms instead
+- Compile errors are shown in the widget with the failing GLSL lines
+
+${sections.join("\n\n")}
+`;
+}
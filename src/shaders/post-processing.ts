@@ -0,0 +1,184 @@
+/**
+ * Post-Processing Toolkit
+ *
+ * Passes the widget exposes to scene code besides UnrealBloomPass: film
+ * grain, chromatic aberration, glitch, afterimage trails, bokeh depth of
+ * field, vignette and colour grading. Colour grades are defined here as
+ * pure colour transforms; the widget bakes them into the 3D lookup tables
+ * LUTPass reads, since LUT files cannot be fetched. The prompt and
+ * learn_mood_primitives document the toolkit from this module.
+ *
+ * @module shaders/post-processing
+ */
+
+type Rgb = [number, number, number];
+
+/**
+ * A colour grade: saturation and contrast, then split toning and a lifted
+ * black level
+ */
+export interface ColorGrade {
+  description: string;
+  /** 0 = monochrome, 1 = unchanged */
+  saturation: number;
+  /** Around mid grey; 1 = unchanged */
+  contrast: number;
+  /** Black level raised to this value (0-1) for a faded look */
+  lift: number;
+  /** RGB offset added to the shadows */
+  shadows: Rgb;
+  /** RGB offset added to the highlights */
+  highlights: Rgb;
+}
+
+export const COLOR_GRADE_NAMES = ["warm", "cool", "teal-orange", "bleach", "noir", "dream"] as const;
+export type ColorGradeName = (typeof COLOR_GRADE_NAMES)[number];
+
+export const COLOR_GRADES: Record<ColorGradeName, ColorGrade> = {
+  warm: {
+    description: "Golden highlights and soft amber shadows (joy, nostalgia, comfort)",
+    saturation: 1.1,
+    contrast: 1.05,
+    lift: 0.02,
+    shadows: [0.04, 0.01, -0.03],
+    highlights: [0.06, 0.03, -0.05],
+  },
+  cool: {
+    description: "Blue shadows and muted colour (melancholy, loneliness, calm)",
+    saturation: 0.75,
+    contrast: 1,
+    lift: 0.03,
+    shadows: [-0.03, 0.01, 0.07],
+    highlights: [-0.02, 0.01, 0.03],
+  },
+  "teal-orange": {
+    description: "Cinematic teal shadows against orange highlights (energy, drama, confidence)",
+    saturation: 1.15,
+    contrast: 1.1,
+    lift: 0,
+    shadows: [-0.05, 0.03, 0.06],
+    highlights: [0.07, 0.02, -0.05],
+  },
+  bleach: {
+    description: "Bleach bypass: harsh contrast and drained colour (chaos, anxiety, anger)",
+    saturation: 0.45,
+    contrast: 1.35,
+    lift: 0,
+    shadows: [0, 0, 0],
+    highlights: [0.02, 0.02, 0.01],
+  },
+  noir: {
+    description: "Monochrome with crushed blacks (grief, dread, isolation)",
+    saturation: 0,
+    contrast: 1.25,
+    lift: 0,
+    shadows: [0, 0, 0.01],
+    highlights: [0, 0, 0],
+  },
+  dream: {
+    description: "Faded pastels with lifted blacks and low contrast (wonder, longing, serenity)",
+    saturation: 0.85,
+    contrast: 0.85,
+    lift: 0.08,
+    shadows: [0.03, 0, 0.05],
+    highlights: [0.04, 0.02, 0.04],
+  },
+};
+
+/**
+ * Applies a grade to a colour with channels in [0, 1]
+ */
+export function gradeColor(grade: ColorGrade, [r, g, b]: Rgb): Rgb {
+  const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  const shadowWeight = (1 - luma) ** 2;
+  const highlightWeight = luma ** 2;
+
+  return [r, g, b].map((channel, i) => {
+    let value = luma + (channel - luma) * grade.saturation;
+    value = (value - 0.5) * grade.contrast + 0.5;
+    value += grade.shadows[i] * shadowWeight + grade.highlights[i] * highlightWeight;
+    value = grade.lift + value * (1 - grade.lift);
+    return Math.min(1, Math.max(0, value));
+  }) as Rgb;
+}
+
+/**
+ * Markdown documentation of the toolkit, for learn_mood_primitives
+ */
+export function formatPostProcessingDocumentation(): string {
+  const grades = COLOR_GRADE_NAMES.map((name) => `| \`"${name}"\` | ${COLOR_GRADES[name].description} |`);
+
+  return `# Post-Processing
+
+Every pass is added to an \`EffectComposer\` after the \`RenderPass\`, in the
+order it should apply. Each pass counts against the performance budget's
+post-processing passes, so pick the one or two that say the most about the
+emotion rather than stacking all of them.
+
+## Film Grain (\`FilmPass\`)
+Noise and scanlines for texture, memory and unease.
+\`\`\`javascript
+composer.addPass(new FilmPass(0.35, false)); // intensity, grayscale
+\`\`\`
+
+## Chromatic Aberration (\`ShaderPass\` + \`RGBShiftShader\`)
+Colour fringes that split the image apart: tension, disorientation.
+\`\`\`javascript
+const rgbShift = new ShaderPass(RGBShiftShader);
+rgbShift.uniforms.amount.value = 0.0025;
+composer.addPass(rgbShift);
+// In the animation loop, e.g. rising with arousal
+rgbShift.uniforms.angle.value = time * 0.5;
+\`\`\`
+
+## Glitch (\`GlitchPass\`)
+Digital tearing in random bursts: chaos, panic, breakdown.
+\`\`\`javascript
+const glitch = new GlitchPass();
+glitch.goWild = false; // true glitches every frame
+composer.addPass(glitch);
+\`\`\`
+
+## Afterimage Trails (\`AfterimagePass\`)
+Moving objects leave fading trails: dreaminess, memory, euphoric motion.
+\`\`\`javascript
+composer.addPass(new AfterimagePass(0.92)); // damp: higher leaves longer trails
+\`\`\`
+
+## Bokeh Depth of Field (\`BokehPass\`)
+Blurs everything outside the focus distance: intimacy, introspection.
+\`\`\`javascript
+composer.addPass(new BokehPass(scene, camera, { focus: 6, aperture: 0.004, maxblur: 0.01 }));
+\`\`\`
+
+## Vignette (\`ShaderPass\` + \`VignetteShader\`)
+Darkened edges that pull the eye inward: melancholy, focus, claustrophobia.
+\`\`\`javascript
+const vignette = new ShaderPass(VignetteShader);
+vignette.uniforms.offset.value = 1.0;
+vignette.uniforms.darkness.value = 1.2;
+composer.addPass(vignette);
+\`\`\`
+
+## Colour Grading (\`LUTPass\` + \`createColorGradeLUT\`)
+Shifts the whole image's colour like a film grade. \`createColorGradeLUT(name)\`
+returns a lookup table for one of the built-in grades:
+
+| Grade | Look |
+|-------|------|
+${grades.join("\n")}
+
+\`\`\`javascript
+composer.addPass(new LUTPass({ lut: createColorGradeLUT("cool"), intensity: 0.8 }));
+\`\`\`
+
+## Combining with Bloom
+Bloom goes first so the grade and grain also apply to the glow:
+\`\`\`javascript
+const composer = new EffectComposer(renderer);
+composer.addPass(new RenderPass(scene, camera));
+composer.addPass(new UnrealBloomPass(new THREE.Vector2(width, height), 0.8, 0.4, 0.85));
+composer.addPass(new LUTPass({ lut: createColorGradeLUT("bleach") }));
+// In the animation loop: composer.render() instead of renderer.render()
+\`\`\``;
+}
@@ -59,6 +59,10 @@ export type ToolEvent =
       user_id: string;
       action_id: string;
       duration_ms: number;
+      /** Provenance of AI-generated scenes */
+      prompt_version?: string;
+      model?: string;
+      generation_parameters?: Record<string, unknown>;
     }
   | {
       event: 'tool_failed';
@@ -70,6 +74,50 @@ export type ToolEvent =
       error_code?: string;
     };
 
+/**
+ * Scene generation events (self-repair loop)
+ */
+export type GenerationEvent =
+  | {
+      event: 'generation_attempt';
+      tool: string;
+      attempt: number;
+      reason: string;
+      outcome: 'success' | 'rejected' | 'failed';
+      duration_ms: number;
+      diagnostics_count?: number;
+      error?: string;
+    }
+  | {
+      event: 'generation_exhausted';
+      tool: string;
+      attempts: number;
+      error: string;
+    }
+  | {
+      event: 'generation_fallback';
+      tool: string;
+      reason: string;
+    }
+  | {
+      event: 'model_fallback';
+      provider: string;
+      model: string;
+      next_model?: string;
+      error: string;
+    }
+  | {
+      event: 'exemplar_retrieval';
+      exemplar_ids: string[];
+      error?: string;
+    }
+  | {
+      event: 'exemplar_admin';
+      operation: 'promote' | 'remove';
+      exemplar_id: string;
+      emotion?: string;
+    };
+
 /**
  * Authentication events
  */
@@ -129,6 +177,7 @@ export type APIEvent =
       operation: 'hit' | 'miss' | 'set' | 'evict';
       key: string;
       ttl_seconds?: number;
+      error?: string;
     };
 
 /**
@@ -205,6 +254,7 @@ export type UIEvent =
  */
 export type LogEvent =
   | ToolEvent
+  | GenerationEvent
   | AuthEvent
   | APIEvent
   | TransportEvent
@@ -0,0 +1,183 @@
+/**
+ * Style Presets
+ *
+ * Named looks layered on top of the emotion. The emotion still decides the
+ * palette, pace and shape language; a style decides the rendering treatment:
+ * - prompt constraints the model must follow (both formats)
+ * - material defaults, enforced on every mesh group and text object of a spec
+ * - post-processing, enforced on the spec (bloom on, tuned or off)
+ *
+ * Raw code scenes only receive the prompt constraints.
+ *
+ * @module styles/presets
+ */
+
+import type { MoodSceneSpec } from "../schemas/scene-spec";
+
+type SceneMaterial = Extract<MoodSceneSpec["objects"][number], { kind: "mesh" }>["material"];
+type SceneBloom = NonNullable<NonNullable<MoodSceneSpec["postProcessing"]>["bloom"]>;
+
+export const STYLE_NAMES = [
+  "low-poly",
+  "vaporwave",
+  "brutalist",
+  "glass",
+  "wireframe",
+  "ink",
+] as const;
+export type StyleName = (typeof STYLE_NAMES)[number];
+
+/**
+ * Everything a style contributes to a scene
+ */
+export interface StylePreset {
+  name: StyleName;
+  title: string;
+  description: string;
+  /** Extra requirements appended to the generation prompt */
+  promptConstraints: string[];
+  /** Colors the style favours; mixed with the emotion palette by the model */
+  paletteHint?: string[];
+  /** Background forced on the scene, when the style needs a specific one */
+  background?: string;
+  /** Material fields forced on every mesh group and text object */
+  material: Partial<Omit<SceneMaterial, "color" | "emissive">>;
+  /** Geometry subdivision forced on every mesh group */
+  geometryDetail?: number;
+  /** Bloom settings; null disables bloom */
+  bloom: SceneBloom | null;
+}
+
+export const STYLE_PRESETS: Record<StyleName, StylePreset> = {
+  "low-poly": {
+    name: "low-poly",
+    title: "Low-poly",
+    description: "Faceted polyhedra with flat shading and matte surfaces, like papercraft",
+    promptConstraints: [
+      "Use only polyhedra (icosahedron, octahedron, tetrahedron, dodecahedron) with detail 0",
+      "Enable flatShading on every material so each facet reads as a flat plane",
+      "Keep surfaces matte: roughness around 0.8, no metalness",
+    ],
+    material: { type: "standard", roughness: 0.8, metalness: 0, flatShading: true, wireframe: false },
+    geometryDetail: 0,
+    bloom: null,
+  },
+  vaporwave: {
+    name: "vaporwave",
+    title: "Vaporwave",
+    description: "Neon pinks and cyans, glowing grids and retro chrome over a purple haze",
+    promptConstraints: [
+      "Add a large wireframe ground grid (plane) below the scene",
+      "Give every object a strong emissive glow in neon pink, cyan or purple",
+      "Add purple fog and a slow auto-rotating camera",
+    ],
+    paletteHint: ["#ff71ce", "#01cdfe", "#b967ff", "#05ffa1", "#fffb96"],
+    material: { type: "standard", roughness: 0.2, metalness: 0.6, emissiveIntensity: 0.8 },
+    bloom: { strength: 1.2, radius: 0.5, threshold: 0.1 },
+  },
+  brutalist: {
+    name: "brutalist",
+    title: "Brutalist",
+    description: "Heavy concrete blocks, raw grey surfaces and hard directional light",
+    promptConstraints: [
+      "Use massive boxes and cylinders arranged on a grid or in a line",
+      "Colors are mostly concrete greys; use the emotion's color only as a single accent",
+      "Light with one strong directional light and minimal ambient light; no glow",
+    ],
+    paletteHint: ["#8d8d8d", "#5a5a5a", "#c2c2c2", "#3b3b3b"],
+    material: { type: "standard", roughness: 1, metalness: 0, flatShading: true, emissiveIntensity: 0 },
+    bloom: null,
+  },
+  glass: {
+    name: "glass",
+    title: "Glass",
+    description: "Translucent, glossy shapes that catch soft highlights",
+    promptConstraints: [
+      "Use MeshPhysicalMaterial with low roughness, no metalness and transparency",
+      "Prefer smooth shapes (spheres, tori, torus knots) so refraction-like highlights show",
+      "Add point lights behind the objects so they glow through",
+    ],
+    material: { type: "physical", roughness: 0.05, metalness: 0, opacity: 0.4, wireframe: false },
+    bloom: { strength: 0.6, radius: 0.6, threshold: 0.6 },
+  },
+  wireframe: {
+    name: "wireframe",
+    title: "Wireframe",
+    description: "Glowing line drawings of geometry against darkness",
+    promptConstraints: [
+      "Render every mesh as a wireframe with a basic (unlit) material",
+      "Use higher-detail geometries so the wire structure is visible",
+      "Keep the background very dark so the lines glow",
+    ],
+    material: { type: "basic", wireframe: true, opacity: 0.9 },
+    bloom: { strength: 0.8, radius: 0.3, threshold: 0 },
+  },
+  ink: {
+    name: "ink",
+    title: "Ink",
+    description: "Black ink shapes on warm paper, flat and unlit like a brush drawing",
+    promptConstraints: [
+      "Use a light paper-colored background (#f2efe6) instead of a dark one",
+      "Objects are near-black ink shapes with unlit (basic) materials; at most one muted accent color",
+      "No glow or emissive materials; motion is slow and deliberate",
+    ],
+    paletteHint: ["#111111", "#2b2b2b", "#4a4a4a", "#f2efe6"],
+    background: "#f2efe6",
+    material: { type: "basic", opacity: 1, wireframe: false, emissiveIntensity: 0 },
+    bloom: null,
+  },
+};
+
+/**
+ * Forces a style's material defaults and post-processing onto a spec
+ */
+export function applyStylePreset(spec: MoodSceneSpec, style: StylePreset): MoodSceneSpec {
+  const styleMaterial = (material: SceneMaterial): SceneMaterial => ({
+    ...material,
+    ...style.material,
+    // Glowing styles need an emissive color to glow with
+    emissive: material.emissive ?? (style.material.emissiveIntensity ? material.color : undefined),
+  });
+
+  return {
+    ...spec,
+    background: style.background ?? spec.background,
+    objects: spec.objects.map((object) => {
+      switch (object.kind) {
+        case "mesh":
+          return {
+            ...object,
+            geometry: style.geometryDetail !== undefined
+              ? { ...object.geometry, detail: style.geometryDetail }
+              : object.geometry,
+            material: styleMaterial(object.material),
+          };
+        case "text":
+          return { ...object, material: styleMaterial(object.material) };
+        case "particles":
+          return object;
+      }
+    }),
+    postProcessing: { ...spec.postProcessing, bloom: style.bloom ?? undefined },
+  };
+}
+
+/**
+ * Markdown listing of every style, for learn_mood_primitives
+ */
+export function formatStylePresetsDocumentation(): string {
+  const sections = STYLE_NAMES.map((name) => {
+    const style = STYLE_PRESETS[name];
+    return `## ${style.title} (\`style: "${name}"\`)
+${style.description}
+
+${style.promptConstraints.map((c) => `- ${c}`).join("\n")}`;
+  });
+
+  return `# Style Presets
+
+Pass \`style\` to generate_mood_scene to layer a rendering treatment on top of the emotion. The emotion still chooses the palette, motion and shapes; the style sets materials, lighting treatment and post-processing.
+
+${sections.join("\n\n")}
+`;
+}
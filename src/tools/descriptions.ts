@@ -25,16 +25,16 @@ export const TOOL_METADATA = {
 
     description: {
       part1_purpose:
-        "Generates dynamic Three.js code for abstract 3D art installations based on an emotion or abstract concept.",
+        "Generates abstract 3D art installations based on an emotion or abstract concept.",
 
       part2_returns:
-        "Returns JavaScript code for Three.js scene with geometries, materials, lighting, and animation, plus the emotion name and canvas height.",
+        "Returns a validated declarative scene spec (objects, geometries, materials, lights, fog, post-processing, animation behaviours, camera) rendered by the widget, plus the emotion name, its emotion profile (valence/arousal/dominance, nearest named emotions and the palette, motion speed, geometry sharpness and light intensity derived from them) and canvas height. Pass format 'code' to receive legacy raw Three.js JavaScript instead. AI scenes include their provenance (prompt template version, model and generation parameters). If AI generation fails (or, for format 'code', no model is available), a procedural scene built from the emotional mappings is returned (mode 'procedural', with fallbackReason); code that still fails validation after repairs is returned as an error with its diagnostics.",
 
       part3_useCase:
         "Use this when the user wants to visualize an emotion, feeling, or abstract concept as an interactive 3D art installation.",
 
       part4_constraints:
-        "Note: The code is executed in a sandboxed canvas with OrbitControls. Complexity ranges from 1-10 and affects object count. Higher complexity may impact performance on mobile devices."
+        "Note: The code is executed in a sandboxed canvas with OrbitControls. Complexity ranges from 1-10 and sets the scene's performance budget (draw calls, particles, geometry segments, lights, post-processing passes); specs are scaled down to fit it and over-budget code is rejected and repaired. Pass blend (2-4 weighted emotions) for mixed feelings such as 70% calm and 30% anxiety. Pass style (low-poly, vaporwave, brutalist, glass, wireframe, ink) to layer a look on top of the emotion. Pass mode 'procedural' for an instant, deterministic scene that does not use AI. Pass aspect (width / height, e.g. 1.78 for 16:9) or width to shape the canvas; it resizes with the widget. Pass audioReactive to make motion and glow follow an ambient track or the microphone. Pass caption to place a line of 3D text in the composition. Pass promptVersion to pin or compare prompt template versions, and model to pin one allowlisted model instead of the fallback chain."
     },
 
     examples: [
@@ -53,6 +53,64 @@ export const TOOL_METADATA = {
     ]
   } as const satisfies ToolMetadata,
 
+  "generate_mood_journey": {
+    title: "Generate Mood Journey",
+
+    description: {
+      part1_purpose:
+        "Generates an abstract 3D scene that transitions through an ordered sequence of emotions over time.",
+
+      part2_returns:
+        "Returns a validated declarative scene spec built for the blend of all stages, plus journey keyframes (start time, duration, palette, background, motion speed, light intensity and bloom strength of each stage's emotion). The widget interpolates palette, motion and lighting between keyframes and shows play/pause and a scrubbable timeline.",
+
+      part3_useCase:
+        "Use this when the user describes a change of feeling, such as anxiety resolving into calm, grief turning into hope, or a day's emotional arc.",
+
+      part4_constraints:
+        "Note: Takes 2-6 stages of 1-120 seconds each. Journeys are always spec scenes; format 'code' is not available. Pass loop to morph the last stage back into the first and repeat. Accepts the same scene options as generate_mood_scene (complexity, height, width, aspect, style, mode, seed, fresh, promptVersion, model, audioReactive, caption)."
+    },
+
+    examples: [
+      {
+        scenario: "Anxiety resolving into calm",
+        description: "Stages anxiety (8s) then calm (12s): sharp red motion slows and cools into soft teal"
+      },
+      {
+        scenario: "A day's arc",
+        description: "Stages curiosity, excitement, fatigue and contentment, looping"
+      }
+    ]
+  } as const satisfies ToolMetadata,
+
+  "repair_mood_scene": {
+    title: "Repair Mood Scene",
+
+    description: {
+      part1_purpose:
+        "Repairs generated Three.js scene code that threw an error while running in the moodboard widget.",
+
+      part2_returns:
+        "Returns corrected, validated JavaScript code for the same scene, plus the emotion name, canvas height and the repair attempts made.",
+
+      part3_useCase:
+        "Use this when a scene from generate_mood_scene (format 'code') fails at runtime. The widget calls it from its \"Fix it\" button with the failing code and error.",
+
+      part4_constraints:
+        "Note: Only applies to raw code scenes; declarative spec scenes never execute generated code. The repair keeps the visual intent but may change implementation details."
+    },
+
+    examples: [
+      {
+        scenario: "Fix a runtime error",
+        description: "Repair code that threw \"geometry is not defined\" inside the animation setup"
+      },
+      {
+        scenario: "Fix a broken API call",
+        description: "Repair code that called a Three.js method that does not exist in r181"
+      }
+    ]
+  } as const satisfies ToolMetadata,
+
   "learn_mood_primitives": {
     title: "Learn Mood Primitives",
 
@@ -61,7 +119,7 @@ export const TOOL_METADATA = {
         "Retrieves documentation and code examples for abstract visual techniques available in the Three.js widget.",
 
       part2_returns:
-        "Returns Markdown-formatted documentation covering geometries, materials, lighting effects, and animation patterns with code snippets.",
+        "Returns Markdown-formatted documentation covering geometries, materials, lighting effects, animation patterns, audio reactivity and 3D typography with code snippets, the style presets accepted by generate_mood_scene, the GLSL chunk library for custom ShaderMaterials, and the post-processing passes and colour grades available to scene code.",
 
       part3_useCase:
         "Use this to understand available Three.js primitives before generating a scene, or to learn specific techniques for visual effects.",
@@ -0,0 +1,47 @@
+/**
+ * generate_mood_journey Tool Executor
+ *
+ * Generates one spec scene for the blend of every stage (weighted by
+ * duration) through generate_mood_scene's pipeline - AI with procedural
+ * fallback, caching, budgets and provenance - and adds the journey
+ * keyframes the widget plays back.
+ *
+ * @module tools/generate-mood-journey
+ */
+
+import type { Env, GenerateMoodJourneyInput, GenerateMoodJourneyOutput } from "../types";
+import type { ProgressReporter } from "../generation/progress";
+import { buildMoodJourney } from "../generation/journey";
+import { executeGenerateMoodScene } from "./generate-mood-scene";
+
+/**
+ * Generates a mood journey scene
+ *
+ * Journeys are always spec scenes: the widget animates their palette,
+ * motion and lighting, which raw code would not expose.
+ *
+ * @param env - Worker environment bindings
+ * @param args - Stages, loop, and generate_mood_scene's scene options
+ * @param progress - Optional progress reporter for the calling client
+ * @returns Structured tool output for the widget
+ */
+export async function executeGenerateMoodJourney(
+  env: Env,
+  args: GenerateMoodJourneyInput,
+  progress?: ProgressReporter
+): Promise<GenerateMoodJourneyOutput> {
+  const { stages, loop = false, ...sceneOptions } = args;
+
+  const scene = await executeGenerateMoodScene(
+    env,
+    {
+      ...sceneOptions,
+      emotion: stages.map((stage) => stage.emotion).join(" → "),
+      blend: stages.map((stage) => ({ emotion: stage.emotion, weight: stage.duration })),
+      format: "spec",
+    },
+    progress
+  );
+
+  return { ...scene, journey: buildMoodJourney(stages, loop) };
+}
@@ -0,0 +1,419 @@
+/**
+ * generate_mood_scene Tool Executor
+ *
+ * Shared implementation used by both the OAuth (server.ts) and API key
+ * (api-key-handler.ts) registrations. Transport-specific concerns (auth
+ * context, logging, MCP response wrapping) stay in the callers.
+ *
+ * @module tools/generate-mood-scene
+ */
+
+import type { Env, GenerateMoodSceneInput, GenerateMoodSceneOutput } from "../types";
+import type { MoodSceneSpec } from "../schemas/scene-spec";
+import {
+  describeGeneration,
+  enhanceEmotionToSceneSpec,
+  enhanceEmotionToThreeJS,
+  repairThreeJSCode,
+} from "../ai-prompt-enhancer";
+import { resolvePromptTemplate, type PromptTemplate } from "../prompts/templates";
+import { createModelClient, ModelUnavailableError, type Completion } from "../models/providers";
+import {
+  CodeValidationError,
+  type CodeDiagnostic,
+} from "../validation/code-validator";
+import {
+  getMaxRepairAttempts,
+  runWithSelfRepair,
+  SelfRepairExhaustedError,
+  type GenerationAttempt,
+} from "../generation/self-repair";
+import { resolveSeed, seedForAttempt } from "../generation/seed";
+import {
+  buildGenerationCacheKey,
+  readCachedGeneration,
+  writeCachedGeneration,
+} from "../generation/cache";
+import type { ProgressReporter } from "../generation/progress";
+import { generateProceduralScene } from "../generation/procedural";
+import {
+  buildBlendedEmotionProfile,
+  buildEmotionProfile,
+  type EmotionProfile,
+} from "../emotion/visual-parameters";
+import { applyStylePreset, STYLE_PRESETS, type StylePreset } from "../styles/presets";
+import { fitSpecToBudget, getPerformanceBudget } from "../generation/performance-budget";
+import { placeCaption } from "../generation/caption";
+import { logger } from "../shared/logger";
+
+const TOOL_NAME = "generate_mood_scene";
+const DEFAULT_COMPLEXITY = 5;
+const DEFAULT_HEIGHT = 600;
+
+/**
+ * Per-call state shared by the AI and procedural paths
+ */
+interface GenerationContext {
+  seed: number;
+  emotionProfile: EmotionProfile;
+  style?: StylePreset;
+  template: PromptTemplate;
+  progress?: ProgressReporter;
+}
+
+/**
+ * Generates a mood scene in the requested format
+ *
+ * Generation runs inside the self-repair loop: rejected code is sent back
+ * to the model with its diagnostics, up to MAX_REPAIR_ATTEMPTS times.
+ * With a progress reporter, raw code streams to the client as it is written.
+ * If a spec cannot be generated, or no model is available, a procedural
+ * spec is returned instead; code that keeps failing validation is an error
+ * carrying its diagnostics rather than a scene in another format.
+ * Successful AI scenes are cached; `fresh` skips the cached copy. Specs are
+ * downgraded to fit the complexity's performance budget. AI scenes carry
+ * their provenance: prompt template version, model and parameters. A
+ * caption is placed into specs after generation; code scenes are asked to
+ * render it themselves.
+ *
+ * @param env - Worker environment bindings
+ * @param args - Tool input (emotion, complexity, height, width, aspect, format, blend, style, mode, seed, fresh, promptVersion, model, audioReactive, caption)
+ * @param progress - Optional progress reporter for the calling client
+ * @returns Structured tool output for the widget
+ * @throws SelfRepairExhaustedError when code generation fails for reasons other than model availability
+ */
+export async function executeGenerateMoodScene(
+  env: Env,
+  args: GenerateMoodSceneInput,
+  progress?: ProgressReporter
+): Promise<GenerateMoodSceneOutput> {
+  const {
+    emotion,
+    complexity = DEFAULT_COMPLEXITY,
+    height = DEFAULT_HEIGHT,
+    width,
+    aspect,
+    audioReactive,
+    caption,
+    format = "spec",
+    mode = "ai",
+  } = args;
+  const seed = resolveSeed(args.seed);
+  const emotionProfile = args.blend?.length
+    ? buildBlendedEmotionProfile(args.blend)
+    : buildEmotionProfile(emotion);
+  const style = args.style ? STYLE_PRESETS[args.style] : undefined;
+
+  if (mode === "procedural") {
+    await progress?.report({ message: "Building procedural scene" });
+    const { spec, budgetAdjustments } = finishSpec(
+      generateProceduralScene(emotion, complexity, seed, emotionProfile),
+      { style, complexity, caption, emotionProfile }
+    );
+    return {
+      format: "spec",
+      mode,
+      spec,
+      emotion,
+      emotionProfile,
+      style: args.style,
+      complexity,
+      budgetAdjustments,
+      height,
+      width,
+      aspect,
+      audioReactive,
+      caption,
+      seed,
+      attempts: [],
+    };
+  }
+
+  const template = resolvePromptTemplate(env, args.promptVersion);
+  const cacheKey = await buildGenerationCacheKey(args, complexity, format, template.version);
+  if (!args.fresh) {
+    const cached = await readCachedGeneration(env, cacheKey);
+    if (cached) {
+      await progress?.report({ message: "Loaded cached scene" });
+      return {
+        ...cached,
+        mode,
+        emotion,
+        emotionProfile,
+        style: args.style,
+        complexity,
+        height,
+        width,
+        aspect,
+        audioReactive,
+        caption,
+        attempts: [],
+        cached: true,
+      };
+    }
+  }
+
+  try {
+    const output = await generateWithAI(env, args, { seed, emotionProfile, style, template, progress });
+    await writeCachedGeneration(env, cacheKey, output);
+    return output;
+  } catch (error) {
+    const cause = error instanceof SelfRepairExhaustedError ? error.lastError : error;
+    if (format === "code" && !(cause instanceof ModelUnavailableError)) {
+      throw error;
+    }
+
+    const reason = error instanceof Error ? error.message : String(error);
+    logger.warn({ event: "generation_fallback", tool: TOOL_NAME, reason });
+
+    await progress?.report({ message: "AI generation failed, building procedural scene" });
+    const { spec, budgetAdjustments } = finishSpec(
+      generateProceduralScene(emotion, complexity, seed, emotionProfile),
+      { style, complexity, caption, emotionProfile }
+    );
+    return {
+      format: "spec",
+      mode: "procedural",
+      fallbackReason: reason,
+      spec,
+      emotion,
+      emotionProfile,
+      style: args.style,
+      complexity,
+      budgetAdjustments,
+      height,
+      width,
+      aspect,
+      audioReactive,
+      caption,
+      seed,
+      attempts: error instanceof SelfRepairExhaustedError ? error.attempts : [],
+    };
+  }
+}
+
+/**
+ * AI generation path of generate_mood_scene
+ *
+ * @throws ModelUnavailableError when the AI binding is missing (workers-ai provider)
+ * @throws SelfRepairExhaustedError when every attempt fails
+ */
+async function generateWithAI(
+  env: Env,
+  args: GenerateMoodSceneInput,
+  { seed, emotionProfile, style, template, progress }: GenerationContext
+): Promise<GenerateMoodSceneOutput> {
+  const {
+    emotion,
+    complexity = DEFAULT_COMPLEXITY,
+    height = DEFAULT_HEIGHT,
+    width,
+    aspect,
+    audioReactive,
+    caption,
+    format = "spec",
+  } = args;
+  const maxRepairs = getMaxRepairAttempts(env);
+  const models = createModelClient(env, args.model);
+
+  // The last completion reported is the one behind the accepted result
+  let completion: Completion | undefined;
+  const onCompletion = (c: Completion) => {
+    completion = c;
+  };
+
+  if (format === "code") {
+    const { value: code, attempts } = await runWithSelfRepair(
+      TOOL_NAME,
+      {
+        generate: async (attempt) => {
+          const message = attempt === 1 ? "Generating scene code" : `Regenerating scene code (attempt ${attempt})`;
+          await progress?.report({ message });
+          return enhanceEmotionToThreeJS(models, emotion, complexity, {
+            seed: seedForAttempt(seed, attempt),
+            onToken: progress?.streamCode(message),
+            emotionProfile,
+            style,
+            template,
+            exemplarStore: env.CACHE_KV,
+            onCompletion,
+            audioReactive,
+            caption,
+          });
+        },
+        repair: async (failedCode, diagnostics, attempt) => {
+          const message = "Repairing scene code";
+          await progress?.report({ message });
+          return repairThreeJSCode(
+            models,
+            { code: failedCode, emotion, complexity, diagnostics },
+            { seed: seedForAttempt(seed, attempt), onToken: progress?.streamCode(message), emotionProfile, style, template, onCompletion, audioReactive, caption }
+          );
+        },
+      },
+      maxRepairs
+    );
+    return {
+      format,
+      mode: "ai",
+      code,
+      emotion,
+      emotionProfile,
+      style: args.style,
+      complexity,
+      height,
+      width,
+      aspect,
+      audioReactive,
+      caption,
+      seed,
+      attempts,
+      provenance: completion && describeGeneration(template, completion),
+    };
+  }
+
+  const { value: spec, attempts } = await runWithSelfRepair(
+    TOOL_NAME,
+    {
+      // JSON mode cannot stream, so spec generation only reports its stage
+      generate: async (attempt) => {
+        await progress?.report({
+          message: attempt === 1 ? "Designing scene" : `Redesigning scene (attempt ${attempt})`,
+        });
+        return enhanceEmotionToSceneSpec(models, emotion, complexity, {
+          seed: seedForAttempt(seed, attempt),
+          emotionProfile,
+          style,
+          template,
+          onCompletion,
+          caption,
+        });
+      },
+    },
+    maxRepairs
+  );
+  const fitted = finishSpec(spec, { style, complexity, caption, emotionProfile });
+  return {
+    format,
+    mode: "ai",
+    spec: fitted.spec,
+    emotion,
+    emotionProfile,
+    style: args.style,
+    complexity,
+    budgetAdjustments: fitted.budgetAdjustments,
+    height,
+    width,
+    aspect,
+    audioReactive,
+    caption,
+    seed,
+    attempts,
+    provenance: completion && describeGeneration(template, completion),
+  };
+}
+
+/**
+ * Places the caption, enforces a style's materials and post-processing on a
+ * spec, then fits it to the complexity's performance budget
+ *
+ * The caption is lettered against the style's palette and background when
+ * a style replaces them, and takes the style's materials like every object.
+ */
+function finishSpec(
+  spec: MoodSceneSpec,
+  { style, complexity, caption, emotionProfile }: {
+    style?: StylePreset;
+    complexity: number;
+    caption?: string;
+    emotionProfile: EmotionProfile;
+  }
+): { spec: MoodSceneSpec; budgetAdjustments?: string[] } {
+  const captioned = caption
+    ? placeCaption(
+        spec,
+        caption,
+        style?.paletteHint ?? emotionProfile.parameters.palette,
+        style?.background ?? spec.background
+      )
+    : spec;
+  const styled = style ? applyStylePreset(captioned, style) : captioned;
+  const { spec: fitted, adjustments } = fitSpecToBudget(styled, getPerformanceBudget(complexity));
+  return { spec: fitted, budgetAdjustments: adjustments.length > 0 ? adjustments : undefined };
+}
+
+/**
+ * Provenance fields for the tool_completed log event (empty for
+ * procedural scenes)
+ */
+export function provenanceLogFields(output: GenerateMoodSceneOutput) {
+  if (!output.provenance) return {};
+  const { promptVersion, model, parameters } = output.provenance;
+  return { prompt_version: promptVersion, model, generation_parameters: { ...parameters } };
+}
+
+/**
+ * Builds the MCP error result for a failed generation
+ *
+ * Validation failures include their diagnostics both in the text content
+ * (for the model) and in structuredContent (for programmatic clients);
+ * exhausted self-repair loops also report every attempt.
+ */
+export function buildGenerationErrorResult(
+  error: unknown,
+  action: string = "generating mood scene"
+) {
+  const message = error instanceof Error ? error.message : String(error);
+
+  let attempts: GenerationAttempt[] | undefined;
+  let cause = error;
+  if (error instanceof SelfRepairExhaustedError) {
+    attempts = error.attempts;
+    cause = error.lastError;
+  }
+
+  const diagnostics: CodeDiagnostic[] | undefined =
+    cause instanceof CodeValidationError ? cause.diagnostics : undefined;
+
+  if (!diagnostics && !attempts) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `Error ${action}: ${message}`,
+        },
+      ],
+      isError: true as const,
+    };
+  }
+
+  const lines = [`Error ${action}: ${message}`];
+  if (attempts) {
+    lines.push("Attempts:");
+    attempts.forEach((a) =>
+      lines.push(`- #${a.attempt} (${a.reason}): ${a.outcome}${a.error ? ` - ${a.error}` : ""}`)
+    );
+  }
+  if (diagnostics) {
+    lines.push("Diagnostics:");
+    diagnostics.forEach((d) => {
+      const location = d.line !== undefined ? ` (line ${d.line}:${d.column ?? 0})` : "";
+      lines.push(`- [${d.severity}] ${d.rule}${location}: ${d.message}`);
+    });
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: lines.join("\n"),
+      },
+    ],
+    structuredContent: {
+      error: message,
+      diagnostics,
+      attempts,
+    } as Record<string, unknown>,
+    isError: true as const,
+  };
+}
@@ -1,7 +1,7 @@
 /**
  * Tool Registry
  *
- * Central export point for all {{SERVER_NAME}} MCP tools.
+ * Central export point for all 3D Abstract Moodboard MCP tools.
  * Provides clean imports for server.ts and api-key-handler.ts
  *
  * @module tools
@@ -11,6 +11,7 @@
 export { TOOL_METADATA, getToolDescription, getToolExamples } from './descriptions';
 export type { ToolMetadata, ToolName } from './descriptions';
 
-// TODO: Add your tool executor exports here
-// Example:
-// export { executeYourTool } from './your-tool';
+// Tool executors
+export { executeGenerateMoodScene, buildGenerationErrorResult, provenanceLogFields } from './generate-mood-scene';
+export { executeRepairMoodScene } from './repair-mood-scene';
+export { executeGenerateMoodJourney } from './generate-mood-journey';
@@ -0,0 +1,107 @@
+/**
+ * repair_mood_scene Tool Executor
+ *
+ * Fixes raw scene code that threw while running in the widget. The runtime
+ * error is sent to the model first; if the corrected code is then rejected
+ * by the validator, the self-repair loop keeps going with the diagnostics.
+ *
+ * @module tools/repair-mood-scene
+ */
+
+import type { Env, GenerateMoodSceneOutput, RepairMoodSceneInput } from "../types";
+import { describeGeneration, repairThreeJSCode } from "../ai-prompt-enhancer";
+import { resolvePromptTemplate } from "../prompts/templates";
+import { createModelClient, type Completion } from "../models/providers";
+import { getMaxRepairAttempts, runWithSelfRepair } from "../generation/self-repair";
+import { resolveSeed, seedForAttempt } from "../generation/seed";
+import type { ProgressReporter } from "../generation/progress";
+import { buildEmotionProfile } from "../emotion/visual-parameters";
+
+const TOOL_NAME = "repair_mood_scene";
+const DEFAULT_COMPLEXITY = 5;
+const DEFAULT_HEIGHT = 600;
+
+/**
+ * Repairs failing scene code reported by the widget
+ *
+ * @param env - Worker environment bindings
+ * @param args - Failing code, error message/stack, scene context, prompt version and model
+ * @param progress - Optional progress reporter; the repaired code streams through it
+ * @returns Structured tool output (format "code") for the widget
+ * @throws SelfRepairExhaustedError when every attempt fails
+ */
+export async function executeRepairMoodScene(
+  env: Env,
+  args: RepairMoodSceneInput,
+  progress?: ProgressReporter
+): Promise<GenerateMoodSceneOutput> {
+  const {
+    code,
+    error,
+    stack,
+    emotion = "",
+    complexity = DEFAULT_COMPLEXITY,
+    height = DEFAULT_HEIGHT,
+    width,
+    aspect,
+    audioReactive,
+  } = args;
+  const seed = resolveSeed(args.seed);
+  const emotionProfile = buildEmotionProfile(emotion);
+  const template = resolvePromptTemplate(env, args.promptVersion);
+  const models = createModelClient(env, args.model);
+
+  // The last completion reported is the one behind the repaired code
+  let completion: Completion | undefined;
+  const onCompletion = (c: Completion) => {
+    completion = c;
+  };
+
+  const { value: repaired, attempts } = await runWithSelfRepair(
+    TOOL_NAME,
+    {
+      generate: async (attempt) => {
+        const message = "Fixing runtime error";
+        await progress?.report({ message });
+        return repairThreeJSCode(
+          models,
+          { code, emotion, complexity, runtimeError: { message: error, stack } },
+          {
+            seed: seedForAttempt(seed, attempt),
+            onToken: progress?.streamCode(message),
+            emotionProfile,
+            template,
+            onCompletion,
+            audioReactive,
+          }
+        );
+      },
+      repair: async (failedCode, diagnostics, attempt) => {
+        const message = "Repairing scene code";
+        await progress?.report({ message });
+        return repairThreeJSCode(
+          models,
+          { code: failedCode, emotion, complexity, diagnostics },
+          { seed: seedForAttempt(seed, attempt), onToken: progress?.streamCode(message), emotionProfile, template, onCompletion, audioReactive }
+        );
+      },
+    },
+    getMaxRepairAttempts(env)
+  );
+
+  return {
+    format: "code",
+    mode: "ai",
+    code: repaired,
+    emotion,
+    emotionProfile,
+    complexity,
+    height,
+    width,
+    aspect,
+    audioReactive,
+    seed,
+    attempts,
+    provenance: completion && describeGeneration(template, completion),
+  };
+}
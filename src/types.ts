@@ -1,3 +1,13 @@
+import type { MoodSceneSpec, SceneFormat } from "./schemas/scene-spec";
+import type { GenerationMode } from "./generation/procedural";
+import type { GenerationAttempt } from "./generation/self-repair";
+import type { EmotionBlendComponent, EmotionProfile } from "./emotion/visual-parameters";
+import type { StyleName } from "./styles/presets";
+import type { PromptVersion } from "./prompts/templates";
+import type { ModelId } from "./models/registry";
+import type { CompletionParameters } from "./models/providers";
+import type { JourneyStage, MoodJourney } from "./generation/journey";
+
 /**
  * Cloudflare Workers Environment Bindings
  *
@@ -51,8 +61,8 @@ export interface Env {
   /**
    * Workers AI for generating Three.js code from emotional prompts
    *
-   * Model: @cf/meta/llama-3.3-70b-instruct-fp8-fast
-   * Used by: AI prompt enhancer to convert emotions to Three.js code
+   * Models: the AI_MODELS fallback chain (see models/registry)
+   * Used by: the workers-ai model provider
    */
   AI: Ai;
 
@@ -69,6 +79,42 @@ export interface Env {
    * AI Gateway configuration for rate limiting and logging AI calls
    */
   AI_GATEWAY_ID?: string;
+
+  /**
+   * Self-repair budget: attempts allowed after the first generation
+   * (default: 2, capped at 5)
+   */
+  MAX_REPAIR_ATTEMPTS?: string;
+
+  /**
+   * Lifetime of cached generations in CACHE_KV, in seconds
+   * (default: 604800 = 7 days, minimum 60)
+   */
+  CACHE_TTL_SECONDS?: string;
+
+  /**
+   * Prompt template version used when a request does not pick one
+   * (defaults to the latest; see prompts/templates)
+   */
+  PROMPT_VERSION?: string;
+
+  /**
+   * Bearer token for /admin/exemplars (secret); the endpoint is disabled
+   * while unset
+   */
+  EXEMPLAR_ADMIN_TOKEN?: string;
+
+  /**
+   * Ordered model fallback chain, comma-separated allowlisted model ids
+   * (default: see models/registry)
+   */
+  AI_MODELS?: string;
+
+  /**
+   * Model provider: "workers-ai" (default) or "stub" to run without a
+   * model, e.g. in `wrangler dev` with no network
+   */
+  AI_PROVIDER?: string;
 }
 
 // ========================================================================
@@ -91,20 +137,112 @@ export interface GenerateMoodSceneInput {
   emotion: string;
   complexity?: number;
   height?: number;
+  width?: number;
+  aspect?: number;
+  format?: SceneFormat;
+  blend?: EmotionBlendComponent[];
+  style?: StyleName;
+  mode?: GenerationMode;
+  seed?: number;
+  fresh?: boolean;
+  promptVersion?: PromptVersion;
+  model?: ModelId;
+  audioReactive?: boolean;
+  caption?: string;
+}
+
+/**
+ * Where an AI-generated scene came from: prompt template, and the model and
+ * sampling parameters of the completion that produced it
+ */
+export interface GenerationProvenance {
+  promptVersion: PromptVersion;
+  model: string;
+  parameters: CompletionParameters;
 }
 
 /**
  * Output for generate_mood_scene tool
+ *
+ * Exactly one of `spec` (format "spec") or `code` (format "code") is set.
  */
 export interface GenerateMoodSceneOutput {
-  code: string;
+  format: SceneFormat;
+  /** "procedural" when the scene was built without AI (requested or as fallback) */
+  mode: GenerationMode;
+  /** Why AI generation was abandoned in favour of the procedural fallback */
+  fallbackReason?: string;
+  spec?: MoodSceneSpec;
+  code?: string;
   emotion: string;
+  /**
+   * How the emotion was understood (VAD, nearest emotions) and the visual
+   * parameters it drove; `emotionProfile.blend` describes a weighted mix
+   */
+  emotionProfile: EmotionProfile;
+  /** Style preset applied on top of the emotion */
+  style?: StyleName;
+  /** Complexity level the scene was budgeted for */
+  complexity: number;
+  /** How a spec was downgraded to fit the complexity's performance budget */
+  budgetAdjustments?: string[];
   height: number;
+  /** Canvas width in pixels; the widget fills its container when unset */
+  width?: number;
+  /** Canvas width / height ratio; the widget derives the height from it */
+  aspect?: number;
+  /** The widget drives the scene with microphone or synthesized audio levels */
+  audioReactive?: boolean;
+  /** Text placed in the scene (a text object of specs, rendered by code scenes themselves) */
+  caption?: string;
+  /** Seed used for sampling and the widget PRNG; pass it back to recreate the scene */
+  seed: number;
+  /** Self-repair history: one entry per generation/repair attempt */
+  attempts: GenerationAttempt[];
+  /** True when the scene was served from the generation cache */
+  cached?: boolean;
+  /** Prompt template, model and parameters behind an AI-generated scene */
+  provenance?: GenerationProvenance;
+}
+
+/**
+ * Input for generate_mood_journey tool
+ */
+export interface GenerateMoodJourneyInput
+  extends Omit<GenerateMoodSceneInput, "emotion" | "format" | "blend"> {
+  stages: JourneyStage[];
+  loop?: boolean;
+}
+
+/**
+ * Output for generate_mood_journey tool: a spec scene for the blend of all
+ * stages, plus the keyframes the widget interpolates
+ */
+export interface GenerateMoodJourneyOutput extends GenerateMoodSceneOutput {
+  journey: MoodJourney;
+}
+
+/**
+ * Input for repair_mood_scene tool
+ */
+export interface RepairMoodSceneInput {
+  code: string;
+  error: string;
+  stack?: string;
+  emotion?: string;
+  complexity?: number;
+  height?: number;
+  width?: number;
+  aspect?: number;
+  seed?: number;
+  promptVersion?: PromptVersion;
+  model?: ModelId;
+  audioReactive?: boolean;
 }
 
 /**
  * Input for learn_mood_primitives tool
  */
 export interface LearnMoodPrimitivesInput {
-  category?: "geometries" | "materials" | "lighting" | "animation" | "all";
+  category?: "geometries" | "materials" | "lighting" | "animation" | "styles" | "shaders" | "audio" | "typography" | "postprocessing" | "all";
 }
\ No newline at end of file
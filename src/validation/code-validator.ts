@@ -0,0 +1,818 @@
+/**
+ * Generated Three.js Code Validator
+ *
+ * Parses AI-generated scene code with acorn and walks the AST to reject
+ * code that is syntactically invalid, reaches outside the widget sandbox
+ * (network, DOM, storage, the MCP App bridge, dynamic evaluation) or is
+ * missing the pieces every scene needs (render loop, render call,
+ * OrbitControls, a renderer bound to the provided canvas). ShaderMaterial
+ * sources that can be resolved statically are checked as GLSL, and with a
+ * performance budget, statically countable scene costs are checked too.
+ *
+ * The widget runs code as the body of an async function, so top-level
+ * `await` and `return` are accepted.
+ *
+ * @module validation/code-validator
+ */
+
+import {
+  parse,
+  type AnyNode,
+  type Expression,
+  type Function as FunctionNode,
+  type Identifier,
+  type Node,
+  type Pattern,
+  type Program,
+  type Super,
+  type VariableDeclaration,
+} from "acorn";
+import { ancestor } from "acorn-walk";
+import { GLSL, GLSL_CHUNK_NAMES, type GlslChunkName } from "../shaders/glsl-chunks";
+import { validateShaderSource, type ShaderStage } from "./shader-validator";
+import {
+  formatBudgetViolation,
+  type BudgetMetric,
+  type PerformanceBudget,
+} from "../generation/performance-budget";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DiagnosticSeverity = "error" | "warning";
+
+/**
+ * A single finding reported by the validator
+ */
+export interface CodeDiagnostic {
+  severity: DiagnosticSeverity;
+  /** Stable rule identifier, e.g. "forbidden-global" */
+  rule: string;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface CodeValidationOptions {
+  /** Budget for the requested complexity; omit to skip budget checks */
+  budget?: PerformanceBudget;
+}
+
+export interface CodeValidationResult {
+  /** True when there are no error-severity diagnostics */
+  valid: boolean;
+  diagnostics: CodeDiagnostic[];
+}
+
+/**
+ * Thrown when generated code fails validation.
+ * Carries the diagnostics so they can be returned in the tool result.
+ */
+export class CodeValidationError extends Error {
+  readonly diagnostics: CodeDiagnostic[];
+  /** The rejected code, kept so it can be sent back for repair */
+  readonly code?: string;
+
+  constructor(diagnostics: CodeDiagnostic[], code?: string) {
+    const errors = diagnostics.filter((d) => d.severity === "error");
+    super(
+      `Generated code failed validation (${errors.length} error${errors.length === 1 ? "" : "s"}): ` +
+        errors.map((d) => d.message).join("; ")
+    );
+    this.name = "CodeValidationError";
+    this.diagnostics = diagnostics;
+    this.code = code;
+  }
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/**
+ * Globals generated code must never reference.
+ * Values explain why, and are surfaced in diagnostics.
+ */
+const FORBIDDEN_GLOBALS: Record<string, string> = {
+  fetch: "network access is not allowed",
+  XMLHttpRequest: "network access is not allowed",
+  WebSocket: "network access is not allowed",
+  EventSource: "network access is not allowed",
+  importScripts: "loading scripts is not allowed",
+  document: "DOM access is not allowed; use the provided canvas",
+  window: "access to the host window is not allowed",
+  self: "access to the global scope is not allowed",
+  globalThis: "access to the global scope is not allowed",
+  parent: "access to the parent frame is not allowed",
+  top: "access to the parent frame is not allowed",
+  opener: "access to the opener window is not allowed",
+  frames: "access to other frames is not allowed",
+  postMessage: "messaging the host is not allowed",
+  Reflect: "reflective property access can escape the sandbox",
+  localStorage: "storage access is not allowed",
+  sessionStorage: "storage access is not allowed",
+  indexedDB: "storage access is not allowed",
+  caches: "storage access is not allowed",
+  cookieStore: "storage access is not allowed",
+  navigator: "device/browser APIs are not allowed",
+  AudioContext: "creating audio is not allowed; read the provided audio levels",
+  webkitAudioContext: "creating audio is not allowed; read the provided audio levels",
+  location: "navigation is not allowed",
+  eval: "dynamic code evaluation is not allowed",
+  Function: "dynamic code evaluation is not allowed",
+  Worker: "spawning workers is not allowed",
+  SharedWorker: "spawning workers is not allowed",
+};
+
+/**
+ * Property names that are forbidden regardless of the object they are read from
+ */
+const FORBIDDEN_PROPERTIES: Record<string, string> = {
+  postMessage: "messaging the host is not allowed",
+  constructor: "reaching constructors can escape the sandbox",
+  __proto__: "prototype manipulation is not allowed",
+  cookie: "cookie access is not allowed",
+  ownerDocument: "DOM access is not allowed; use the provided canvas",
+  defaultView: "access to the host window is not allowed",
+  getRootNode: "DOM access is not allowed; use the provided canvas",
+  parent: "access to the parent frame is not allowed",
+  top: "access to the parent frame is not allowed",
+  opener: "access to the opener window is not allowed",
+  getOwnPropertyDescriptor: "reflective property access can escape the sandbox",
+  getOwnPropertyDescriptors: "reflective property access can escape the sandbox",
+  getPrototypeOf: "prototype access can escape the sandbox",
+  setPrototypeOf: "prototype manipulation is not allowed",
+  defineProperty: "reflective property access can escape the sandbox",
+  defineProperties: "reflective property access can escape the sandbox",
+  __lookupGetter__: "reflective property access can escape the sandbox",
+  __lookupSetter__: "reflective property access can escape the sandbox",
+  __defineGetter__: "reflective property access can escape the sandbox",
+  __defineSetter__: "reflective property access can escape the sandbox",
+};
+
+/**
+ * Arithmetic operators whose result is always a number
+ */
+const NUMERIC_OPERATORS = new Set(["-", "*", "/", "%", "**", "|", "&", "^", "<<", ">>", ">>>"]);
+
+/**
+ * THREE loaders that fetch remote resources, which the widget CSP blocks
+ */
+const NETWORK_LOADERS = new Set([
+  "FileLoader",
+  "ImageLoader",
+  "ImageBitmapLoader",
+  "TextureLoader",
+  "CubeTextureLoader",
+  "ObjectLoader",
+  "AudioLoader",
+  "FontLoader",
+]);
+
+/**
+ * Material properties holding GLSL sources
+ */
+const SHADER_PROPERTIES = new Map<string, ShaderStage>([
+  ["vertexShader", "vertex"],
+  ["fragmentShader", "fragment"],
+]);
+
+/**
+ * Objects that cost one draw call each
+ */
+const DRAWABLE_CLASSES = new Set(["Mesh", "Points", "Line", "LineSegments", "LineLoop", "Sprite", "InstancedMesh"]);
+
+/**
+ * Segment arguments of geometry constructors: argument indices and the
+ * three.js defaults used when an argument is omitted
+ */
+const GEOMETRY_SEGMENT_ARGS = new Map<string, { indices: number[]; defaults: number[] }>([
+  ["SphereGeometry", { indices: [1, 2], defaults: [32, 16] }],
+  ["TorusGeometry", { indices: [2, 3], defaults: [12, 48] }],
+  ["TorusKnotGeometry", { indices: [2, 3], defaults: [64, 8] }],
+  ["CylinderGeometry", { indices: [3, 4], defaults: [32, 1] }],
+  ["ConeGeometry", { indices: [2, 3], defaults: [32, 1] }],
+  ["CapsuleGeometry", { indices: [2, 3], defaults: [4, 8] }],
+  ["PlaneGeometry", { indices: [2, 3], defaults: [1, 1] }],
+  ["RingGeometry", { indices: [2, 3], defaults: [32, 1] }],
+  ["CircleGeometry", { indices: [1], defaults: [32] }],
+  ["BoxGeometry", { indices: [3, 4, 5], defaults: [1, 1, 1] }],
+]);
+
+// ============================================================================
+// AST Helpers
+// ============================================================================
+
+/**
+ * Whether an Identifier node is a variable reference (as opposed to a
+ * property name, object key, label or declaration of a non-global binding)
+ */
+function isReference(node: Identifier, parent: AnyNode | undefined): boolean {
+  if (!parent) return true;
+
+  switch (parent.type) {
+    case "MemberExpression":
+      return parent.object === node || parent.computed;
+    case "Property":
+      return parent.value === node || parent.computed || parent.shorthand;
+    case "MethodDefinition":
+    case "PropertyDefinition":
+      return parent.key !== node || parent.computed;
+    case "LabeledStatement":
+    case "BreakStatement":
+    case "ContinueStatement":
+    case "MetaProperty":
+      return false;
+    default:
+      return true;
+  }
+}
+
+/** Reason a name is forbidden; inherited members like `toString` are not rules */
+function forbiddenReason(rules: Record<string, string>, name: string | undefined): string | undefined {
+  return name !== undefined && Object.prototype.hasOwnProperty.call(rules, name) ? rules[name] : undefined;
+}
+
+/** Names bound by a declaration or parameter pattern */
+function patternNames(pattern: Pattern | null | undefined, names: string[] = []): string[] {
+  if (!pattern) return names;
+  switch (pattern.type) {
+    case "Identifier":
+      names.push(pattern.name);
+      break;
+    case "ObjectPattern":
+      pattern.properties.forEach((p) => patternNames(p.type === "RestElement" ? p.argument : p.value, names));
+      break;
+    case "ArrayPattern":
+      pattern.elements.forEach((e) => patternNames(e, names));
+      break;
+    case "RestElement":
+      patternNames(pattern.argument, names);
+      break;
+    case "AssignmentPattern":
+      patternNames(pattern.left, names);
+      break;
+  }
+  return names;
+}
+
+/** Nodes whose `var` declarations and parameters they scope */
+const FUNCTION_SCOPES = new Set(["Program", "FunctionDeclaration", "FunctionExpression", "ArrowFunctionExpression"]);
+
+/** Nodes scoping `let`, `const` and class declarations */
+const LEXICAL_SCOPES = new Set([
+  ...FUNCTION_SCOPES,
+  "BlockStatement",
+  "ForStatement",
+  "ForInStatement",
+  "ForOfStatement",
+  "SwitchStatement",
+  "StaticBlock",
+]);
+
+/**
+ * Collects the names each scope declares, keyed by the node opening it, so
+ * a reference is only shadowed by declarations that enclose it (e.g. a
+ * parameter named `fetch` does not hide the global outside its function).
+ * Function declarations count for both their block and their function, as
+ * sloppy-mode code hoists them out of blocks.
+ */
+function collectScopes(program: Program): Map<Node, Set<string>> {
+  const scopes = new Map<Node, Set<string>>();
+
+  const declare = (scope: Node | undefined, names: string[]): void => {
+    if (!scope) return;
+    const declared = scopes.get(scope) ?? new Set<string>();
+    names.forEach((name) => declared.add(name));
+    scopes.set(scope, declared);
+  };
+  // Innermost scope of a kind around a node, not counting the node itself
+  const nearest = (ancestors: AnyNode[], kinds: Set<string>): Node | undefined =>
+    ancestors.slice(0, -1).reverse().find((a) => kinds.has(a.type));
+
+  const declareFunction = (fn: FunctionNode): void => {
+    declare(fn, fn.params.flatMap((p) => patternNames(p)));
+  };
+
+  ancestor(program, {
+    VariableDeclaration: (node, _state, ancestors) => {
+      const scope = nearest(ancestors, node.kind === "var" ? FUNCTION_SCOPES : LEXICAL_SCOPES);
+      declare(scope, node.declarations.flatMap((d) => patternNames(d.id)));
+    },
+    FunctionDeclaration: (node, _state, ancestors) => {
+      if (node.id) {
+        declare(nearest(ancestors, LEXICAL_SCOPES), [node.id.name]);
+        declare(nearest(ancestors, FUNCTION_SCOPES), [node.id.name]);
+      }
+      declareFunction(node);
+    },
+    FunctionExpression: (node) => {
+      declareFunction(node);
+      if (node.id) declare(node, [node.id.name]);
+    },
+    ArrowFunctionExpression: declareFunction,
+    ClassDeclaration: (node, _state, ancestors) => {
+      if (node.id) declare(nearest(ancestors, LEXICAL_SCOPES), [node.id.name]);
+    },
+    ClassExpression: (node) => {
+      if (node.id) declare(node, [node.id.name]);
+    },
+    CatchClause: (node) => declare(node, patternNames(node.param)),
+  });
+
+  return scopes;
+}
+
+/**
+ * Collects the values every variable is given: declaration initialisers
+ * and assignments. Arithmetic assignments (`i -= 1`) always leave a number
+ * and are skipped; values that cannot be seen statically (parameters,
+ * for-in/of targets, destructuring) are recorded as null.
+ */
+function collectBindingValues(program: Program): Map<string, (Expression | null)[]> {
+  const values = new Map<string, (Expression | null)[]>();
+  const add = (name: string, value: Expression | null): void => {
+    values.set(name, [...(values.get(name) ?? []), value]);
+  };
+  const addUnknown = (pattern: Pattern | null | undefined): void => {
+    patternNames(pattern).forEach((name) => add(name, null));
+  };
+  const addFunction = (fn: FunctionNode): void => {
+    if (fn.id) add(fn.id.name, null);
+    fn.params.forEach(addUnknown);
+  };
+  const addLoopTarget = (left: VariableDeclaration | Pattern): void => {
+    if (left.type === "VariableDeclaration") left.declarations.forEach((d) => addUnknown(d.id));
+    else addUnknown(left);
+  };
+
+  ancestor(program, {
+    VariableDeclarator: (node) => {
+      if (node.id.type === "Identifier" && node.init) add(node.id.name, node.init);
+      else if (node.init) addUnknown(node.id);
+    },
+    AssignmentExpression: (node) => {
+      if (NUMERIC_OPERATORS.has(node.operator.slice(0, -1))) return;
+      if (node.left.type === "Identifier") add(node.left.name, node.right);
+      else addUnknown(node.left);
+    },
+    ForInStatement: (node) => addLoopTarget(node.left),
+    ForOfStatement: (node) => addLoopTarget(node.left),
+    FunctionDeclaration: addFunction,
+    FunctionExpression: addFunction,
+    ArrowFunctionExpression: addFunction,
+    ClassDeclaration: (node) => {
+      if (node.id) add(node.id.name, null);
+    },
+    CatchClause: (node) => addUnknown(node.param),
+  });
+
+  return values;
+}
+
+/**
+ * Whether an expression always evaluates to a number: literals, arithmetic,
+ * Math calls, `.length`, and variables only ever given such values (loop
+ * counters, index constants)
+ */
+function isNumeric(
+  node: AnyNode,
+  values: Map<string, (Expression | null)[]>,
+  declared: Set<string>,
+  seen = new Set<string>()
+): boolean {
+  switch (node.type) {
+    case "Literal":
+      return typeof node.value === "number";
+    case "Identifier": {
+      // A variable given itself (`i = i + 1`) is numeric if its other values are
+      if (seen.has(node.name)) return true;
+      const given = values.get(node.name);
+      if (!given) return false;
+      seen.add(node.name);
+      return given.every((value) => value !== null && isNumeric(value, values, declared, seen));
+    }
+    case "UnaryExpression":
+      return node.operator === "-" || node.operator === "+" || node.operator === "~";
+    case "UpdateExpression":
+      return true;
+    case "BinaryExpression":
+      if (NUMERIC_OPERATORS.has(node.operator)) return true;
+      return (
+        node.operator === "+" &&
+        isNumeric(node.left, values, declared, seen) &&
+        isNumeric(node.right, values, declared, seen)
+      );
+    case "ConditionalExpression":
+      return isNumeric(node.consequent, values, declared, seen) && isNumeric(node.alternate, values, declared, seen);
+    case "CallExpression":
+      return (
+        node.callee.type === "MemberExpression" &&
+        node.callee.object.type === "Identifier" &&
+        node.callee.object.name === "Math" &&
+        !declared.has("Math")
+      );
+    case "MemberExpression":
+      return !node.computed && node.property.type === "Identifier" && node.property.name === "length";
+    default:
+      return false;
+  }
+}
+
+/** Name of a callee like `foo`, `a.foo` or `a.b.foo` */
+function calleeName(callee: Expression | Super): string | undefined {
+  if (callee.type === "Identifier") return callee.name;
+  if (callee.type === "MemberExpression" && !callee.computed && callee.property.type === "Identifier") {
+    return callee.property.name;
+  }
+  return undefined;
+}
+
+/**
+ * Collects `const name = <init>` declarations so shader sources and counts
+ * kept in variables can be resolved
+ */
+function collectConstants(program: Program): Map<string, Expression> {
+  const constants = new Map<string, Expression>();
+  ancestor(program, {
+    VariableDeclaration: (declaration) => {
+      if (declaration.kind !== "const") return;
+      for (const declarator of declaration.declarations) {
+        if (declarator.id.type === "Identifier" && declarator.init) {
+          constants.set(declarator.id.name, declarator.init);
+        }
+      }
+    },
+  });
+  return constants;
+}
+
+/**
+ * Statically evaluates a string expression, substituting `${GLSL.chunk}`
+ * placeholders. Returns undefined when any part depends on runtime values.
+ */
+function resolveString(node: AnyNode, constants: Map<string, Expression>, depth = 0): string | undefined {
+  if (depth > 8) return undefined;
+  switch (node.type) {
+    case "Literal":
+      return typeof node.value === "string" ? node.value : undefined;
+    case "Identifier": {
+      const init = constants.get(node.name);
+      return init ? resolveString(init, constants, depth + 1) : undefined;
+    }
+    case "MemberExpression":
+      if (
+        node.object.type === "Identifier" &&
+        node.object.name === "GLSL" &&
+        !node.computed &&
+        node.property.type === "Identifier" &&
+        (GLSL_CHUNK_NAMES as readonly string[]).includes(node.property.name)
+      ) {
+        return GLSL[node.property.name as GlslChunkName];
+      }
+      return undefined;
+    case "TemplateLiteral": {
+      let result = "";
+      for (let i = 0; i < node.quasis.length; i++) {
+        const cooked = node.quasis[i].value.cooked;
+        if (typeof cooked !== "string") return undefined;
+        result += cooked;
+        if (i < node.expressions.length) {
+          const value = resolveString(node.expressions[i], constants, depth + 1);
+          if (value === undefined) return undefined;
+          result += value;
+        }
+      }
+      return result;
+    }
+    case "BinaryExpression": {
+      if (node.operator !== "+") return undefined;
+      const left = resolveString(node.left, constants, depth + 1);
+      const right = resolveString(node.right, constants, depth + 1);
+      return left !== undefined && right !== undefined ? left + right : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Statically evaluates a numeric expression built from literals, constants
+ * and arithmetic. Returns undefined when it depends on runtime values.
+ */
+function resolveNumber(
+  node: AnyNode | null | undefined,
+  constants: Map<string, Expression>,
+  depth = 0
+): number | undefined {
+  if (!node || depth > 8) return undefined;
+  switch (node.type) {
+    case "Literal":
+      return typeof node.value === "number" ? node.value : undefined;
+    case "Identifier": {
+      const init = constants.get(node.name);
+      return init ? resolveNumber(init, constants, depth + 1) : undefined;
+    }
+    case "BinaryExpression": {
+      const left = resolveNumber(node.left, constants, depth + 1);
+      const right = resolveNumber(node.right, constants, depth + 1);
+      if (left === undefined || right === undefined) return undefined;
+      switch (node.operator) {
+        case "+": return left + right;
+        case "-": return left - right;
+        case "*": return left * right;
+        case "/": return right === 0 ? undefined : left / right;
+        default: return undefined;
+      }
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * How many times a node runs, from the `for (let i = a; i < b; i++)` loops
+ * whose bodies contain it. Loops with runtime bounds count once.
+ */
+function loopMultiplier(ancestors: AnyNode[], constants: Map<string, Expression>): number {
+  let multiplier = 1;
+  for (let i = 0; i < ancestors.length - 1; i++) {
+    const loop = ancestors[i];
+    if (loop.type !== "ForStatement" || ancestors[i + 1] !== loop.body) continue;
+    const test = loop.test;
+    if (!test || test.type !== "BinaryExpression" || (test.operator !== "<" && test.operator !== "<=")) continue;
+    const declaration = loop.init?.type === "VariableDeclaration" ? loop.init.declarations[0] : undefined;
+    const start = declaration ? resolveNumber(declaration.init, constants) : 0;
+    const end = resolveNumber(test.right, constants);
+    if (start === undefined || end === undefined) continue;
+    multiplier *= Math.max(0, Math.ceil(end - start) + (test.operator === "<=" ? 1 : 0));
+  }
+  return multiplier;
+}
+
+function hasObjectKey(node: AnyNode | undefined, key: string): boolean {
+  if (!node || node.type !== "ObjectExpression") return false;
+  return node.properties.some(
+    (p) =>
+      p.type === "Property" &&
+      ((p.key.type === "Identifier" && p.key.name === key) ||
+        (p.key.type === "Literal" && p.key.value === key))
+  );
+}
+
+// ============================================================================
+// Validator
+// ============================================================================
+
+/**
+ * Validates generated Three.js scene code
+ *
+ * @param code - JavaScript executed as the body of an async function
+ * @param options - Performance budget to check against
+ * @returns Validation result with structured diagnostics
+ */
+export function validateThreeCode(code: string, options: CodeValidationOptions = {}): CodeValidationResult {
+  const diagnostics: CodeDiagnostic[] = [];
+
+  let program: Program;
+  try {
+    program = parse(code, {
+      ecmaVersion: "latest",
+      sourceType: "script",
+      allowAwaitOutsideFunction: true,
+      allowReturnOutsideFunction: true,
+      locations: true,
+    });
+  } catch (error) {
+    const syntaxError = error as SyntaxError & { pos?: number; loc?: { line: number; column: number } };
+    const atEnd = syntaxError.pos !== undefined && syntaxError.pos >= code.trimEnd().length - 1;
+    diagnostics.push({
+      severity: "error",
+      rule: atEnd ? "truncated" : "syntax",
+      message: atEnd
+        ? `Code ends unexpectedly (truncated output): ${syntaxError.message}`
+        : `Syntax error: ${syntaxError.message}`,
+      line: syntaxError.loc?.line,
+      column: syntaxError.loc?.column,
+    });
+    return { valid: false, diagnostics };
+  }
+
+  const scopes = collectScopes(program);
+  const declared = new Set([...scopes.values()].flatMap((names) => [...names]));
+  const constants = collectConstants(program);
+  const values = collectBindingValues(program);
+  const report = (
+    severity: DiagnosticSeverity,
+    rule: string,
+    message: string,
+    node?: Node
+  ): void => {
+    diagnostics.push({
+      severity,
+      rule,
+      message,
+      line: node?.loc?.start.line,
+      column: node?.loc?.start.column,
+    });
+  };
+
+  let hasAnimationFrame = false;
+  let hasRenderCall = false;
+  let hasOrbitControls = false;
+  let rendererCount = 0;
+  const costs: Record<Exclude<BudgetMetric, "geometrySegments">, number> = {
+    drawCalls: 0,
+    particles: 0,
+    lights: 0,
+    postPasses: 0,
+  };
+  let largestGeometry: { segments: number; node: Node } | undefined;
+  // Vertices of position attributes; they are particles if the scene has Points
+  let positionVertices = 0;
+  let hasPoints = false;
+
+  ancestor(program, {
+    Identifier: (id, _state, ancestors) => {
+      const parent = ancestors[ancestors.length - 2];
+      const reason = forbiddenReason(FORBIDDEN_GLOBALS, id.name);
+      const shadowed = ancestors.some((a) => scopes.get(a)?.has(id.name));
+      if (reason && !shadowed && isReference(id, parent)) {
+        report("error", "forbidden-global", `'${id.name}': ${reason}`, id);
+      }
+    },
+    // Outside classes (strict mode, bound to instances) `this` can be the global scope
+    ThisExpression: (node, _state, ancestors) => {
+      if (!ancestors.some((a) => a.type === "ClassBody")) {
+        report("error", "forbidden-this", "'this' is only allowed inside class bodies", node);
+      }
+    },
+    MemberExpression: (member) => {
+      const { property } = member;
+      const name = member.computed
+        ? resolveString(property, constants)
+        : property.type === "Identifier" ? property.name : undefined;
+      const reason = forbiddenReason(FORBIDDEN_PROPERTIES, name);
+      if (reason) {
+        report("error", "forbidden-property", `'.${name}': ${reason}`, member);
+      } else if (member.computed && name === undefined && !isNumeric(property, values, declared)) {
+        report(
+          "error",
+          "dynamic-property",
+          "Computed property keys must be string literals or numeric indices; use a.b or a['b']",
+          member
+        );
+      }
+    },
+    // const { constructor } = value
+    ObjectPattern: (pattern) => {
+      for (const property of pattern.properties) {
+        if (property.type !== "Property") continue;
+        const name = !property.computed && property.key.type === "Identifier"
+          ? property.key.name
+          : resolveString(property.key, constants);
+        const reason = forbiddenReason(FORBIDDEN_PROPERTIES, name);
+        if (reason) {
+          report("error", "forbidden-property", `'.${name}': ${reason}`, property);
+        } else if (property.computed && name === undefined) {
+          report("error", "dynamic-property", "Computed destructuring keys must be string literals", property);
+        }
+      }
+    },
+    // `with (canvas.ownerDocument) cookie` turns plain names into property reads
+    WithStatement: (node) => {
+      report("error", "forbidden-with", "'with' statements are not allowed", node);
+    },
+    ImportExpression: (node) => {
+      report("error", "forbidden-import", "Dynamic import() is not allowed", node);
+    },
+    CallExpression: (call, _state, ancestors) => {
+      const name = calleeName(call.callee);
+      const pass = call.arguments[0];
+      if (name === "addPass" && !(pass?.type === "NewExpression" && calleeName(pass.callee) === "RenderPass")) {
+        costs.postPasses += loopMultiplier(ancestors, constants);
+      }
+      // geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3)) on a points cloud
+      const first = call.arguments[0];
+      if (name === "setAttribute" && first?.type === "Literal" && first.value === "position") {
+        const attribute = call.arguments[1];
+        const array = attribute?.type === "NewExpression" ? attribute.arguments[0] : undefined;
+        const typed = array?.type === "Identifier" ? constants.get(array.name) : array;
+        const length = typed?.type === "NewExpression" && calleeName(typed.callee) === "Float32Array"
+          ? resolveNumber(typed.arguments[0], constants)
+          : undefined;
+        const itemSize = resolveNumber(attribute?.type === "NewExpression" ? attribute.arguments[1] : undefined, constants) ?? 3;
+        if (length !== undefined) {
+          positionVertices += Math.floor(length / itemSize);
+        }
+      }
+      if (name === "requestAnimationFrame" || name === "setAnimationLoop") {
+        hasAnimationFrame = true;
+      }
+      if (name === "render") {
+        hasRenderCall = true;
+      }
+    },
+    NewExpression: (expr, _state, ancestors) => {
+      const name = calleeName(expr.callee);
+      if (name && DRAWABLE_CLASSES.has(name)) {
+        costs.drawCalls += loopMultiplier(ancestors, constants);
+      }
+      if (name === "Points") {
+        hasPoints = true;
+      }
+      if (name && /^[A-Z]\w*Light$/.test(name)) {
+        costs.lights += loopMultiplier(ancestors, constants);
+      }
+      const segmentArgs = name ? GEOMETRY_SEGMENT_ARGS.get(name) : undefined;
+      if (segmentArgs) {
+        const counts = segmentArgs.indices.map((index, i) =>
+          expr.arguments[index] === undefined ? segmentArgs.defaults[i] : resolveNumber(expr.arguments[index], constants)
+        );
+        if (counts.every((c): c is number => c !== undefined)) {
+          const segments = counts.reduce((product, c) => product * c, 1);
+          if (!largestGeometry || segments > largestGeometry.segments) {
+            largestGeometry = { segments, node: expr };
+          }
+        }
+      }
+      if (name === "OrbitControls") {
+        hasOrbitControls = true;
+      }
+      if (name === "WebGLRenderer") {
+        rendererCount++;
+        if (!hasObjectKey(expr.arguments[0], "canvas")) {
+          report(
+            "error",
+            "renderer-canvas",
+            "WebGLRenderer must be created with the provided canvas: new THREE.WebGLRenderer({ canvas, ... })",
+            expr
+          );
+        }
+      }
+      const materialOptions = expr.arguments[0];
+      if ((name === "ShaderMaterial" || name === "RawShaderMaterial") && materialOptions?.type === "ObjectExpression") {
+        for (const property of materialOptions.properties) {
+          if (property.type !== "Property" || property.key.type !== "Identifier") continue;
+          const stage = SHADER_PROPERTIES.get(property.key.name);
+          const source = stage ? resolveString(property.value, constants) : undefined;
+          if (!stage || source === undefined) continue;
+          for (const issue of validateShaderSource(source, stage)) {
+            report("error", issue.rule, issue.message, property.value);
+          }
+        }
+      }
+      if (name && NETWORK_LOADERS.has(name)) {
+        report(
+          "warning",
+          "network-loader",
+          `${name} fetches remote resources, which the widget CSP blocks`,
+          expr
+        );
+      }
+    },
+  });
+
+  if (rendererCount === 0) {
+    report("error", "missing-renderer", "No THREE.WebGLRenderer is created");
+  } else if (rendererCount > 1) {
+    report("warning", "multiple-renderers", `${rendererCount} WebGLRenderers are created; use one`);
+  }
+  if (!hasAnimationFrame) {
+    report("error", "missing-render-loop", "No animation loop: call requestAnimationFrame(animate) inside animate()");
+  }
+  if (!hasRenderCall) {
+    report("error", "missing-render-call", "No renderer.render() or composer.render() call");
+  }
+  if (!hasOrbitControls) {
+    report("error", "missing-orbit-controls", "OrbitControls must be created for user exploration");
+  }
+
+  const { budget } = options;
+  if (budget) {
+    costs.particles = hasPoints ? positionVertices : 0;
+    const checks: [BudgetMetric, number, number, string, Node?][] = [
+      ["drawCalls", costs.drawCalls, budget.maxDrawCalls, "use fewer meshes, or merge repeated shapes into an InstancedMesh"],
+      ["particles", costs.particles, budget.maxParticles, "use fewer particles"],
+      ["geometrySegments", largestGeometry?.segments ?? 0, budget.maxGeometrySegments, "lower the geometry's segment counts", largestGeometry?.node],
+      ["lights", costs.lights, budget.maxLights, "remove lights"],
+      ["postPasses", costs.postPasses, budget.maxPostPasses, "remove post-processing passes"],
+    ];
+    for (const [metric, value, limit, fix, node] of checks) {
+      if (value > limit) {
+        report(
+          "error",
+          "performance-budget",
+          `${formatBudgetViolation({ metric, value, limit })} exceeds the complexity ${budget.complexity} budget; ${fix}`,
+          node
+        );
+      }
+    }
+  }
+
+  return {
+    valid: !diagnostics.some((d) => d.severity === "error"),
+    diagnostics,
+  };
+}
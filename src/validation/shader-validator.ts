@@ -0,0 +1,76 @@
+/**
+ * GLSL Shader Source Checks
+ *
+ * Static checks for the vertex/fragment sources of ShaderMaterials in
+ * generated code. There is no GLSL compiler on the server, so these catch
+ * the mistakes models actually make (missing main, unbalanced braces,
+ * calling a chunk function without including the chunk) before the widget
+ * would show a black canvas. Compile errors that slip through are reported
+ * by the widget.
+ *
+ * @module validation/shader-validator
+ */
+
+import { GLSL_CHUNK_NAMES, GLSL_CHUNKS, chunkFunctionName } from "../shaders/glsl-chunks";
+
+export type ShaderStage = "vertex" | "fragment";
+
+export interface ShaderIssue {
+  rule: string;
+  message: string;
+}
+
+const BRACKET_PAIRS: [open: string, close: string][] = [
+  ["{", "}"],
+  ["(", ")"],
+];
+
+/**
+ * Checks a shader source with its GLSL chunks already substituted
+ */
+export function validateShaderSource(source: string, stage: ShaderStage): ShaderIssue[] {
+  const issues: ShaderIssue[] = [];
+  const glsl = stripComments(source);
+
+  if (!/\bvoid\s+main\s*\(/.test(glsl)) {
+    issues.push({ rule: "shader-missing-main", message: `The ${stage} shader has no void main()` });
+  }
+
+  for (const [open, close] of BRACKET_PAIRS) {
+    const opened = glsl.split(open).length - 1;
+    const closed = glsl.split(close).length - 1;
+    if (opened !== closed) {
+      issues.push({
+        rule: "shader-unbalanced",
+        message: `The ${stage} shader has ${opened} '${open}' but ${closed} '${close}'`,
+      });
+    }
+  }
+
+  if (stage === "fragment" && !/\bgl_FragColor\b/.test(glsl) && !/\bout\s+(highp\s+|mediump\s+|lowp\s+)?vec4\b/.test(glsl)) {
+    issues.push({
+      rule: "shader-missing-output",
+      message: "The fragment shader never writes gl_FragColor",
+    });
+  }
+
+  for (const name of GLSL_CHUNK_NAMES) {
+    for (const signature of GLSL_CHUNKS[name].signatures) {
+      const fn = chunkFunctionName(signature);
+      const called = new RegExp(`\\b${fn}\\s*\\(`).test(glsl);
+      const defined = new RegExp(`\\b(?:float|vec[234]|mat[234])\\s+${fn}\\s*\\(`).test(glsl);
+      if (called && !defined) {
+        issues.push({
+          rule: "shader-missing-chunk",
+          message: `The ${stage} shader calls ${fn}() without including \${GLSL.${name}}`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+function stripComments(source: string): string {
+  return source.replace(/\/\*[\s\S]*?\*\//g, "").replace(/\/\/.*$/gm, "");
+}
@@ -0,0 +1,123 @@
+/**
+ * Sandbox checks of the generated code validator
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { validateThreeCode } from "../src/validation/code-validator";
+import { BUILTIN_EXEMPLARS } from "../src/exemplars/builtin";
+
+/** A scene passing every structural check, with `body` added to it */
+const scene = (body: string): string => `const scene = new THREE.Scene();
+const camera = new THREE.PerspectiveCamera(75, width / height, 0.1, 1000);
+const renderer = new THREE.WebGLRenderer({ canvas });
+const controls = new OrbitControls(camera, renderer.domElement);
+${body}
+function animate() {
+  requestAnimationFrame(animate);
+  controls.update();
+  renderer.render(scene, camera);
+}
+animate();`;
+
+const rules = (body: string): string[] =>
+  validateThreeCode(scene(body))
+    .diagnostics.filter((d) => d.severity === "error")
+    .map((d) => d.rule);
+
+describe("validateThreeCode sandbox", () => {
+  it("accepts the built-in exemplars", () => {
+    for (const exemplar of BUILTIN_EXEMPLARS) {
+      assert.deepEqual(validateThreeCode(exemplar.code).diagnostics, [], exemplar.id);
+    }
+  });
+
+  it("resolves shadowing per scope", () => {
+    assert.deepEqual(rules(`function f(fetch) { return fetch; }\nfetch("https://example.com");`), ["forbidden-global"]);
+    assert.deepEqual(rules(`{ const parent = 1; }\nparent;`), ["forbidden-global"]);
+    assert.deepEqual(rules(`try {} catch (top) {}\ntop;`), ["forbidden-global"]);
+    assert.deepEqual(rules(`const f = function self() { return self; };`), []);
+    assert.deepEqual(rules(`function g() { var top = 1; { return top; } }`), []);
+    assert.deepEqual(rules(`const parent = new THREE.Group();\nparent.add(new THREE.Group());`), []);
+  });
+
+  it("rejects with statements", () => {
+    assert.deepEqual(rules(`with (canvas) with (ownerDocument) { cookie; }`), ["forbidden-with", "forbidden-with"]);
+  });
+
+  it("rejects reflective access to forbidden properties", () => {
+    assert.ok(
+      rules(`const F = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(() => 0), "constructor").value;`).includes(
+        "forbidden-property"
+      )
+    );
+    assert.deepEqual(rules(`const { getPrototypeOf } = Object;`), ["forbidden-property"]);
+    assert.deepEqual(rules(`Object.defineProperty(scene, "x", { value: 1 });`), ["forbidden-property"]);
+    assert.deepEqual(rules(`Reflect.get(scene, "children");`), ["forbidden-global"]);
+  });
+
+  it("rejects this outside class bodies", () => {
+    assert.deepEqual(rules(`this.fetch("https://example.com");`), ["forbidden-this"]);
+    assert.deepEqual(rules(`function f() { return this; }`), ["forbidden-this"]);
+    assert.deepEqual(rules(`const f = () => this.location;`), ["forbidden-this"]);
+  });
+
+  it("accepts this inside class bodies", () => {
+    assert.deepEqual(
+      rules(`class Orb { constructor() { this.speed = 1; } tick() { return () => this.speed; } }`),
+      []
+    );
+  });
+
+  it("rejects reaching the host window through the canvas", () => {
+    assert.ok(rules(`canvas.ownerDocument.defaultView.fetch("https://example.com");`).includes("forbidden-property"));
+    assert.ok(rules(`canvas.getRootNode().defaultView;`).includes("forbidden-property"));
+    assert.ok(
+      rules(`renderer.domElement.ownerDocument.defaultView.parent["postMessage"]({}, "*");`).includes(
+        "forbidden-property"
+      )
+    );
+    assert.ok(rules(`const w = renderer.domElement.ownerDocument;`).includes("forbidden-property"));
+  });
+
+  it("rejects frame properties on any object", () => {
+    for (const name of ["parent", "top", "opener"]) {
+      assert.deepEqual(rules(`const frame = canvas.${name};`), ["forbidden-property"], name);
+    }
+  });
+
+  it("rejects computed keys that resolve to forbidden properties", () => {
+    assert.deepEqual(rules(`const F = scene['con' + 'structor'];`), ["forbidden-property"]);
+    assert.deepEqual(rules("const F = scene[`constructor`];"), ["forbidden-property"]);
+    assert.deepEqual(rules(`const key = 'constr' + 'uctor';\nconst F = scene[key];`), ["forbidden-property"]);
+    assert.deepEqual(rules(`const { constructor: F } = scene;`), ["forbidden-property"]);
+    assert.deepEqual(rules(`const { 'constructor': F } = scene;`), ["forbidden-property"]);
+  });
+
+  it("rejects computed keys that cannot be resolved statically", () => {
+    assert.deepEqual(rules(`const key = ['con', 'structor'].join('');\nconst F = scene[key];`), ["dynamic-property"]);
+    assert.deepEqual(rules(`let key = 'con';\nkey += 'structor';\nconst F = scene[key];`), ["dynamic-property"]);
+    assert.deepEqual(rules(`const pick = (o, k) => o[k];`), ["dynamic-property"]);
+    assert.deepEqual(rules(`for (const k in scene) scene[k];`), ["dynamic-property"]);
+    assert.deepEqual(rules(`const { [String(1)]: F } = scene;`), ["dynamic-property"]);
+  });
+
+  it("accepts numeric indices", () => {
+    assert.deepEqual(
+      rules(`const positions = new Float32Array(300);
+const colors = [0xff0000, 0x00ff00];
+let j = 0;
+for (let i = 0; i < 100; i++) {
+  const i3 = i * 3;
+  positions[i3] = positions[i3 + 1] + positions[i * 3 + 2];
+  positions[j++] = colors[i % colors.length];
+  j += 2;
+}
+const last = positions[positions.length - 1];
+const pick = colors[Math.floor(random() * colors.length)];
+const named = scene['children'];
+const label = camera.position.toString();`),
+      []
+    );
+  });
+});
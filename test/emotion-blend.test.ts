@@ -0,0 +1,81 @@
+/**
+ * Weighted emotion blends and the procedural scenes built from them
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildBlendedEmotionProfile, buildEmotionProfile } from "../src/emotion/visual-parameters";
+import { generateProceduralScene } from "../src/generation/procedural";
+
+describe("buildBlendedEmotionProfile", () => {
+  it("normalises weights, heaviest first", () => {
+    const profile = buildBlendedEmotionProfile([
+      { emotion: "anxiety", weight: 30 },
+      { emotion: "calm", weight: 70 },
+    ]);
+    assert.deepEqual(profile.blend, [
+      { emotion: "calm", weight: 0.7 },
+      { emotion: "anxiety", weight: 0.3 },
+    ]);
+  });
+
+  it("interpolates VAD and numeric parameters by weight", () => {
+    const calm = buildEmotionProfile("calm");
+    const anxiety = buildEmotionProfile("anxiety");
+    const blended = buildBlendedEmotionProfile([
+      { emotion: "calm", weight: 3 },
+      { emotion: "anxiety", weight: 1 },
+    ]);
+    const expected = (a: number, b: number) => Math.round((a * 0.75 + b * 0.25) * 100) / 100;
+
+    assert.equal(blended.vad.arousal, expected(calm.vad.arousal, anxiety.vad.arousal));
+    assert.equal(blended.vad.valence, expected(calm.vad.valence, anxiety.vad.valence));
+    assert.equal(
+      blended.parameters.motionSpeed,
+      expected(calm.parameters.motionSpeed, anxiety.parameters.motionSpeed)
+    );
+  });
+
+  it("gives every component a palette slot", () => {
+    const calm = buildEmotionProfile("calm");
+    const rage = buildEmotionProfile("rage");
+    const blended = buildBlendedEmotionProfile([
+      { emotion: "calm", weight: 95 },
+      { emotion: "rage", weight: 5 },
+    ]);
+    assert.equal(blended.parameters.palette.length, 4);
+    assert.equal(blended.parameters.palette[0], calm.parameters.palette[0]);
+    assert.ok(blended.parameters.palette.includes(rage.parameters.palette[0]));
+  });
+});
+
+describe("generateProceduralScene with an emotion profile", () => {
+  it("uses the blended palette and background", () => {
+    const blended = buildBlendedEmotionProfile([
+      { emotion: "joy", weight: 1 },
+      { emotion: "grief", weight: 1 },
+    ]);
+    const spec = generateProceduralScene("joy", 5, 42, blended);
+
+    assert.equal(spec.background, blended.parameters.background);
+    for (const object of spec.objects) {
+      if (object.kind === "mesh" && object.material.wireframe === false) {
+        assert.ok(blended.parameters.palette.includes(object.material.color), object.id);
+      }
+    }
+  });
+
+  it("differs from the single emotion when blended", () => {
+    const single = generateProceduralScene("joy", 5, 42);
+    const blended = generateProceduralScene(
+      "joy",
+      5,
+      42,
+      buildBlendedEmotionProfile([
+        { emotion: "joy", weight: 1 },
+        { emotion: "melancholy", weight: 3 },
+      ])
+    );
+    assert.notDeepEqual(blended, single);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Generation cache keys: which request fields share an entry and which don't
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildGenerationCacheKey, normalizeEmotion } from "../src/generation/cache";
+import type { GenerateMoodSceneInput } from "../src/types";
+
+const key = (args: GenerateMoodSceneInput, complexity = 5, format = "spec") =>
+  buildGenerationCacheKey(args, complexity, format, "v1");
+
+describe("buildGenerationCacheKey", () => {
+  it("keeps the prompt version readable in the key", async () => {
+    const v1 = await buildGenerationCacheKey({ emotion: "peace" }, 5, "spec", "v1");
+    const v2 = await buildGenerationCacheKey({ emotion: "peace" }, 5, "spec", "v2");
+    assert.match(v1, /^scene:v1:[0-9a-f]{64}$/);
+    assert.match(v2, /^scene:v2:[0-9a-f]{64}$/);
+  });
+
+  it("shares an entry between spellings of the same emotion", async () => {
+    assert.equal(normalizeEmotion("  Peace!! "), "peace");
+    assert.equal(await key({ emotion: "Peace!" }), await key({ emotion: "  peace " }));
+  });
+
+  it("ignores the order of blend components", async () => {
+    const calm = { emotion: "calm", weight: 0.7 };
+    const awe = { emotion: "Awe", weight: 0.3 };
+    assert.equal(
+      await key({ emotion: "calm awe", blend: [calm, awe] }),
+      await key({ emotion: "calm awe", blend: [{ ...awe, emotion: "awe" }, calm] })
+    );
+  });
+
+  it("separates requests that generate different scenes", async () => {
+    const base = await key({ emotion: "peace" });
+    const variants = await Promise.all([
+      key({ emotion: "joy" }),
+      key({ emotion: "peace" }, 6),
+      key({ emotion: "peace" }, 5, "code"),
+      key({ emotion: "peace", style: "low-poly" }),
+      key({ emotion: "peace", seed: 42 }),
+      key({ emotion: "peace", audioReactive: true }),
+      key({ emotion: "peace", caption: "morning" }),
+      key({ emotion: "peace", blend: [{ emotion: "peace", weight: 0.6 }, { emotion: "joy", weight: 0.4 }] }),
+    ]);
+    for (const variant of variants) assert.notEqual(variant, base);
+    assert.equal(new Set(variants).size, variants.length);
+  });
+
+  it("does not key on request fields that only affect presentation", async () => {
+    assert.equal(
+      await key({ emotion: "peace" }),
+      await key({ emotion: "peace", height: 800, width: 400, fresh: true })
+    );
+  });
+});
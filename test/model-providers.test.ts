@@ -0,0 +1,107 @@
+/**
+ * Model clients: fallback through the model chain and the stub provider
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createModelClient, ModelUnavailableError, type CompletionRequest } from "../src/models/providers";
+import { generateProceduralScene } from "../src/generation/procedural";
+import type { Env } from "../src/types";
+
+const LLAMA = "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
+const SCOUT = "@cf/meta/llama-4-scout-17b-16e-instruct";
+const QWEN = "@cf/qwen/qwen2.5-coder-32b-instruct";
+
+const request: CompletionRequest = {
+  messages: [{ role: "user", content: "peace" }],
+  max_tokens: 8192,
+  seed: 7,
+  subject: { emotion: "peace", complexity: 5 },
+};
+
+/**
+ * Workers AI binding whose models answer with their id, except the failing ones
+ */
+function fakeAi(failing: string[] = []) {
+  const calls: { model: string; inputs: Record<string, unknown> }[] = [];
+  const ai = {
+    async run(model: string, inputs: Record<string, unknown>) {
+      calls.push({ model, inputs });
+      if (failing.includes(model)) throw new Error(`${model} unavailable`);
+      return { response: `from ${model}` };
+    },
+  };
+  return { ai, calls };
+}
+
+const envWith = (ai: unknown, vars: Partial<Env> = {}) => ({ AI: ai, ...vars }) as unknown as Env;
+
+describe("createModelClient", () => {
+  it("answers from the first model that succeeds", async () => {
+    const { ai, calls } = fakeAi([LLAMA]);
+    const completion = await createModelClient(envWith(ai)).complete(request);
+
+    assert.deepEqual(calls.map((c) => c.model), [LLAMA, SCOUT]);
+    assert.equal(completion.text, `from ${SCOUT}`);
+    assert.equal(completion.model, SCOUT);
+    // Parameters are the answering model's, with max_tokens lowered to its cap
+    assert.deepEqual(completion.parameters, { max_tokens: 4096, temperature: 0.5, seed: 7 });
+  });
+
+  it("throws ModelUnavailableError with the last error when every model fails", async () => {
+    const { ai, calls } = fakeAi([LLAMA, SCOUT]);
+    await assert.rejects(createModelClient(envWith(ai)).complete(request), (error: unknown) => {
+      assert.ok(error instanceof ModelUnavailableError);
+      assert.equal(error.message, `${SCOUT} unavailable`);
+      assert.ok(error.lastError instanceof Error);
+      return true;
+    });
+    assert.equal(calls.length, 2);
+  });
+
+  it("tries a pinned model alone", async () => {
+    const { ai, calls } = fakeAi([QWEN]);
+    await assert.rejects(createModelClient(envWith(ai), QWEN).complete(request), ModelUnavailableError);
+    assert.deepEqual(calls.map((c) => c.model), [QWEN]);
+  });
+
+  it("only tries JSON-mode models for a JSON schema", async () => {
+    const { ai, calls } = fakeAi();
+    const env = envWith(ai, { AI_MODELS: `${QWEN}, ${SCOUT}` });
+    const completion = await createModelClient(env).complete({ ...request, jsonSchema: { type: "object" } });
+
+    assert.equal(completion.model, SCOUT);
+    assert.equal(completion.parameters.response_format, "json_schema");
+    assert.deepEqual(calls[0].inputs.response_format, { type: "json_schema", json_schema: { type: "object" } });
+  });
+
+  it("rejects a JSON schema when no model in the chain supports it", async () => {
+    const { ai, calls } = fakeAi();
+    await assert.rejects(
+      createModelClient(envWith(ai), QWEN).complete({ ...request, jsonSchema: {} }),
+      /support JSON output/
+    );
+    assert.equal(calls.length, 0);
+  });
+
+  it("throws ModelUnavailableError without an AI binding", () => {
+    assert.throws(() => createModelClient({} as Env), ModelUnavailableError);
+  });
+});
+
+describe("stub provider", () => {
+  const env = { AI_PROVIDER: "stub" } as Env;
+
+  it("answers specs from the procedural generator", async () => {
+    const completion = await createModelClient(env).complete({ ...request, jsonSchema: {} });
+    assert.equal(completion.model, "stub");
+    assert.equal(completion.text, JSON.stringify(generateProceduralScene("peace", 5, 7)));
+  });
+
+  it("answers code with an exemplar and streams it", async () => {
+    const tokens: string[] = [];
+    const completion = await createModelClient(env).complete({ ...request, onToken: (text) => void tokens.push(text) });
+    assert.ok(completion.text.length > 0);
+    assert.deepEqual(tokens, [completion.text]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Performance budgets per complexity level and spec downgrading to fit them
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  fitSpecToBudget,
+  formatBudgetViolation,
+  getPerformanceBudget,
+} from "../src/generation/performance-budget";
+import { parseMoodSceneSpec, type MoodSceneSpec } from "../src/schemas/scene-spec";
+
+const heavySpec = parseMoodSceneSpec({
+  version: 1,
+  lights: [
+    { type: "ambient" },
+    { type: "directional", position: [1, 1, 1] },
+    { type: "point", position: [0, 2, 0] },
+    { type: "point", position: [0, -2, 0] },
+    { type: "hemisphere" },
+  ],
+  objects: [
+    { kind: "mesh", id: "orbs", geometry: { type: "sphere", detail: 32 }, material: { color: "#88ccff" }, count: 60 },
+    { kind: "mesh", id: "cubes", geometry: { type: "box", detail: 16 }, material: { color: "#ff8866" }, count: 40 },
+    { kind: "particles", count: 3000, color: "#ffffff" },
+    { kind: "particles", count: 1000, color: "#ffeeaa" },
+    { kind: "text", text: "calm", material: { color: "#ffffff" } },
+  ],
+});
+
+const drawCalls = (spec: MoodSceneSpec) =>
+  spec.objects.reduce((sum, o) => sum + (o.kind === "mesh" ? o.count : 1), 0);
+const particles = (spec: MoodSceneSpec) =>
+  spec.objects.reduce((sum, o) => sum + (o.kind === "particles" ? o.count : 0), 0);
+
+describe("getPerformanceBudget", () => {
+  it("clamps and rounds the complexity to 1-10", () => {
+    assert.deepEqual(getPerformanceBudget(0), getPerformanceBudget(1));
+    assert.deepEqual(getPerformanceBudget(42), getPerformanceBudget(10));
+    assert.equal(getPerformanceBudget(4.6).complexity, 5);
+  });
+
+  it("never shrinks as the complexity rises", () => {
+    for (let level = 2; level <= 10; level++) {
+      const lower = getPerformanceBudget(level - 1);
+      const budget = getPerformanceBudget(level);
+      assert.ok(budget.maxDrawCalls > lower.maxDrawCalls);
+      assert.ok(budget.maxParticles > lower.maxParticles);
+      assert.ok(budget.maxGeometrySegments > lower.maxGeometrySegments);
+      assert.ok(budget.maxLights >= lower.maxLights);
+      assert.ok(budget.maxPostPasses >= lower.maxPostPasses);
+    }
+  });
+
+  it("formats violations for explanations", () => {
+    assert.equal(
+      formatBudgetViolation({ metric: "drawCalls", value: 412, limit: 95 }),
+      "412 draw calls (max 95)"
+    );
+  });
+});
+
+describe("fitSpecToBudget", () => {
+  it("returns a spec within budget unchanged", () => {
+    const { spec, adjustments } = fitSpecToBudget(heavySpec, getPerformanceBudget(10));
+    assert.equal(spec, heavySpec);
+    assert.deepEqual(adjustments, []);
+  });
+
+  it("downgrades an over-budget spec until it fits", () => {
+    const budget = getPerformanceBudget(1);
+    const { spec, adjustments } = fitSpecToBudget(heavySpec, budget);
+
+    assert.ok(drawCalls(spec) <= budget.maxDrawCalls);
+    assert.ok(particles(spec) <= budget.maxParticles);
+    assert.equal(spec.lights.length, budget.maxLights);
+    assert.deepEqual(spec.lights, heavySpec.lights.slice(0, budget.maxLights));
+    assert.equal(adjustments.length, 4);
+    // The result is still a valid spec
+    assert.deepEqual(parseMoodSceneSpec(spec), spec);
+  });
+
+  it("lowers round geometry detail to the segment limit", () => {
+    const budget = getPerformanceBudget(1);
+    const { spec, adjustments } = fitSpecToBudget(heavySpec, budget);
+    const [orbs, cubes] = spec.objects;
+
+    assert.ok(orbs.kind === "mesh" && cubes.kind === "mesh");
+    // A sphere has detail × 2 × detail segments
+    assert.ok(orbs.geometry.detail * 2 * orbs.geometry.detail <= budget.maxGeometrySegments);
+    assert.ok((orbs.geometry.detail + 1) * 2 * (orbs.geometry.detail + 1) > budget.maxGeometrySegments);
+    assert.equal(cubes.geometry.detail, 16);
+    assert.ok(adjustments.includes(`orbs detail lowered from 32 to ${orbs.geometry.detail}`));
+  });
+
+  it("keeps every group and the text whole", () => {
+    const { spec } = fitSpecToBudget(heavySpec, getPerformanceBudget(1));
+
+    assert.equal(spec.objects.length, heavySpec.objects.length);
+    assert.deepEqual(spec.objects[4], heavySpec.objects[4]);
+    for (const object of spec.objects) {
+      if (object.kind !== "text") assert.ok(object.count >= 1);
+    }
+  });
+
+  it("keeps one instance per group when groups alone exceed the budget", () => {
+    const crowded = parseMoodSceneSpec({
+      version: 1,
+      lights: [{ type: "ambient" }],
+      objects: Array.from({ length: 24 }, () => ({
+        kind: "mesh",
+        geometry: { type: "box" },
+        material: { color: "#ffffff" },
+        count: 200,
+      })),
+    });
+    const { spec } = fitSpecToBudget(crowded, getPerformanceBudget(1));
+    assert.ok(spec.objects.every((o) => o.kind === "mesh" && o.count === 1));
+  });
+});
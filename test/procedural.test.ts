@@ -0,0 +1,46 @@
+/**
+ * Procedural scenes: the same request and seed always build the same scene
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateProceduralScene } from "../src/generation/procedural";
+import { parseMoodSceneSpec } from "../src/schemas/scene-spec";
+
+describe("generateProceduralScene", () => {
+  it("builds the same spec for the same seed", () => {
+    for (const emotion of ["peace", "chaos", "nostalgia"]) {
+      assert.deepEqual(generateProceduralScene(emotion, 6, 1234), generateProceduralScene(emotion, 6, 1234));
+    }
+  });
+
+  it("builds a different spec for another seed", () => {
+    assert.notDeepEqual(generateProceduralScene("peace", 6, 1234), generateProceduralScene("peace", 6, 1235));
+  });
+
+  it("does not draw on Math.random", () => {
+    const expected = generateProceduralScene("energy", 5, 99);
+    const random = Math.random;
+    Math.random = () => {
+      throw new Error("Math.random called");
+    };
+    try {
+      assert.deepEqual(generateProceduralScene("energy", 5, 99), expected);
+    } finally {
+      Math.random = random;
+    }
+  });
+
+  it("builds a valid spec with the complexity's instance count", () => {
+    for (const complexity of [1, 5, 10]) {
+      const spec = generateProceduralScene("joy", complexity, 7);
+      assert.deepEqual(parseMoodSceneSpec(spec), spec);
+
+      const instances = spec.objects.reduce(
+        (sum, o) => sum + (o.kind === "mesh" && !o.id?.endsWith("-centerpiece") ? o.count : 0),
+        0
+      );
+      assert.equal(instances, Math.floor(5 + complexity * 2));
+    }
+  });
+});
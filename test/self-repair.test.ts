@@ -0,0 +1,117 @@
+/**
+ * Self-repair loop: repairs rejected code, retries other failures
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { runWithSelfRepair, SelfRepairExhaustedError } from "../src/generation/self-repair";
+import { CodeValidationError, type CodeDiagnostic } from "../src/validation/code-validator";
+import { seedForAttempt } from "../src/generation/seed";
+
+const diagnostic: CodeDiagnostic = { severity: "error", rule: "missing-render-loop", message: "No animation loop" };
+
+describe("runWithSelfRepair", () => {
+  it("returns the first success with its attempt history", async () => {
+    const { value, attempts } = await runWithSelfRepair("test", { generate: async () => "scene" }, 2);
+    assert.equal(value, "scene");
+    assert.deepEqual(
+      attempts.map((a) => [a.attempt, a.reason, a.outcome]),
+      [[1, "initial", "success"]]
+    );
+  });
+
+  it("repairs rejected code with its diagnostics and the attempt number", async () => {
+    const repairs: [string, CodeDiagnostic[], number][] = [];
+    const { value, attempts } = await runWithSelfRepair(
+      "test",
+      {
+        generate: async () => {
+          throw new CodeValidationError([diagnostic], "broken");
+        },
+        repair: async (code, diagnostics, attempt) => {
+          repairs.push([code, diagnostics, attempt]);
+          if (attempt < 3) throw new CodeValidationError([diagnostic], `${code}+${attempt}`);
+          return "fixed";
+        },
+      },
+      2
+    );
+
+    assert.equal(value, "fixed");
+    assert.deepEqual(repairs, [
+      ["broken", [diagnostic], 2],
+      ["broken+2", [diagnostic], 3],
+    ]);
+    assert.deepEqual(
+      attempts.map((a) => [a.reason, a.outcome]),
+      [
+        ["initial", "rejected"],
+        ["repair: missing-render-loop", "rejected"],
+        ["repair: missing-render-loop", "success"],
+      ]
+    );
+    assert.deepEqual(attempts[0].diagnostics, [diagnostic]);
+  });
+
+  it("retries the original step after other failures", async () => {
+    const generated: number[] = [];
+    const { value, attempts } = await runWithSelfRepair(
+      "test",
+      {
+        generate: async (attempt) => {
+          generated.push(attempt);
+          if (attempt === 1) throw new Error("Empty response");
+          return "scene";
+        },
+        repair: async () => assert.fail("failures without code are not repaired"),
+      },
+      1
+    );
+
+    assert.equal(value, "scene");
+    assert.deepEqual(generated, [1, 2]);
+    assert.deepEqual(
+      attempts.map((a) => [a.reason, a.outcome]),
+      [
+        ["initial", "failed"],
+        ["retry: Empty response", "success"],
+      ]
+    );
+  });
+
+  it("throws SelfRepairExhaustedError with every attempt and the last error", async () => {
+    const last = new Error("still failing");
+    await assert.rejects(
+      runWithSelfRepair(
+        "test",
+        {
+          generate: async (attempt) => {
+            throw attempt === 3 ? last : new Error(`failure ${attempt}`);
+          },
+        },
+        2
+      ),
+      (error: unknown) => {
+        assert.ok(error instanceof SelfRepairExhaustedError);
+        assert.equal(error.attempts.length, 3);
+        assert.equal(error.lastError, last);
+        return true;
+      }
+    );
+  });
+
+  it("makes no repairs with a budget of zero", async () => {
+    await assert.rejects(
+      runWithSelfRepair("test", { generate: async () => Promise.reject(new Error("nope")) }, 0),
+      SelfRepairExhaustedError
+    );
+  });
+});
+
+describe("seedForAttempt", () => {
+  it("keeps the seed on the first attempt and varies it after", () => {
+    assert.equal(seedForAttempt(42, 1), 42);
+    assert.equal(seedForAttempt(42, 2), 43);
+    assert.equal(seedForAttempt(4294967295, 2), 1);
+  });
+});
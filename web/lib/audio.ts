@@ -0,0 +1,205 @@
+/**
+ * Scene Audio
+ *
+ * Audio-reactive scenes read smoothed bass/mid/treble levels from the
+ * `audio` global. The levels come from one of two sources, both started by
+ * the user from the widget (browsers only allow audio after a gesture):
+ * - synth: an ambient track tuned to the scene's emotion - chord quality
+ *   from valence, pulse rate from arousal
+ * - microphone: analysed locally, never played back or sent anywhere
+ */
+
+import { createSeededRandom } from './prng';
+
+export type AudioSourceKind = 'synth' | 'microphone';
+
+/**
+ * Levels read by scene code, 0-1; all 0 while no source plays
+ */
+export interface AudioLevels {
+  bass: number;
+  mid: number;
+  treble: number;
+  /** Overall loudness */
+  level: number;
+  active: boolean;
+}
+
+/** Emotion coordinates (-1 to 1) tuning the synthesized track */
+export interface AudioMood {
+  valence: number;
+  arousal: number;
+}
+
+export interface SceneAudio {
+  /** Updated in place every frame; hand this object to scene code */
+  readonly levels: AudioLevels;
+  readonly source: AudioSourceKind | null;
+  /**
+   * Replaces the current source
+   *
+   * @throws When Web Audio is unavailable or the microphone is denied
+   */
+  start(kind: AudioSourceKind, mood: AudioMood): Promise<void>;
+  stop(): void;
+}
+
+/** Frequency range (Hz) of each band */
+const BANDS = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 8000],
+} as const;
+
+/** Smoothing per frame: levels rise quickly and fall slowly */
+const ATTACK = 0.5;
+const RELEASE = 0.08;
+
+const SYNTH_VOLUME = 0.12;
+
+/** Root of the synthesized chord: A2 */
+const SYNTH_ROOT_HZ = 110;
+
+/**
+ * Creates the audio engine; no AudioContext exists until `start`
+ */
+export function createSceneAudio(): SceneAudio {
+  const levels: AudioLevels = { bass: 0, mid: 0, treble: 0, level: 0, active: false };
+  let context: AudioContext | null = null;
+  let stream: MediaStream | null = null;
+  let source: AudioSourceKind | null = null;
+  let frameId = 0;
+
+  const stop = () => {
+    cancelAnimationFrame(frameId);
+    stream?.getTracks().forEach((track) => track.stop());
+    stream = null;
+    void context?.close();
+    context = null;
+    source = null;
+    Object.assign(levels, { bass: 0, mid: 0, treble: 0, level: 0, active: false });
+  };
+
+  return {
+    levels,
+    get source() {
+      return source;
+    },
+    async start(kind, mood) {
+      stop();
+      const ctx = new AudioContext();
+      context = ctx;
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = 1024;
+      analyser.smoothingTimeConstant = 0.6;
+
+      try {
+        if (kind === 'microphone') {
+          const microphone = await navigator.mediaDevices.getUserMedia({ audio: true });
+          // A later start or stop took over while permission was pending
+          if (context !== ctx) {
+            microphone.getTracks().forEach((track) => track.stop());
+            return;
+          }
+          stream = microphone;
+          ctx.createMediaStreamSource(microphone).connect(analyser);
+        } else {
+          playAmbientTrack(ctx, analyser, mood);
+          analyser.connect(ctx.destination);
+        }
+        await ctx.resume();
+      } catch (e) {
+        if (context === ctx) stop();
+        throw e;
+      }
+
+      source = kind;
+      levels.active = true;
+      const bins = new Uint8Array(analyser.frequencyBinCount);
+      const binHz = ctx.sampleRate / analyser.fftSize;
+      const bandLevel = ([low, high]: readonly [number, number]) => {
+        const first = Math.max(1, Math.floor(low / binHz));
+        const last = Math.min(bins.length - 1, Math.ceil(high / binHz));
+        let sum = 0;
+        for (let i = first; i <= last; i++) sum += bins[i];
+        return last >= first ? sum / (last - first + 1) / 255 : 0;
+      };
+      const smooth = (current: number, target: number) =>
+        current + (target - current) * (target > current ? ATTACK : RELEASE);
+
+      const tick = () => {
+        frameId = requestAnimationFrame(tick);
+        analyser.getByteFrequencyData(bins);
+        levels.bass = smooth(levels.bass, bandLevel(BANDS.bass));
+        levels.mid = smooth(levels.mid, bandLevel(BANDS.mid));
+        levels.treble = smooth(levels.treble, bandLevel(BANDS.treble));
+        levels.level = (levels.bass + levels.mid + levels.treble) / 3;
+      };
+      tick();
+    },
+    stop,
+  };
+}
+
+/**
+ * Starts an ambient track in every band: a pulsing sub bass, a swelling
+ * chord pad and high filtered noise
+ */
+function playAmbientTrack(ctx: AudioContext, output: AudioNode, mood: AudioMood): void {
+  const intervals = mood.valence >= 0 ? [0, 4, 7, 11] : [0, 3, 7, 10];
+  // Pleasant moods sit up to three semitones higher
+  const root = SYNTH_ROOT_HZ * 2 ** (Math.round(mood.valence * 3) / 12);
+  // 0.5 Hz when calm, 3 Hz when excited
+  const pulseRate = 0.5 + (mood.arousal + 1) * 1.25;
+
+  const master = ctx.createGain();
+  master.gain.value = SYNTH_VOLUME;
+  master.connect(output);
+
+  const modulate = (param: AudioParam, rate: number, depth: number) => {
+    const lfo = ctx.createOscillator();
+    lfo.frequency.value = rate;
+    const amount = ctx.createGain();
+    amount.gain.value = depth;
+    lfo.connect(amount).connect(param);
+    lfo.start();
+  };
+
+  const bass = ctx.createOscillator();
+  bass.frequency.value = root / 2;
+  const bassGain = ctx.createGain();
+  bassGain.gain.value = 0.5;
+  modulate(bassGain.gain, pulseRate, 0.5);
+  bass.connect(bassGain).connect(master);
+  bass.start();
+
+  const pad = ctx.createGain();
+  pad.gain.value = 0.25;
+  modulate(pad.gain, pulseRate / 8, 0.15);
+  pad.connect(master);
+  for (const interval of intervals) {
+    const voice = ctx.createOscillator();
+    voice.type = 'triangle';
+    voice.frequency.value = root * 2 * 2 ** (interval / 12);
+    voice.detune.value = (interval % 2 === 0 ? 1 : -1) * 4;
+    voice.connect(pad);
+    voice.start();
+  }
+
+  // Noise from a fixed-seed generator: Math.random belongs to the scene
+  const random = createSeededRandom(1);
+  const buffer = ctx.createBuffer(1, ctx.sampleRate * 2, ctx.sampleRate);
+  const samples = buffer.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) samples[i] = random() * 2 - 1;
+  const noise = ctx.createBufferSource();
+  noise.buffer = buffer;
+  noise.loop = true;
+  const highpass = ctx.createBiquadFilter();
+  highpass.type = 'highpass';
+  highpass.frequency.value = 3000;
+  const shimmer = ctx.createGain();
+  shimmer.gain.value = 0.06;
+  modulate(shimmer.gain, pulseRate * 1.5, 0.05);
+  noise.connect(highpass).connect(shimmer).connect(master);
+  noise.start();
+}
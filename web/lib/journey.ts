@@ -0,0 +1,182 @@
+/**
+ * Mood Journey Playback
+ *
+ * Plays a journey's keyframes on a spec scene. The timeline is a clock the
+ * widget can pause and scrub; every frame the interpreter samples the look
+ * at the timeline's position and applies it: material colors follow the
+ * stage palettes, lights, background and fog follow the stage lighting, and
+ * motion and bloom are scaled relative to the journey's average.
+ *
+ * Each stage holds its own look, then spends the last part of its duration
+ * (the transition ratio) morphing into the next stage.
+ */
+
+import * as THREE from 'three';
+import type { MoodJourney } from '../../src/generation/journey';
+
+/**
+ * The interpolated look at one moment of a journey
+ */
+export interface JourneyLook {
+  palette: THREE.Color[];
+  background: THREE.Color;
+  motionSpeed: number;
+  lightIntensity: number;
+  bloomStrength: number;
+  /** Index of the stage playing */
+  stage: number;
+}
+
+export interface JourneyTimeline {
+  readonly journey: MoodJourney;
+  /** Position in seconds */
+  time(): number;
+  isPlaying(): boolean;
+  play(): void;
+  pause(): void;
+  seek(seconds: number): void;
+  /** The look at the current position */
+  look(): JourneyLook;
+}
+
+/** Per-frame scale factors the interpreter applies itself */
+export interface JourneyFrame {
+  /** Multiplier for behaviour speeds */
+  motion: number;
+  /** Multiplier for the spec's bloom strength */
+  bloom: number;
+}
+
+/**
+ * Creates a timeline that starts playing from the first stage
+ */
+export function createJourneyTimeline(journey: MoodJourney): JourneyTimeline {
+  const { keyframes, duration, loop, transitionRatio } = journey;
+  const palettes = keyframes.map((k) => k.palette.map((hex) => new THREE.Color(hex)));
+  const backgrounds = keyframes.map((k) => new THREE.Color(k.background));
+
+  let offset = 0;
+  let startedAt = performance.now();
+  let playing = true;
+
+  const wrap = (seconds: number) =>
+    loop ? ((seconds % duration) + duration) % duration : Math.min(Math.max(seconds, 0), duration);
+  const time = () => (playing ? wrap(offset + (performance.now() - startedAt) / 1000) : offset);
+
+  const lookAt = (seconds: number): JourneyLook => {
+    let stage = keyframes.findIndex((k) => seconds < k.start + k.duration);
+    if (stage === -1) stage = keyframes.length - 1;
+    const current = keyframes[stage];
+    const nextStage = stage + 1 < keyframes.length ? stage + 1 : loop ? 0 : stage;
+    const next = keyframes[nextStage];
+
+    const local = Math.min(1, (seconds - current.start) / current.duration);
+    const hold = 1 - transitionRatio;
+    const mix = local <= hold ? 0 : THREE.MathUtils.smoothstep((local - hold) / transitionRatio, 0, 1);
+    const lerp = (a: number, b: number) => a + (b - a) * mix;
+
+    return {
+      palette: palettes[stage].map((color, i) =>
+        new THREE.Color().lerpColors(color, palettes[nextStage][i] ?? color, mix)
+      ),
+      background: new THREE.Color().lerpColors(backgrounds[stage], backgrounds[nextStage], mix),
+      motionSpeed: lerp(current.motionSpeed, next.motionSpeed),
+      lightIntensity: lerp(current.lightIntensity, next.lightIntensity),
+      bloomStrength: lerp(current.bloomStrength, next.bloomStrength),
+      stage,
+    };
+  };
+
+  return {
+    journey,
+    time,
+    isPlaying: () => playing,
+    play() {
+      if (playing) return;
+      if (!loop && offset >= duration) offset = 0;
+      startedAt = performance.now();
+      playing = true;
+    },
+    pause() {
+      offset = time();
+      playing = false;
+    },
+    seek(seconds) {
+      offset = wrap(seconds);
+      startedAt = performance.now();
+    },
+    look: () => lookAt(time()),
+  };
+}
+
+/**
+ * Binds a timeline to a built spec scene
+ *
+ * Each material color and emissive color is matched to the nearest palette
+ * slot of any stage, and follows that slot from then on. Light intensity,
+ * motion and bloom are scaled by the stage's value over the duration-weighted
+ * average, which is what the scene was generated for.
+ *
+ * @returns Applies the current look; call once per frame
+ */
+export function bindJourney(
+  timeline: JourneyTimeline,
+  scene: THREE.Scene,
+  renderer: THREE.WebGLRenderer
+): () => JourneyFrame {
+  const { keyframes, duration } = timeline.journey;
+  const average = (value: (k: (typeof keyframes)[number]) => number) =>
+    keyframes.reduce((sum, k) => sum + value(k) * k.duration, 0) / duration || 1;
+  const baseMotion = average((k) => k.motionSpeed);
+  const baseLight = average((k) => k.lightIntensity);
+  const baseBloom = average((k) => k.bloomStrength);
+
+  const stageColors = keyframes.flatMap((k) => k.palette.map((hex, slot) => ({ color: new THREE.Color(hex), slot })));
+  const nearestSlot = (color: THREE.Color) => {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (const candidate of stageColors) {
+      const distance =
+        (candidate.color.r - color.r) ** 2 + (candidate.color.g - color.g) ** 2 + (candidate.color.b - color.b) ** 2;
+      if (distance < bestDistance) {
+        best = candidate.slot;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  };
+
+  const tinted: { color: THREE.Color; slot: number }[] = [];
+  const lights: { light: THREE.Light; intensity: number }[] = [];
+  const seen = new Set<THREE.Material>();
+  scene.traverse((object) => {
+    if (object instanceof THREE.Light) {
+      lights.push({ light: object, intensity: object.intensity });
+    }
+    if (object instanceof THREE.Mesh || object instanceof THREE.Points) {
+      const materials: THREE.Material[] = Array.isArray(object.material) ? object.material : [object.material];
+      for (const material of materials) {
+        if (seen.has(material)) continue;
+        seen.add(material);
+        const { color, emissive } = material as THREE.Material & { color?: THREE.Color; emissive?: THREE.Color };
+        if (color) tinted.push({ color, slot: nearestSlot(color) });
+        // Black emissive means no glow; it stays off
+        if (emissive && emissive.getHex() !== 0) tinted.push({ color: emissive, slot: nearestSlot(emissive) });
+      }
+    }
+  });
+
+  return () => {
+    const look = timeline.look();
+    for (const { color, slot } of tinted) {
+      color.copy(look.palette[slot % look.palette.length]);
+    }
+    for (const { light, intensity } of lights) {
+      light.intensity = (intensity * look.lightIntensity) / baseLight;
+    }
+    renderer.setClearColor(look.background);
+    if (scene.fog) scene.fog.color.copy(look.background);
+
+    return { motion: look.motionSpeed / baseMotion, bloom: look.bloomStrength / baseBloom };
+  };
+}
@@ -0,0 +1,288 @@
+/**
+ * Offscreen Scenes
+ *
+ * Generated scene code is untrusted. On the main thread an infinite loop
+ * freezes the whole widget, and the code can reach the MCP App bridge.
+ * Where the browser supports WebGL on an OffscreenCanvas, scene code runs
+ * in a dedicated worker instead: the canvas is transferred to the worker,
+ * pointer and wheel events are forwarded to it for OrbitControls, and a
+ * watchdog terminates a worker that stops responding. Elsewhere, and when
+ * the worker cannot start (e.g. blocked by the host's CSP), the widget runs
+ * the code on the main thread as before.
+ */
+
+import SceneWorker from './scene-worker?worker&inline';
+import type { AudioLevels } from './audio';
+import type { ViewportSize } from './viewport';
+import type { BudgetViolation } from '../../src/generation/performance-budget';
+
+/** How long the worker may take to load before the main thread takes over */
+const STARTUP_TIMEOUT_MS = 3000;
+
+/** How long the worker may go without a heartbeat before it is terminated */
+const STALL_TIMEOUT_MS = 5000;
+
+const WATCHDOG_INTERVAL_MS = 1000;
+
+/** Pointer and wheel fields forwarded to the worker, in canvas coordinates */
+export interface ForwardedEvent {
+  type: string;
+  pointerId?: number;
+  pointerType?: string;
+  isPrimary?: boolean;
+  button: number;
+  buttons: number;
+  clientX: number;
+  clientY: number;
+  pageX: number;
+  pageY: number;
+  offsetX: number;
+  offsetY: number;
+  deltaX?: number;
+  deltaY?: number;
+  deltaZ?: number;
+  deltaMode?: number;
+  altKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+}
+
+export type ToSceneWorker =
+  | { type: 'start'; canvas: OffscreenCanvas; code: string; size: ViewportSize; seed: number; complexity: number }
+  | { type: 'resize'; size: ViewportSize }
+  | { type: 'event'; event: ForwardedEvent }
+  | { type: 'audio'; levels: AudioLevels }
+  | { type: 'capture'; id: number; pixelRatio: number };
+
+export type FromSceneWorker =
+  | { type: 'ready' }
+  | { type: 'heartbeat' }
+  | { type: 'error'; message: string; stack?: string }
+  | { type: 'shader-error'; message: string; log: string }
+  | { type: 'budget'; violations: BudgetViolation[] }
+  | { type: 'loop-period'; seconds: number }
+  | { type: 'frame'; id: number; frame: ImageBitmap }
+  | { type: 'capture-error'; id: number; message: string };
+
+/** Canvas events OrbitControls and scene code listen to */
+const FORWARDED_EVENTS = ['pointerdown', 'pointermove', 'pointerup', 'pointercancel', 'wheel', 'contextmenu'] as const;
+
+export interface OffscreenSceneOptions {
+  code: string;
+  size: ViewportSize;
+  seed: number;
+  complexity: number;
+  /** Forwarded every frame for audio-reactive scenes */
+  audio?: AudioLevels;
+  /** Scene code failed while setting up, or a resize callback threw */
+  onError: (error: { message: string; stack?: string }) => void;
+  onShaderError: (error: { message: string; log: string }) => void;
+  onBudgetExceeded: (violations: BudgetViolation[]) => void;
+  /** Scene code declared its loop period */
+  onLoopPeriod: (seconds: number) => void;
+  /** The watchdog terminated the worker */
+  onStalled: () => void;
+  /** The worker could not start; the canvas is untouched and the code should run on the main thread */
+  onUnavailable: () => void;
+}
+
+export interface OffscreenScene {
+  resize(size: ViewportSize): void;
+  /** Copies the scene's next frame at a pixel ratio (see captureScene) */
+  capture(pixelRatio: number): Promise<ImageBitmap>;
+  /** Terminates the worker and everything running in it */
+  dispose(): void;
+}
+
+let offscreenWebGL: boolean | null = null;
+
+/**
+ * Whether scene code can run in a worker: OffscreenCanvas with WebGL
+ */
+export function supportsOffscreenScenes(): boolean {
+  if (offscreenWebGL === null) {
+    try {
+      offscreenWebGL =
+        typeof Worker !== 'undefined' &&
+        typeof HTMLCanvasElement.prototype.transferControlToOffscreen === 'function' &&
+        typeof OffscreenCanvas !== 'undefined' &&
+        new OffscreenCanvas(1, 1).getContext('webgl2') !== null;
+    } catch {
+      offscreenWebGL = false;
+    }
+  }
+  return offscreenWebGL;
+}
+
+function toForwardedEvent(event: PointerEvent | WheelEvent | MouseEvent, rect: DOMRect): ForwardedEvent {
+  const x = event.clientX - rect.left;
+  const y = event.clientY - rect.top;
+  const forwarded: ForwardedEvent = {
+    type: event.type,
+    button: event.button,
+    buttons: event.buttons,
+    clientX: x,
+    clientY: y,
+    pageX: x,
+    pageY: y,
+    offsetX: x,
+    offsetY: y,
+    altKey: event.altKey,
+    ctrlKey: event.ctrlKey,
+    metaKey: event.metaKey,
+    shiftKey: event.shiftKey,
+  };
+  if (event instanceof PointerEvent) {
+    Object.assign(forwarded, { pointerId: event.pointerId, pointerType: event.pointerType, isPrimary: event.isPrimary });
+  }
+  if (event instanceof WheelEvent) {
+    Object.assign(forwarded, { deltaX: event.deltaX, deltaY: event.deltaY, deltaZ: event.deltaZ, deltaMode: event.deltaMode });
+  }
+  return forwarded;
+}
+
+/**
+ * Starts scene code in a worker on a canvas
+ *
+ * The canvas is only transferred once the worker has loaded, so a worker
+ * that fails to start leaves it usable for the main thread. After a
+ * transfer the canvas element cannot be drawn on from the main thread
+ * again; every scene needs a fresh one.
+ */
+export function createOffscreenScene(canvas: HTMLCanvasElement, options: OffscreenSceneOptions): OffscreenScene {
+  let size = options.size;
+  let disposed = false;
+  let started = false;
+  let lastHeartbeat = 0;
+  let lastCheck = 0;
+  let watchdogId = 0;
+  let audioFrameId = 0;
+  let worker: Worker | null = null;
+  let captures = 0;
+  const pendingCaptures = new Map<number, { resolve: (frame: ImageBitmap) => void; reject: (error: Error) => void }>();
+
+  const post = (message: ToSceneWorker, transfer: Transferable[] = []) => worker?.postMessage(message, transfer);
+
+  const onCanvasEvent = (event: Event) => {
+    if (event.type === 'wheel' || event.type === 'contextmenu') event.preventDefault();
+    // Drags that leave the canvas keep reaching the worker
+    if (event.type === 'pointerdown') canvas.setPointerCapture((event as PointerEvent).pointerId);
+    post({ type: 'event', event: toForwardedEvent(event as PointerEvent, canvas.getBoundingClientRect()) });
+  };
+
+  const dispose = () => {
+    if (disposed) return;
+    disposed = true;
+    clearTimeout(startupId);
+    clearInterval(watchdogId);
+    cancelAnimationFrame(audioFrameId);
+    FORWARDED_EVENTS.forEach((type) => canvas.removeEventListener(type, onCanvasEvent));
+    worker?.terminate();
+    worker = null;
+    pendingCaptures.forEach(({ reject }) => reject(new Error('The scene was stopped')));
+    pendingCaptures.clear();
+  };
+
+  const unavailable = () => {
+    if (disposed || started) return;
+    dispose();
+    options.onUnavailable();
+  };
+
+  const start = () => {
+    if (disposed || started || !worker) return;
+    started = true;
+    clearTimeout(startupId);
+
+    const offscreen = canvas.transferControlToOffscreen();
+    post({ type: 'start', canvas: offscreen, code: options.code, size, seed: options.seed, complexity: options.complexity }, [
+      offscreen,
+    ]);
+    canvas.style.touchAction = 'none';
+    FORWARDED_EVENTS.forEach((type) => canvas.addEventListener(type, onCanvasEvent, { passive: false }));
+
+    lastHeartbeat = lastCheck = performance.now();
+    watchdogId = window.setInterval(() => {
+      const now = performance.now();
+      // The page itself was asleep (background tab): heartbeats may still be queued
+      if (now - lastCheck > WATCHDOG_INTERVAL_MS * 2) lastHeartbeat = now;
+      lastCheck = now;
+      if (now - lastHeartbeat < STALL_TIMEOUT_MS) return;
+      dispose();
+      options.onStalled();
+    }, WATCHDOG_INTERVAL_MS);
+
+    const { audio } = options;
+    if (audio) {
+      audioFrameId = requestAnimationFrame(function forward() {
+        post({ type: 'audio', levels: { ...audio } });
+        audioFrameId = requestAnimationFrame(forward);
+      });
+    }
+  };
+
+  const startupId = window.setTimeout(unavailable, STARTUP_TIMEOUT_MS);
+  try {
+    worker = new SceneWorker();
+  } catch {
+    // Reported after this returns, so the caller holds the scene first
+    queueMicrotask(unavailable);
+    return { resize: () => {}, capture: () => Promise.reject(new Error('The scene is not running')), dispose };
+  }
+
+  worker.addEventListener('error', (event) => {
+    // Before the transfer: the worker script failed to load
+    if (!started) {
+      event.preventDefault();
+      unavailable();
+    }
+  });
+  worker.addEventListener('message', (event: MessageEvent<FromSceneWorker>) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'ready':
+        start();
+        break;
+      case 'heartbeat':
+        lastHeartbeat = performance.now();
+        break;
+      case 'error':
+        options.onError(message);
+        break;
+      case 'shader-error':
+        options.onShaderError(message);
+        break;
+      case 'budget':
+        options.onBudgetExceeded(message.violations);
+        break;
+      case 'loop-period':
+        options.onLoopPeriod(message.seconds);
+        break;
+      case 'frame':
+        pendingCaptures.get(message.id)?.resolve(message.frame);
+        pendingCaptures.delete(message.id);
+        break;
+      case 'capture-error':
+        pendingCaptures.get(message.id)?.reject(new Error(message.message));
+        pendingCaptures.delete(message.id);
+        break;
+    }
+  });
+
+  return {
+    resize(next) {
+      size = next;
+      if (started) post({ type: 'resize', size });
+    },
+    capture(pixelRatio) {
+      if (!started || disposed) return Promise.reject(new Error('The scene is not running'));
+      const id = ++captures;
+      return new Promise((resolve, reject) => {
+        pendingCaptures.set(id, { resolve, reject });
+        post({ type: 'capture', id, pixelRatio });
+      });
+    },
+    dispose,
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Runtime Performance Budget
+ *
+ * The server checks what it can count statically; scenes built in loops
+ * with runtime bounds slip through. After a warm-up, the monitor measures
+ * one frame through renderer.info (draw calls, points) and the rendered
+ * scenes (lights). A scene over budget is downgraded by halving its render
+ * resolution, and the violations are reported so the widget can explain.
+ */
+
+import * as THREE from 'three';
+import type { BudgetViolation, PerformanceBudget } from '../../src/generation/performance-budget';
+
+/** Frames rendered before measuring, so lazy setup settles */
+const WARMUP_FRAMES = 30;
+
+/** Lowest pixel ratio a downgrade goes to */
+const MIN_PIXEL_RATIO = 0.5;
+
+function countLights(scene: THREE.Object3D): number {
+  let lights = 0;
+  scene.traverseVisible((object) => {
+    if ((object as THREE.Light).isLight) lights++;
+  });
+  return lights;
+}
+
+/**
+ * Measures a renderer against a budget once, downgrading it if it is over
+ *
+ * A frame may render several times (post-processing passes), so
+ * renderer.info is accumulated manually from the first render of one
+ * animation frame to the first render of the next.
+ *
+ * @returns Stop function; safe to call after the measurement finished
+ */
+export function enforceRuntimeBudget(
+  renderer: THREE.WebGLRenderer,
+  budget: PerformanceBudget,
+  onExceeded: (violations: BudgetViolation[]) => void
+): () => void {
+  const render = renderer.render;
+  const autoReset = renderer.info.autoReset;
+  let frame = 0;
+  let frameId = requestAnimationFrame(function tick() {
+    frame++;
+    frameId = requestAnimationFrame(tick);
+  });
+
+  let measuring: number | null = null;
+  let lights = 0;
+  let stopped = false;
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    cancelAnimationFrame(frameId);
+    renderer.render = render;
+    renderer.info.autoReset = autoReset;
+  };
+
+  const finish = () => {
+    const { calls, points } = renderer.info.render;
+    stop();
+    renderer.info.reset();
+
+    const violations: BudgetViolation[] = [];
+    if (calls > budget.maxDrawCalls) violations.push({ metric: 'drawCalls', value: calls, limit: budget.maxDrawCalls });
+    if (points > budget.maxParticles) violations.push({ metric: 'particles', value: points, limit: budget.maxParticles });
+    if (lights > budget.maxLights) violations.push({ metric: 'lights', value: lights, limit: budget.maxLights });
+    if (violations.length === 0) return;
+
+    renderer.setPixelRatio(Math.max(MIN_PIXEL_RATIO, renderer.getPixelRatio() / 2));
+    onExceeded(violations);
+  };
+
+  renderer.render = (scene, camera) => {
+    if (measuring === null && frame >= WARMUP_FRAMES) {
+      // First render of the measured frame
+      renderer.info.autoReset = false;
+      renderer.info.reset();
+      measuring = frame;
+    } else if (measuring !== null && frame !== measuring) {
+      // First render of the next frame: the measured frame is complete
+      finish();
+      return render.call(renderer, scene, camera);
+    }
+
+    if (measuring !== null) lights = Math.max(lights, countLights(scene));
+    render.call(renderer, scene, camera);
+  };
+
+  return stop;
+}
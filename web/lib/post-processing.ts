@@ -0,0 +1,74 @@
+/**
+ * Post-Processing Globals
+ *
+ * The passes and shaders scene code may add to its EffectComposer besides
+ * UnrealBloomPass, and createColorGradeLUT, which bakes the built-in colour
+ * grades into the 3D textures LUTPass reads.
+ */
+
+import * as THREE from 'three';
+import { AfterimagePass } from 'three/examples/jsm/postprocessing/AfterimagePass.js';
+import { BokehPass } from 'three/examples/jsm/postprocessing/BokehPass.js';
+import { FilmPass } from 'three/examples/jsm/postprocessing/FilmPass.js';
+import { GlitchPass } from 'three/examples/jsm/postprocessing/GlitchPass.js';
+import { LUTPass } from 'three/examples/jsm/postprocessing/LUTPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { RGBShiftShader } from 'three/examples/jsm/shaders/RGBShiftShader.js';
+import { VignetteShader } from 'three/examples/jsm/shaders/VignetteShader.js';
+import { COLOR_GRADES, gradeColor, type ColorGradeName } from '../../src/shaders/post-processing';
+
+/** Samples per axis; 32 keeps gradients smooth at 128 KB per table */
+const LUT_SIZE = 32;
+
+// Baked on first use and shared by every scene
+const luts = new Map<ColorGradeName, THREE.Data3DTexture>();
+
+/**
+ * Lookup table for a built-in colour grade, for `new LUTPass({ lut })`
+ *
+ * @throws Error naming the available grades when the grade is unknown
+ */
+export function createColorGradeLUT(name: ColorGradeName): THREE.Data3DTexture {
+  const grade = COLOR_GRADES[name];
+  if (!grade) {
+    throw new Error(`Unknown colour grade "${name}"; use one of: ${Object.keys(COLOR_GRADES).join(', ')}`);
+  }
+
+  let lut = luts.get(name);
+  if (!lut) {
+    const data = new Uint8Array(LUT_SIZE ** 3 * 4);
+    const step = 1 / (LUT_SIZE - 1);
+    for (let b = 0; b < LUT_SIZE; b++) {
+      for (let g = 0; g < LUT_SIZE; g++) {
+        for (let r = 0; r < LUT_SIZE; r++) {
+          const graded = gradeColor(grade, [r * step, g * step, b * step]);
+          const i = (r + g * LUT_SIZE + b * LUT_SIZE * LUT_SIZE) * 4;
+          data.set([graded[0] * 255, graded[1] * 255, graded[2] * 255, 255], i);
+        }
+      }
+    }
+
+    lut = new THREE.Data3DTexture(data, LUT_SIZE, LUT_SIZE, LUT_SIZE);
+    lut.minFilter = THREE.LinearFilter;
+    lut.magFilter = THREE.LinearFilter;
+    lut.unpackAlignment = 1;
+    lut.needsUpdate = true;
+    luts.set(name, lut);
+  }
+  return lut;
+}
+
+/**
+ * Post-processing additions to the scene code context
+ */
+export const postProcessingContext = {
+  AfterimagePass,
+  BokehPass,
+  FilmPass,
+  GlitchPass,
+  LUTPass,
+  ShaderPass,
+  RGBShiftShader,
+  VignetteShader,
+  createColorGradeLUT,
+};
@@ -0,0 +1,40 @@
+/**
+ * Seeded PRNG for Reproducible Scenes
+ *
+ * Scene code (and the spec interpreter) use Math.random freely. While a
+ * scene is alive, Math.random is replaced with a seeded generator so the
+ * seed returned by generate_mood_scene recreates the scene exactly.
+ */
+
+/** Seed used for the built-in demo scene */
+export const DEFAULT_SEED = 1;
+
+const nativeRandom = Math.random;
+
+/**
+ * mulberry32: small, fast 32-bit PRNG with good distribution for visuals
+ *
+ * @returns Function producing floats in [0, 1), like Math.random
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Replaces Math.random with `random` until the returned restore function runs
+ */
+export function installRandom(random: () => number): () => void {
+  Math.random = random;
+  return () => {
+    if (Math.random === random) {
+      Math.random = nativeRandom;
+    }
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Scene Recording
+ *
+ * Records the scene canvas to WebM with MediaRecorder, for a chosen
+ * duration and frame rate. Scene code that declares its loop period with
+ * setLoopPeriod (and journeys that loop) can be recorded as a seamless
+ * loop: a whole number of periods, so the video's last frame leads back
+ * into its first.
+ */
+
+/** Recording lengths offered, in seconds */
+export const RECORDING_DURATIONS = [5, 10, 15, 30] as const;
+
+/** Frame rates offered */
+export const RECORDING_FRAME_RATES = [24, 30, 60] as const;
+
+/** Longest recording, seamless loops included; longer files get unwieldy */
+export const MAX_RECORDING_SECONDS = 60;
+
+/** Preferred codec first */
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/** High enough that noise and particles survive compression */
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+
+export interface Recording {
+  /** The video once recording stops; rejects when nothing was recorded */
+  readonly done: Promise<Blob>;
+  /** Stops early; `done` still resolves with what was recorded */
+  stop(): void;
+}
+
+/**
+ * Whether the browser can record a canvas to WebM
+ */
+export function supportsRecording(): boolean {
+  return (
+    typeof MediaRecorder !== 'undefined' &&
+    typeof HTMLCanvasElement.prototype.captureStream === 'function' &&
+    MIME_TYPES.some((type) => MediaRecorder.isTypeSupported(type))
+  );
+}
+
+/**
+ * Length of a seamless loop: the whole number of periods closest to the
+ * requested duration
+ *
+ * @returns Seconds to record, or null when one period is already too long
+ */
+export function loopDuration(period: number, requested: number): number | null {
+  const seconds = Math.max(1, Math.round(requested / period)) * period;
+  return seconds <= MAX_RECORDING_SECONDS ? seconds : null;
+}
+
+/**
+ * Records a canvas for a number of seconds
+ *
+ * @throws When the canvas cannot be captured (see supportsRecording)
+ */
+export function recordCanvas(canvas: HTMLCanvasElement, seconds: number, frameRate: number): Recording {
+  const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  const stream = canvas.captureStream(frameRate);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const done = new Promise<Blob>((resolve, reject) => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      if (chunks.length === 0) reject(new Error('Nothing was recorded'));
+      else resolve(new Blob(chunks, { type: 'video/webm' }));
+    };
+    recorder.onerror = () => reject(new Error('Recording failed'));
+  });
+
+  const stop = () => {
+    clearTimeout(timeoutId);
+    if (recorder.state !== 'inactive') recorder.stop();
+  };
+  const timeoutId = window.setTimeout(stop, seconds * 1000);
+  recorder.start();
+
+  return { done, stop };
+}
@@ -0,0 +1,96 @@
+/**
+ * THREE for Scene Code
+ *
+ * Generated code creates its own WebGLRenderer, camera and composer, so the
+ * widget cannot reach them directly. Scene code gets a THREE namespace, an
+ * EffectComposer and OrbitControls that hand every instance to the widget
+ * as soon as it is constructed: renderers for shader error capture and
+ * performance monitoring, renderers, cameras and composers for resizing
+ * with the viewport, and everything disposable to the scene runtime.
+ */
+
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+
+/**
+ * Receives the objects a scene creates
+ */
+export interface SceneHooks {
+  onRenderer?: (renderer: THREE.WebGLRenderer) => void;
+  onCamera?: (camera: THREE.PerspectiveCamera) => void;
+  onComposer?: (composer: EffectComposer) => void;
+  onScene?: (scene: THREE.Scene) => void;
+  onControls?: (controls: OrbitControls) => void;
+}
+
+/**
+ * Hooks that call every given hook in order
+ */
+export function combineHooks(...all: SceneHooks[]): SceneHooks {
+  return {
+    onRenderer: (renderer) => all.forEach((hooks) => hooks.onRenderer?.(renderer)),
+    onCamera: (camera) => all.forEach((hooks) => hooks.onCamera?.(camera)),
+    onComposer: (composer) => all.forEach((hooks) => hooks.onComposer?.(composer)),
+    onScene: (scene) => all.forEach((hooks) => hooks.onScene?.(scene)),
+    onControls: (controls) => all.forEach((hooks) => hooks.onControls?.(controls)),
+  };
+}
+
+/**
+ * THREE namespace whose WebGLRenderer, PerspectiveCamera and Scene report
+ * each instance to the hooks
+ */
+export function createSandboxThree(hooks: SceneHooks): typeof THREE {
+  class SandboxWebGLRenderer extends THREE.WebGLRenderer {
+    constructor(parameters?: THREE.WebGLRendererParameters) {
+      super(parameters);
+      hooks.onRenderer?.(this);
+    }
+  }
+
+  class SandboxPerspectiveCamera extends THREE.PerspectiveCamera {
+    constructor(fov?: number, aspect?: number, near?: number, far?: number) {
+      super(fov, aspect, near, far);
+      hooks.onCamera?.(this);
+    }
+  }
+
+  class SandboxScene extends THREE.Scene {
+    constructor() {
+      super();
+      hooks.onScene?.(this);
+    }
+  }
+
+  return {
+    ...THREE,
+    WebGLRenderer: SandboxWebGLRenderer,
+    PerspectiveCamera: SandboxPerspectiveCamera,
+    Scene: SandboxScene,
+  };
+}
+
+/**
+ * EffectComposer that reports each instance to the hooks
+ */
+export function createSandboxEffectComposer(hooks: SceneHooks): typeof EffectComposer {
+  return class SandboxEffectComposer extends EffectComposer {
+    constructor(renderer: THREE.WebGLRenderer, renderTarget?: THREE.WebGLRenderTarget) {
+      super(renderer, renderTarget);
+      hooks.onComposer?.(this);
+    }
+  };
+}
+
+/**
+ * OrbitControls that reports each instance to the hooks
+ */
+export function createSandboxOrbitControls(hooks: SceneHooks): typeof OrbitControls {
+  return class SandboxOrbitControls extends OrbitControls {
+    constructor(object: THREE.Camera, domElement?: HTMLElement | null) {
+      super(object, domElement);
+      hooks.onControls?.(this);
+    }
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Scene Code Execution
+ *
+ * Generated (legacy format) scenes are JavaScript run with a fixed set of
+ * globals: a sandboxed THREE namespace, the post-processing toolkit, GLSL
+ * chunks, audio levels, typography, a seeded random(), onResize and
+ * setLoopPeriod. The same globals are provided whether the code runs on
+ * the widget's main thread or inside the scene worker.
+ */
+
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import {
+  createSandboxEffectComposer,
+  createSandboxOrbitControls,
+  createSandboxThree,
+  type SceneHooks,
+} from './sandbox-three';
+import type { SceneTimers } from './scene-runtime';
+import type { ResizeCallback } from './viewport';
+import type { AudioLevels } from './audio';
+import { createTextGeometry } from './typography';
+import { postProcessingContext } from './post-processing';
+import { GLSL } from '../../src/shaders/glsl-chunks';
+
+// Globals that do not depend on the run
+const sceneGlobals = {
+  THREE,
+  OrbitControls,
+  EffectComposer,
+  RenderPass,
+  UnrealBloomPass,
+  GLSL,
+  createTextGeometry,
+  ...postProcessingContext,
+};
+
+/**
+ * What scene code is connected to besides its canvas
+ */
+export interface SceneCodeOptions {
+  /** Seeded PRNG, exposed as random() */
+  random: () => number;
+  /** Receive everything the code constructs */
+  hooks: SceneHooks;
+  onResize: (callback: ResizeCallback) => void;
+  /** Frame and timer scheduling of the scene's runtime */
+  timers: SceneTimers;
+  /** Levels read by audio-reactive scenes */
+  audio: AudioLevels;
+  /** Receives the loop period (seconds) scene code declares with setLoopPeriod */
+  onLoopPeriod: (seconds: number) => void;
+}
+
+/**
+ * Runs scene code on a canvas
+ *
+ * @throws Whatever the code throws, or rejects with, while setting up
+ */
+export async function executeSceneCode(
+  code: string,
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  width: number,
+  height: number,
+  { random, hooks, onResize, timers, audio, onLoopPeriod }: SceneCodeOptions
+): Promise<void> {
+  // Critical: Set canvas buffer dimensions (not just CSS size)
+  canvas.width = width;
+  canvas.height = height;
+
+  const fn = new Function(
+    'ctx',
+    'canvas',
+    'width',
+    'height',
+    `const {
+       THREE, OrbitControls, EffectComposer, RenderPass, UnrealBloomPass,
+       FilmPass, GlitchPass, AfterimagePass, BokehPass, LUTPass, ShaderPass, RGBShiftShader, VignetteShader,
+       createColorGradeLUT, GLSL, audio, createTextGeometry, random, onResize, setLoopPeriod,
+       requestAnimationFrame, cancelAnimationFrame, setTimeout, clearTimeout, setInterval, clearInterval
+     } = ctx;
+     return (async () => { ${code} })();`
+  );
+  await fn(
+    {
+      ...sceneGlobals,
+      ...timers,
+      THREE: createSandboxThree(hooks),
+      EffectComposer: createSandboxEffectComposer(hooks),
+      OrbitControls: createSandboxOrbitControls(hooks),
+      audio,
+      random,
+      onResize,
+      setLoopPeriod: (seconds: unknown) => {
+        if (typeof seconds === 'number' && Number.isFinite(seconds) && seconds > 0) onLoopPeriod(seconds);
+      },
+    },
+    canvas,
+    width,
+    height
+  );
+}
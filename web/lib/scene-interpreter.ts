@@ -0,0 +1,500 @@
+/**
+ * MoodSceneSpec Interpreter
+ *
+ * Builds a Three.js scene from a declarative MoodSceneSpec. The spec has
+ * already been validated (and defaults applied) on the server, so this
+ * module only maps known fields onto Three.js objects - no generated code
+ * is executed.
+ */
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import type {
+  MoodSceneSpec,
+  SceneBehaviour,
+  SceneLight,
+  SceneMeshGroup,
+  SceneParticleGroup,
+  SceneText,
+} from '../../src/schemas/scene-spec';
+import type { SceneHooks } from './sandbox-three';
+import type { AudioLevels } from './audio';
+import { bindJourney, type JourneyTimeline } from './journey';
+import { createTextGeometry } from './typography';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** An object animated by spec behaviours, with its rest pose captured */
+interface AnimatedNode {
+  object: THREE.Object3D;
+  basePosition: THREE.Vector3;
+  baseRotation: THREE.Euler;
+  baseScale: number;
+  phase: number;
+  behaviours: SceneBehaviour[];
+}
+
+/**
+ * What a scene is connected to besides its spec
+ */
+export interface SpecSceneOptions {
+  /** Receive the renderer, camera and composer before the first frame */
+  hooks?: SceneHooks;
+  /** Levels of an audio-reactive scene: objects pulse with the bass and bloom follows the overall level */
+  audio?: AudioLevels;
+  /** Journey played on the scene: palette, lighting, motion and bloom follow its keyframes */
+  journey?: JourneyTimeline;
+}
+
+/** Particle cloud whose vertices fall individually */
+interface FallingParticles {
+  points: THREE.Points;
+  baseY: Float32Array;
+  phases: Float32Array;
+  behaviour: SceneBehaviour;
+}
+
+// ============================================================================
+// Builders
+// ============================================================================
+
+function createGeometry(spec: SceneMeshGroup['geometry']): THREE.BufferGeometry {
+  const { size, detail } = spec;
+  const segments = Math.max(3, detail);
+  const polyDetail = Math.min(detail, 5);
+
+  switch (spec.type) {
+    case 'sphere':
+      return new THREE.SphereGeometry(size, segments * 2, segments);
+    case 'box':
+      return new THREE.BoxGeometry(size, size, size);
+    case 'icosahedron':
+      return new THREE.IcosahedronGeometry(size, polyDetail);
+    case 'octahedron':
+      return new THREE.OctahedronGeometry(size, polyDetail);
+    case 'dodecahedron':
+      return new THREE.DodecahedronGeometry(size, polyDetail);
+    case 'tetrahedron':
+      return new THREE.TetrahedronGeometry(size, polyDetail);
+    case 'torus':
+      return new THREE.TorusGeometry(size, size * 0.3, segments, segments * 4);
+    case 'torusKnot':
+      return new THREE.TorusKnotGeometry(size, size * 0.25, segments * 8, segments);
+    case 'cone':
+      return new THREE.ConeGeometry(size, size * 2, segments);
+    case 'cylinder':
+      return new THREE.CylinderGeometry(size, size, size * 2, segments);
+    case 'ring':
+      return new THREE.RingGeometry(size * 0.5, size, segments * 2);
+    case 'plane':
+      return new THREE.PlaneGeometry(size * 2, size * 2, segments, segments);
+  }
+}
+
+function createMaterial(spec: SceneMeshGroup['material'], color: string): THREE.Material {
+  const transparent = spec.opacity < 1;
+  const side = THREE.DoubleSide;
+
+  switch (spec.type) {
+    case 'basic':
+      return new THREE.MeshBasicMaterial({
+        color,
+        wireframe: spec.wireframe,
+        transparent,
+        opacity: spec.opacity,
+        side,
+      });
+    case 'normal':
+      return new THREE.MeshNormalMaterial({
+        wireframe: spec.wireframe,
+        flatShading: spec.flatShading,
+        transparent,
+        opacity: spec.opacity,
+        side,
+      });
+    case 'physical':
+      return new THREE.MeshPhysicalMaterial({
+        color,
+        emissive: spec.emissive ?? '#000000',
+        emissiveIntensity: spec.emissiveIntensity,
+        roughness: spec.roughness,
+        metalness: spec.metalness,
+        wireframe: spec.wireframe,
+        flatShading: spec.flatShading,
+        transparent,
+        opacity: spec.opacity,
+        transmission: transparent ? 1 - spec.opacity : 0,
+        side,
+      });
+    case 'standard':
+      return new THREE.MeshStandardMaterial({
+        color,
+        emissive: spec.emissive ?? '#000000',
+        emissiveIntensity: spec.emissiveIntensity,
+        roughness: spec.roughness,
+        metalness: spec.metalness,
+        wireframe: spec.wireframe,
+        flatShading: spec.flatShading,
+        transparent,
+        opacity: spec.opacity,
+        side,
+      });
+  }
+}
+
+function createLight(spec: SceneLight): THREE.Light {
+  let light: THREE.Light;
+
+  switch (spec.type) {
+    case 'ambient':
+      return new THREE.AmbientLight(spec.color, spec.intensity);
+    case 'hemisphere':
+      return new THREE.HemisphereLight(spec.color, spec.groundColor ?? '#000000', spec.intensity);
+    case 'directional':
+      light = new THREE.DirectionalLight(spec.color, spec.intensity);
+      break;
+    case 'point':
+      light = new THREE.PointLight(spec.color, spec.intensity, 0, 1);
+      break;
+    case 'spot':
+      light = new THREE.SpotLight(spec.color, spec.intensity, 0, Math.PI / 6, 0.3, 1);
+      break;
+  }
+
+  const [x, y, z] = spec.position ?? [3, 5, 3];
+  light.position.set(x, y, z);
+  return light;
+}
+
+/**
+ * Position of instance `index` of `count` for a layout, centred on the origin
+ */
+function layoutPosition(
+  layout: SceneMeshGroup['layout'],
+  index: number,
+  count: number,
+  spread: number
+): THREE.Vector3 {
+  const t = count > 1 ? index / (count - 1) : 0.5;
+  const radius = spread / 2;
+
+  switch (layout) {
+    case 'random':
+      return new THREE.Vector3(
+        (Math.random() - 0.5) * spread,
+        (Math.random() - 0.5) * spread,
+        (Math.random() - 0.5) * spread
+      );
+    case 'ring': {
+      const angle = (index / count) * Math.PI * 2;
+      return new THREE.Vector3(Math.cos(angle) * radius, 0, Math.sin(angle) * radius);
+    }
+    case 'grid': {
+      const side = Math.ceil(Math.cbrt(count));
+      const step = side > 1 ? spread / (side - 1) : 0;
+      const x = index % side;
+      const y = Math.floor(index / side) % side;
+      const z = Math.floor(index / (side * side));
+      const offset = (side - 1) / 2;
+      return new THREE.Vector3((x - offset) * step, (y - offset) * step, (z - offset) * step);
+    }
+    case 'sphere': {
+      // Fibonacci sphere for an even distribution
+      const y = 1 - (index / Math.max(1, count - 1)) * 2;
+      const r = Math.sqrt(1 - y * y);
+      const theta = index * Math.PI * (3 - Math.sqrt(5));
+      return new THREE.Vector3(Math.cos(theta) * r, y, Math.sin(theta) * r).multiplyScalar(radius);
+    }
+    case 'spiral': {
+      const angle = index * 0.5;
+      return new THREE.Vector3(
+        Math.cos(angle) * radius * t,
+        (t - 0.5) * spread,
+        Math.sin(angle) * radius * t
+      );
+    }
+    case 'line':
+      return new THREE.Vector3((t - 0.5) * spread, 0, 0);
+  }
+}
+
+function addMeshGroup(scene: THREE.Scene, group: SceneMeshGroup, nodes: AnimatedNode[]): void {
+  const geometry = createGeometry(group.geometry);
+  const palette = group.colorVariants?.length ? group.colorVariants : [group.material.color];
+  const materials = palette.map((color) => createMaterial(group.material, color));
+  const [ox, oy, oz] = group.position;
+  const [rx, ry, rz] = group.rotation;
+
+  for (let i = 0; i < group.count; i++) {
+    const mesh = new THREE.Mesh(geometry, materials[i % materials.length]);
+    const position = layoutPosition(group.layout, i, group.count, group.spread).add(
+      new THREE.Vector3(ox, oy, oz)
+    );
+    const scale = group.scale * (1 + (Math.random() - 0.5) * 2 * group.scaleVariance);
+
+    mesh.position.copy(position);
+    mesh.rotation.set(rx, ry, rz);
+    mesh.scale.setScalar(scale);
+    scene.add(mesh);
+
+    nodes.push({
+      object: mesh,
+      basePosition: position.clone(),
+      baseRotation: mesh.rotation.clone(),
+      baseScale: scale,
+      phase: Math.random() * Math.PI * 2,
+      behaviours: group.behaviours,
+    });
+  }
+}
+
+function addText(scene: THREE.Scene, text: SceneText, nodes: AnimatedNode[], facing: THREE.Object3D[]): void {
+  const geometry = createTextGeometry(text.text, { font: text.font, size: text.size, depth: text.depth });
+  const mesh = new THREE.Mesh(geometry, createMaterial(text.material, text.material.color));
+  mesh.position.set(...text.position);
+  mesh.rotation.set(...text.rotation);
+  scene.add(mesh);
+
+  if (text.faceCamera) facing.push(mesh);
+  nodes.push({
+    object: mesh,
+    basePosition: mesh.position.clone(),
+    baseRotation: mesh.rotation.clone(),
+    baseScale: 1,
+    phase: 0,
+    behaviours: text.behaviours,
+  });
+}
+
+function addParticleGroup(
+  scene: THREE.Scene,
+  group: SceneParticleGroup,
+  nodes: AnimatedNode[],
+  falling: FallingParticles[]
+): void {
+  const positions = new Float32Array(group.count * 3);
+  for (let i = 0; i < group.count; i++) {
+    const p = layoutPosition(group.layout, i, group.count, group.spread);
+    positions.set([p.x, p.y, p.z], i * 3);
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+
+  const material = new THREE.PointsMaterial({
+    color: group.color,
+    size: group.size,
+    transparent: true,
+    opacity: group.opacity,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+  });
+
+  const points = new THREE.Points(geometry, material);
+  const [ox, oy, oz] = group.position;
+  points.position.set(ox, oy, oz);
+  scene.add(points);
+
+  // "fall" moves vertices individually; everything else moves the cloud
+  const fall = group.behaviours.find((b) => b.type === 'fall');
+  if (fall) {
+    const baseY = new Float32Array(group.count);
+    const phases = new Float32Array(group.count);
+    for (let i = 0; i < group.count; i++) {
+      baseY[i] = positions[i * 3 + 1];
+      phases[i] = Math.random();
+    }
+    falling.push({ points, baseY, phases, behaviour: fall });
+  }
+
+  nodes.push({
+    object: points,
+    basePosition: points.position.clone(),
+    baseRotation: points.rotation.clone(),
+    baseScale: 1,
+    phase: 0,
+    behaviours: group.behaviours.filter((b) => b.type !== 'fall'),
+  });
+}
+
+// ============================================================================
+// Animation
+// ============================================================================
+
+const AXES = { x: 0, y: 1, z: 2 } as const;
+
+/** Extra scale at full bass for audio-reactive scenes */
+const AUDIO_PULSE = 0.35;
+
+function applyBehaviours(node: AnimatedNode, time: number, audio?: AudioLevels): void {
+  const position = node.basePosition.clone();
+  const rotation = node.baseRotation.clone();
+  let scale = node.baseScale;
+
+  for (const b of node.behaviours) {
+    const axis = AXES[b.axis];
+    const t = time * b.speed + node.phase;
+
+    switch (b.type) {
+      case 'float':
+        position.setComponent(axis, position.getComponent(axis) + Math.sin(t) * b.amplitude);
+        break;
+      case 'rotate':
+        rotation[b.axis] += time * b.speed;
+        break;
+      case 'pulse':
+        scale *= Math.max(0.05, 1 + Math.sin(t * 2) * b.amplitude * 0.5);
+        break;
+      case 'orbit':
+        position.applyAxisAngle(
+          new THREE.Vector3().setComponent(axis, 1),
+          time * b.speed * 0.3
+        );
+        break;
+      case 'jitter':
+        position.x += (Math.random() - 0.5) * b.amplitude * 0.2;
+        position.y += (Math.random() - 0.5) * b.amplitude * 0.2;
+        position.z += (Math.random() - 0.5) * b.amplitude * 0.2;
+        break;
+      case 'fall': {
+        const range = Math.max(0.5, b.amplitude * 4);
+        position.y += range / 2 - ((t * 0.5) % range);
+        break;
+      }
+    }
+  }
+
+  if (audio) scale *= 1 + audio.bass * AUDIO_PULSE;
+
+  node.object.position.copy(position);
+  node.object.rotation.copy(rotation);
+  node.object.scale.setScalar(scale);
+}
+
+function applyFalling(cloud: FallingParticles, time: number): void {
+  const attr = cloud.points.geometry.getAttribute('position') as THREE.BufferAttribute;
+  const range = Math.max(1, cloud.behaviour.amplitude * 8);
+
+  for (let i = 0; i < cloud.baseY.length; i++) {
+    const drop = (time * cloud.behaviour.speed * 0.5 + cloud.phases[i] * range) % range;
+    attr.setY(i, cloud.baseY[i] + range / 2 - drop);
+  }
+  attr.needsUpdate = true;
+}
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+/**
+ * Builds and starts a scene from a spec on the given canvas
+ *
+ * @returns Dispose function that stops the loop and frees GPU resources
+ */
+export function buildSceneFromSpec(
+  spec: MoodSceneSpec,
+  canvas: HTMLCanvasElement,
+  width: number,
+  height: number,
+  { hooks = {}, audio, journey }: SpecSceneOptions = {}
+): () => void {
+  // Critical: Set canvas buffer dimensions (not just CSS size)
+  canvas.width = width;
+  canvas.height = height;
+
+  const renderer = new THREE.WebGLRenderer({ canvas, antialias: true });
+  renderer.setSize(width, height);
+  renderer.setClearColor(spec.background);
+  hooks.onRenderer?.(renderer);
+
+  const scene = new THREE.Scene();
+  if (spec.fog) {
+    scene.fog = spec.fog.type === 'linear'
+      ? new THREE.Fog(spec.fog.color, spec.fog.near, spec.fog.far)
+      : new THREE.FogExp2(spec.fog.color, spec.fog.density);
+  }
+
+  const camera = new THREE.PerspectiveCamera(spec.camera.fov, width / height, 0.1, 1000);
+  camera.position.set(...spec.camera.position);
+  hooks.onCamera?.(camera);
+
+  const controls = new OrbitControls(camera, renderer.domElement);
+  controls.enableDamping = true;
+  controls.dampingFactor = 0.05;
+  controls.target.set(...spec.camera.target);
+  controls.autoRotate = spec.camera.autoRotate;
+  controls.autoRotateSpeed = spec.camera.autoRotateSpeed;
+
+  spec.lights.forEach((light) => scene.add(createLight(light)));
+
+  const nodes: AnimatedNode[] = [];
+  const falling: FallingParticles[] = [];
+  const facing: THREE.Object3D[] = [];
+  for (const object of spec.objects) {
+    switch (object.kind) {
+      case 'mesh':
+        addMeshGroup(scene, object, nodes);
+        break;
+      case 'particles':
+        addParticleGroup(scene, object, nodes, falling);
+        break;
+      case 'text':
+        addText(scene, object, nodes, facing);
+        break;
+    }
+  }
+
+  let composer: EffectComposer | null = null;
+  let bloomPass: UnrealBloomPass | null = null;
+  const bloom = spec.postProcessing?.bloom;
+  if (bloom) {
+    composer = new EffectComposer(renderer);
+    composer.addPass(new RenderPass(scene, camera));
+    bloomPass = new UnrealBloomPass(new THREE.Vector2(width, height), bloom.strength, bloom.radius, bloom.threshold);
+    composer.addPass(bloomPass);
+    hooks.onComposer?.(composer);
+  }
+
+  const applyJourney = journey ? bindJourney(journey, scene, renderer) : null;
+  const clock = new THREE.Clock();
+  let time = 0;
+  let frameId = 0;
+
+  function animate() {
+    frameId = requestAnimationFrame(animate);
+    // A journey changes the pace, so time is accumulated rather than read
+    const frame = applyJourney?.() ?? { motion: 1, bloom: 1 };
+    time += clock.getDelta() * frame.motion;
+
+    nodes.forEach((node) => applyBehaviours(node, time, audio));
+    if (bloomPass && bloom) bloomPass.strength = bloom.strength * frame.bloom * (1 + (audio?.level ?? 0));
+    falling.forEach((cloud) => applyFalling(cloud, time));
+
+    controls.update();
+    facing.forEach((object) => object.quaternion.copy(camera.quaternion));
+    if (composer) {
+      composer.render();
+    } else {
+      renderer.render(scene, camera);
+    }
+  }
+  animate();
+
+  return () => {
+    cancelAnimationFrame(frameId);
+    controls.dispose();
+    scene.traverse((object) => {
+      if (object instanceof THREE.Mesh || object instanceof THREE.Points) {
+        object.geometry.dispose();
+        const materials = Array.isArray(object.material) ? object.material : [object.material];
+        materials.forEach((m: THREE.Material) => m.dispose());
+      }
+    });
+    composer?.dispose();
+    renderer.dispose();
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Scene Runtime
+ *
+ * Scene code starts animation loops, timers and event listeners and creates
+ * renderers, composers, controls and GPU resources, none of which it ever
+ * releases. Every run of scene code gets a runtime that records all of
+ * them and tears them down together: when the scene is re-run, when the
+ * widget unmounts and when the host tears the widget down. Re-runs draw on
+ * the same canvas, so without this old loops keep rendering underneath
+ * and GPU memory grows until the WebGL context is lost.
+ */
+
+import * as THREE from 'three';
+import type { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import type { SceneHooks } from './sandbox-three';
+
+/**
+ * Frame and timer scheduling for scene code, shadowing the browser's
+ */
+export interface SceneTimers {
+  requestAnimationFrame: (callback: FrameRequestCallback) => number;
+  cancelAnimationFrame: (id: number) => void;
+  setTimeout: (callback: () => void, delay?: number) => number;
+  clearTimeout: (id: number) => void;
+  setInterval: (callback: () => void, delay?: number) => number;
+  clearInterval: (id: number) => void;
+}
+
+export interface SceneRuntime {
+  /** Hand these to scene code in place of the browser's */
+  readonly timers: SceneTimers;
+  /** Register what scene code constructs; combine with the widget's own hooks */
+  readonly hooks: SceneHooks;
+  /** True once torn down; late errors from the scene should be ignored */
+  readonly disposed: boolean;
+  /** Runs `cleanup` at teardown (immediately when already torn down) */
+  addCleanup(cleanup: () => void): void;
+  /** Releases everything the scene holds; frames and timers stop firing */
+  dispose(): void;
+}
+
+// Runtimes not yet torn down, for the host's teardown
+const live = new Set<SceneRuntime>();
+
+/**
+ * Creates the runtime for one run of scene code on a canvas
+ *
+ * Event listeners scene code (or OrbitControls) adds to the canvas are
+ * recorded until teardown.
+ */
+export function createSceneRuntime(canvas: HTMLCanvasElement): SceneRuntime {
+  let disposed = false;
+  const frames = new Set<number>();
+  const timeouts = new Set<number>();
+  const intervals = new Set<number>();
+  // Run last-in first-out: composers and controls go before the renderers they use
+  const cleanups: (() => void)[] = [];
+
+  const listeners: Parameters<HTMLCanvasElement['removeEventListener']>[] = [];
+  canvas.addEventListener = function (
+    this: HTMLCanvasElement,
+    ...args: Parameters<HTMLCanvasElement['addEventListener']>
+  ) {
+    listeners.push([args[0], args[1], args[2]]);
+    HTMLCanvasElement.prototype.addEventListener.apply(this, args);
+  };
+
+  const addCleanup = (cleanup: () => void) => {
+    if (disposed) {
+      cleanup();
+      return;
+    }
+    cleanups.push(cleanup);
+  };
+
+  const timers: SceneTimers = {
+    requestAnimationFrame: (callback) => {
+      if (disposed) return 0;
+      const id = window.requestAnimationFrame((time) => {
+        frames.delete(id);
+        callback(time);
+      });
+      frames.add(id);
+      return id;
+    },
+    cancelAnimationFrame: (id) => {
+      frames.delete(id);
+      window.cancelAnimationFrame(id);
+    },
+    setTimeout: (callback, delay) => {
+      if (disposed) return 0;
+      const id = window.setTimeout(() => {
+        timeouts.delete(id);
+        callback();
+      }, delay);
+      timeouts.add(id);
+      return id;
+    },
+    clearTimeout: (id) => {
+      timeouts.delete(id);
+      window.clearTimeout(id);
+    },
+    setInterval: (callback, delay) => {
+      if (disposed) return 0;
+      const id = window.setInterval(() => callback(), delay);
+      intervals.add(id);
+      return id;
+    },
+    clearInterval: (id) => {
+      intervals.delete(id);
+      window.clearInterval(id);
+    },
+  };
+
+  const hooks: SceneHooks = {
+    onRenderer: (renderer) => addCleanup(() => renderer.dispose()),
+    onComposer: (composer) => addCleanup(() => disposeComposer(composer)),
+    onScene: (scene) => addCleanup(() => disposeSceneGraph(scene)),
+    onControls: (controls) => addCleanup(() => controls.dispose()),
+  };
+
+  const runtime: SceneRuntime = {
+    timers,
+    hooks,
+    get disposed() {
+      return disposed;
+    },
+    addCleanup,
+    dispose() {
+      if (disposed) return;
+      disposed = true;
+      live.delete(runtime);
+
+      frames.forEach((id) => window.cancelAnimationFrame(id));
+      timeouts.forEach((id) => window.clearTimeout(id));
+      intervals.forEach((id) => window.clearInterval(id));
+      listeners.forEach((args) => canvas.removeEventListener(...args));
+      delete (canvas as Partial<HTMLCanvasElement>).addEventListener;
+
+      // Scene code may have left its objects in any state; free what can be freed
+      for (const cleanup of cleanups.reverse()) {
+        try {
+          cleanup();
+        } catch (e) {
+          console.warn('[Moodboard] Scene cleanup failed:', e);
+        }
+      }
+      cleanups.length = 0;
+    },
+  };
+
+  live.add(runtime);
+  return runtime;
+}
+
+/**
+ * Tears down every scene still running, for the host's teardown
+ */
+export function disposeAllSceneRuntimes(): void {
+  live.forEach((runtime) => runtime.dispose());
+}
+
+function disposeComposer(composer: EffectComposer): void {
+  composer.passes.forEach((pass) => pass.dispose());
+  composer.dispose();
+}
+
+/**
+ * Frees the geometries, materials and textures of everything in a scene
+ */
+function disposeSceneGraph(scene: THREE.Scene): void {
+  const disposeTexture = (value: unknown) => {
+    if (value instanceof THREE.Texture) value.dispose();
+  };
+
+  scene.traverse((object) => {
+    const { geometry, material } = object as Partial<THREE.Mesh>;
+    geometry?.dispose();
+
+    const materials = Array.isArray(material) ? material : material ? [material] : [];
+    for (const m of materials) {
+      Object.values(m).forEach(disposeTexture);
+      if (m instanceof THREE.ShaderMaterial) {
+        Object.values(m.uniforms).forEach((uniform) => disposeTexture(uniform.value));
+      }
+      m.dispose();
+    }
+  });
+  disposeTexture(scene.background);
+  disposeTexture(scene.environment);
+}
@@ -0,0 +1,158 @@
+/**
+ * Scene Worker
+ *
+ * Runs generated scene code on an OffscreenCanvas transferred from the
+ * widget. three.js and OrbitControls expect a DOM element, so the canvas
+ * stands in for one (size, style, pointer capture) and receives the pointer
+ * and wheel events the widget forwards. A heartbeat tells the widget's
+ * watchdog that the worker's event loop is still turning.
+ */
+
+import type * as THREE from 'three';
+import { createSeededRandom, installRandom } from './prng';
+import { captureShaderErrors } from './shader-errors';
+import { enforceRuntimeBudget } from './performance-monitor';
+import { createSceneResizer, type SceneResizer, type ViewportSize } from './viewport';
+import { executeSceneCode } from './scene-code';
+import { captureScene } from './snapshot';
+import type { SceneHooks } from './sandbox-three';
+import type { SceneTimers } from './scene-runtime';
+import type { AudioLevels } from './audio';
+import type { ForwardedEvent, FromSceneWorker, ToSceneWorker } from './offscreen-scene';
+import { getPerformanceBudget } from '../../src/generation/performance-budget';
+
+/** Well inside the widget's stall timeout */
+const HEARTBEAT_INTERVAL_MS = 500;
+
+/** Mouse events browsers fire after the pointer events of a mouse */
+const COMPATIBILITY_EVENTS: Record<string, string> = {
+  pointerdown: 'mousedown',
+  pointermove: 'mousemove',
+  pointerup: 'mouseup',
+};
+
+const post = (message: FromSceneWorker) => self.postMessage(message);
+
+// Workers without animation frames fall back to a 60 fps timer
+if (typeof self.requestAnimationFrame !== 'function') {
+  self.requestAnimationFrame = (callback) => self.setTimeout(() => callback(performance.now()), 1000 / 60);
+  self.cancelAnimationFrame = (id) => self.clearTimeout(id);
+}
+
+const timers: SceneTimers = {
+  requestAnimationFrame: (callback) => self.requestAnimationFrame(callback),
+  cancelAnimationFrame: (id) => self.cancelAnimationFrame(id),
+  setTimeout: (callback, delay) => self.setTimeout(callback, delay),
+  clearTimeout: (id) => self.clearTimeout(id),
+  setInterval: (callback, delay) => self.setInterval(callback, delay),
+  clearInterval: (id) => self.clearInterval(id),
+};
+
+const audio: AudioLevels = { bass: 0, mid: 0, treble: 0, level: 0, active: false };
+
+let canvas: OffscreenCanvas | null = null;
+let size: ViewportSize = { width: 1, height: 1, pixelRatio: 1 };
+let resizer: SceneResizer | null = null;
+const renderers: THREE.WebGLRenderer[] = [];
+
+function reportError(e: unknown): void {
+  post(e instanceof Error ? { type: 'error', message: e.message, stack: e.stack } : { type: 'error', message: 'Unknown error' });
+}
+
+/**
+ * Gives the canvas the element members three.js and OrbitControls use
+ */
+function emulateElement(target: OffscreenCanvas): void {
+  Object.defineProperties(target, {
+    style: { value: {} },
+    clientWidth: { get: () => size.width },
+    clientHeight: { get: () => size.height },
+    getBoundingClientRect: {
+      value: () => ({ left: 0, top: 0, x: 0, y: 0, width: size.width, height: size.height, right: size.width, bottom: size.height }),
+    },
+    getRootNode: { value: () => target },
+    setPointerCapture: { value: () => {} },
+    releasePointerCapture: { value: () => {} },
+    hasPointerCapture: { value: () => false },
+    focus: { value: () => {} },
+  });
+}
+
+function dispatch({ type, ...fields }: ForwardedEvent): void {
+  if (!canvas) return;
+  for (const name of [type, COMPATIBILITY_EVENTS[type]]) {
+    if (!name || (name !== type && fields.pointerType !== 'mouse')) continue;
+    canvas.dispatchEvent(Object.assign(new Event(name, { cancelable: true }), fields));
+  }
+}
+
+async function start(target: OffscreenCanvas, code: string, seed: number, complexity: number): Promise<void> {
+  canvas = target;
+  emulateElement(target);
+
+  const random = createSeededRandom(seed);
+  installRandom(random);
+
+  const sceneResizer = createSceneResizer(size, reportError);
+  resizer = sceneResizer;
+  const budget = getPerformanceBudget(complexity);
+  const hooks: SceneHooks = {
+    onRenderer: (renderer) => {
+      renderers.push(renderer);
+      sceneResizer.addRenderer(renderer);
+      captureShaderErrors(renderer, (e) => post({ type: 'shader-error', message: e.message, log: e.log }));
+      enforceRuntimeBudget(renderer, budget, (violations) => post({ type: 'budget', violations }));
+    },
+    onCamera: (camera) => sceneResizer.addCamera(camera),
+    onComposer: (composer) => sceneResizer.addComposer(composer),
+  };
+
+  try {
+    await executeSceneCode(code, target, size.width, size.height, {
+      random,
+      hooks,
+      onResize: sceneResizer.onResize,
+      timers,
+      audio,
+      onLoopPeriod: (seconds) => post({ type: 'loop-period', seconds }),
+    });
+  } catch (e) {
+    reportError(e);
+  }
+}
+
+async function capture(id: number, pixelRatio: number): Promise<void> {
+  try {
+    if (!canvas || !resizer) throw new Error('The scene has not started rendering');
+    const frame = await captureScene(canvas, renderers, resizer, pixelRatio);
+    self.postMessage({ type: 'frame', id, frame } satisfies FromSceneWorker, { transfer: [frame] });
+  } catch (e) {
+    post({ type: 'capture-error', id, message: e instanceof Error ? e.message : 'Capture failed' });
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<ToSceneWorker>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'start':
+      size = message.size;
+      void start(message.canvas, message.code, message.seed, message.complexity);
+      break;
+    case 'resize':
+      size = message.size;
+      resizer?.resize(size);
+      break;
+    case 'event':
+      dispatch(message.event);
+      break;
+    case 'audio':
+      Object.assign(audio, message.levels);
+      break;
+    case 'capture':
+      void capture(message.id, message.pixelRatio);
+      break;
+  }
+});
+
+self.setInterval(() => post({ type: 'heartbeat' }), HEARTBEAT_INTERVAL_MS);
+post({ type: 'ready' });
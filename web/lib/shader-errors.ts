@@ -0,0 +1,83 @@
+/**
+ * Shader Compile Error Capture
+ *
+ * A ShaderMaterial that fails to compile renders nothing, and three.js only
+ * logs the reason to the console. Renderers created by scene code report
+ * compile errors instead, with the failing GLSL lines, so the widget can
+ * show them and offer a repair.
+ */
+
+import * as THREE from 'three';
+
+/** Source lines shown around each error line */
+const CONTEXT_LINES = 2;
+
+export class ShaderCompileError extends Error {
+  /** Compiler log with source excerpts, per failing stage */
+  readonly log: string;
+
+  constructor(stages: string[], log: string) {
+    super(`Shader compile error in ${stages.join(' and ')} shader`);
+    this.name = 'ShaderCompileError';
+    this.log = log;
+  }
+}
+
+/**
+ * Reports a renderer's shader compile errors instead of logging them
+ */
+export function captureShaderErrors(
+  renderer: THREE.WebGLRenderer,
+  onError: (error: ShaderCompileError) => void
+): void {
+  renderer.debug.onShaderError = (gl, program, vertexShader, fragmentShader) =>
+    onError(toShaderCompileError(gl, program, vertexShader, fragmentShader));
+}
+
+function toShaderCompileError(
+  gl: WebGLRenderingContext,
+  program: WebGLProgram,
+  vertexShader: WebGLShader,
+  fragmentShader: WebGLShader
+): ShaderCompileError {
+  const stages: string[] = [];
+  const sections: string[] = [];
+
+  for (const [stage, shader] of [['vertex', vertexShader], ['fragment', fragmentShader]] as const) {
+    if (gl.getShaderParameter(shader, gl.COMPILE_STATUS)) continue;
+    stages.push(stage);
+    sections.push(formatStageLog(stage, gl.getShaderInfoLog(shader) ?? '', gl.getShaderSource(shader) ?? ''));
+  }
+
+  // Both stages compiled: the program failed to link (e.g. mismatched varyings)
+  if (stages.length === 0) {
+    stages.push('linked');
+    sections.push(`Link error:\n${(gl.getProgramInfoLog(program) ?? '').trim()}`);
+  }
+
+  return new ShaderCompileError(stages, sections.join('\n\n'));
+}
+
+/**
+ * Compiler log lines followed by the source lines they point at. Line
+ * numbers refer to the full source, including three.js's prepended
+ * definitions, so the excerpt is what makes them readable.
+ */
+function formatStageLog(stage: string, infoLog: string, source: string): string {
+  const messages = infoLog.split('\n').map((line) => line.trim()).filter(Boolean);
+  const sourceLines = source.split('\n');
+  const excerpts = messages.flatMap((message) => {
+    const match = /ERROR: \d+:(\d+)/.exec(message);
+    if (!match) return [];
+    const line = parseInt(match[1], 10);
+    const from = Math.max(1, line - CONTEXT_LINES);
+    const to = Math.min(sourceLines.length, line + CONTEXT_LINES);
+    const excerpt = [];
+    for (let n = from; n <= to; n++) {
+      excerpt.push(`${n === line ? '>' : ' '} ${n}: ${sourceLines[n - 1]}`);
+    }
+    return [excerpt.join('\n')];
+  });
+
+  return [`${stage} shader:`, ...messages, ...excerpts].join('\n');
+}
@@ -0,0 +1,143 @@
+/**
+ * Scene Snapshots
+ *
+ * A snapshot is the scene's next frame rendered at a chosen pixel ratio,
+ * optionally with the emotion badge drawn over it, as a PNG. The scene is
+ * resized for one frame rather than re-rendered, so scene code needs no
+ * cooperation; the frame is read right after the scene draws it, before the
+ * browser clears the drawing buffer. Capturing works the same on the main
+ * thread and inside the scene worker.
+ */
+
+import type * as THREE from 'three';
+import type { SceneResizer } from './viewport';
+
+/** Output pixels per canvas pixel offered for snapshots */
+export const SNAPSHOT_SCALES = [1, 2, 4] as const;
+
+/** Longest snapshot side; larger drawing buffers fail on many GPUs */
+export const MAX_SNAPSHOT_SIZE = 8192;
+
+/** Frames to wait for the scene to draw before giving up */
+const MAX_WAIT_FRAMES = 10;
+
+/** Text drawn in the top-left corner, like the widget's emotion badge */
+export interface SnapshotBadge {
+  title: string;
+  detail?: string;
+}
+
+const nextFrame = () => new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+/**
+ * Copies the next frame the scene's renderers draw
+ *
+ * Animation frame callbacks run in the order they were requested, and
+ * scene loops request theirs while drawing, so after waiting one frame
+ * the canvas holds what the scene drew in it.
+ *
+ * @throws Error when the scene draws nothing for several frames
+ */
+async function captureFrame(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  renderers: THREE.WebGLRenderer[]
+): Promise<ImageBitmap> {
+  const drawn = () => renderers.reduce((total, renderer) => total + renderer.info.render.frame, 0);
+  for (let waited = 0; waited < MAX_WAIT_FRAMES; waited++) {
+    const before = drawn();
+    await nextFrame();
+    if (drawn() !== before) return createImageBitmap(canvas);
+  }
+  throw new Error('The scene is not drawing any frames');
+}
+
+/**
+ * Captures a scene's next frame at a pixel ratio, then restores its size
+ */
+export async function captureScene(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  renderers: THREE.WebGLRenderer[],
+  resizer: SceneResizer,
+  pixelRatio: number
+): Promise<ImageBitmap> {
+  if (renderers.length === 0) throw new Error('The scene has not started rendering');
+
+  const size = resizer.size;
+  resizer.resize({ ...size, pixelRatio });
+  try {
+    return await captureFrame(canvas, renderers);
+  } finally {
+    resizer.resize(size);
+  }
+}
+
+/**
+ * Encodes a captured frame as PNG, with the badge drawn over it
+ *
+ * @param scale - Frame pixels per canvas pixel; the badge is scaled to match
+ */
+export function renderSnapshot(frame: ImageBitmap, badge: SnapshotBadge | null, scale: number): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is unavailable');
+
+  ctx.drawImage(frame, 0, 0);
+  frame.close();
+
+  if (badge) {
+    // Same layout as the widget's badge, in canvas pixels
+    ctx.scale(scale, scale);
+    const title = '13px system-ui';
+    const detail = '11px system-ui';
+    ctx.font = title;
+    const titleWidth = ctx.measureText(badge.title).width;
+    ctx.font = detail;
+    const detailWidth = badge.detail ? 8 + ctx.measureText(badge.detail).width : 0;
+
+    ctx.fillStyle = 'rgba(26, 26, 46, 0.8)';
+    ctx.beginPath();
+    ctx.roundRect(12, 12, titleWidth + detailWidth + 24, 33, 6);
+    ctx.fill();
+
+    ctx.textBaseline = 'middle';
+    ctx.font = title;
+    ctx.fillStyle = '#7ec8e3';
+    ctx.fillText(badge.title, 24, 29);
+    if (badge.detail) {
+      ctx.font = detail;
+      ctx.fillStyle = '#aaa';
+      ctx.fillText(badge.detail, 32 + titleWidth, 29);
+    }
+  }
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png')
+  );
+}
+
+/**
+ * Saves a blob through a temporary download link
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // The download starts asynchronously; keep the URL alive until it has
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
+
+/**
+ * Base64 payload of a blob, for MCP image content
+ */
+export function toBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).slice(String(reader.result).indexOf(',') + 1));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
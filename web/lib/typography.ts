@@ -0,0 +1,69 @@
+/**
+ * Scene Typography
+ *
+ * The widget CSP blocks font requests, so a small set of typeface fonts is
+ * inlined into the widget build. Spec text objects and the
+ * createTextGeometry global of code scenes both letter with them. The fonts
+ * cover basic Latin; missing glyphs render as "?".
+ */
+
+import { Font, type FontData } from 'three/examples/jsm/loaders/FontLoader.js';
+import { TextGeometry } from 'three/examples/jsm/geometries/TextGeometry.js';
+import helvetiker from 'three/examples/fonts/helvetiker_regular.typeface.json';
+import helvetikerBold from 'three/examples/fonts/helvetiker_bold.typeface.json';
+import optimer from 'three/examples/fonts/optimer_regular.typeface.json';
+import type { TextFont } from '../../src/schemas/scene-spec';
+
+export interface TextOptions {
+  /** Bundled typeface (default: helvetiker) */
+  font?: TextFont;
+  /** Letter height in world units (default: 0.5) */
+  size?: number;
+  /** Extrusion depth; 0 for flat lettering (default: 0.1) */
+  depth?: number;
+  /** Rounded edges that catch the light (default: false) */
+  bevel?: boolean;
+}
+
+const FONT_DATA: Record<TextFont, unknown> = {
+  helvetiker,
+  'helvetiker-bold': helvetikerBold,
+  optimer,
+};
+
+/** Curve subdivisions per glyph segment; enough for smooth letters at scene scale */
+const CURVE_SEGMENTS = 6;
+
+// Parsed on first use
+const fonts = new Map<TextFont, Font>();
+
+function getFont(name: TextFont): Font {
+  let font = fonts.get(name);
+  if (!font) {
+    // Unknown names from scene code fall back to the default typeface
+    font = new Font((FONT_DATA[name] ?? FONT_DATA.helvetiker) as FontData);
+    fonts.set(name, font);
+  }
+  return font;
+}
+
+/**
+ * Builds 3D lettering centred on the origin, so position and rotation act
+ * around the middle of the text
+ */
+export function createTextGeometry(text: string, options: TextOptions = {}): TextGeometry {
+  const { font = 'helvetiker', size = 0.5, depth = 0.1, bevel = false } = options;
+
+  const geometry = new TextGeometry(text, {
+    font: getFont(font),
+    size,
+    depth,
+    curveSegments: CURVE_SEGMENTS,
+    bevelEnabled: bevel,
+    bevelThickness: size * 0.04,
+    bevelSize: size * 0.02,
+    bevelSegments: 3,
+  });
+  geometry.center();
+  return geometry;
+}
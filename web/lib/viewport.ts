@@ -0,0 +1,175 @@
+/**
+ * Responsive Canvas
+ *
+ * The widget's pane changes size (chat pane resized, phone rotated) and the
+ * page can move between screens of different pixel density. The viewport
+ * observer reports the canvas size - the container width, and the requested
+ * height or the height that keeps the requested aspect ratio - with the
+ * device pixel ratio. The scene resizer applies every change to what the
+ * scene created: renderers, perspective cameras, effect composers and the
+ * scene code's own onResize callbacks.
+ */
+
+import * as THREE from 'three';
+import type { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+
+/** Sharper than this costs fill rate without a visible difference */
+const MAX_PIXEL_RATIO = 2;
+
+/** Width used before the container has been laid out */
+const FALLBACK_WIDTH = 800;
+
+export interface ViewportSize {
+  width: number;
+  height: number;
+  pixelRatio: number;
+}
+
+export interface ViewportOptions {
+  /** Canvas height in pixels, used without an aspect ratio */
+  height: number;
+  /** Width / height ratio; the height follows the width when set */
+  aspect?: number;
+}
+
+/** Scene code's resize hook; called after renderers and cameras are resized */
+export type ResizeCallback = (width: number, height: number) => void;
+
+function currentPixelRatio(): number {
+  return Math.min(window.devicePixelRatio || 1, MAX_PIXEL_RATIO);
+}
+
+/**
+ * Computes the canvas size for a container
+ */
+export function measureViewport(container: HTMLElement, options: ViewportOptions): ViewportSize {
+  const width = container.clientWidth || FALLBACK_WIDTH;
+  const height = options.aspect ? Math.round(width / options.aspect) : options.height;
+  return { width, height, pixelRatio: currentPixelRatio() };
+}
+
+/**
+ * Reports the canvas size whenever the container or pixel ratio changes
+ *
+ * Changes are coalesced to one report per animation frame.
+ *
+ * @returns Stop function
+ */
+export function observeViewport(
+  container: HTMLElement,
+  options: ViewportOptions,
+  onChange: (size: ViewportSize) => void
+): () => void {
+  let last = measureViewport(container, options);
+  let frameId = 0;
+
+  const check = () => {
+    cancelAnimationFrame(frameId);
+    frameId = requestAnimationFrame(() => {
+      const size = measureViewport(container, options);
+      if (size.width === last.width && size.height === last.height && size.pixelRatio === last.pixelRatio) return;
+      last = size;
+      onChange(size);
+    });
+  };
+
+  const observer = new ResizeObserver(check);
+  observer.observe(container);
+
+  // A resolution query only matches the current ratio, so it is re-armed
+  // after every change
+  let media: MediaQueryList | null = null;
+  const watchPixelRatio = () => {
+    media?.removeEventListener('change', onPixelRatioChange);
+    media = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+    media.addEventListener('change', onPixelRatioChange);
+  };
+  const onPixelRatioChange = () => {
+    watchPixelRatio();
+    check();
+  };
+  watchPixelRatio();
+
+  onChange(last);
+
+  return () => {
+    cancelAnimationFrame(frameId);
+    observer.disconnect();
+    media?.removeEventListener('change', onPixelRatioChange);
+  };
+}
+
+/**
+ * Keeps a scene's renderers, cameras and composers in step with the viewport
+ */
+export interface SceneResizer {
+  /** Size last applied */
+  readonly size: ViewportSize;
+  addRenderer(renderer: THREE.WebGLRenderer): void;
+  addCamera(camera: THREE.PerspectiveCamera): void;
+  addComposer(composer: EffectComposer): void;
+  /** Registers a scene code callback; exposed to scene code as onResize */
+  onResize(callback: ResizeCallback): void;
+  resize(size: ViewportSize): void;
+}
+
+/**
+ * Creates the resizer for one scene
+ *
+ * Renderers get the device pixel ratio when added. A pixel ratio change
+ * scales each renderer's current ratio, so a budget downgrade (halved
+ * resolution) survives moving to another screen.
+ *
+ * @param onError - Receives errors thrown by scene code callbacks
+ */
+export function createSceneResizer(initial: ViewportSize, onError: (error: unknown) => void): SceneResizer {
+  let size = initial;
+  const renderers: THREE.WebGLRenderer[] = [];
+  const cameras: THREE.PerspectiveCamera[] = [];
+  const composers: EffectComposer[] = [];
+  const callbacks: ResizeCallback[] = [];
+
+  return {
+    get size() {
+      return size;
+    },
+    addRenderer(renderer) {
+      renderer.setPixelRatio(size.pixelRatio);
+      renderers.push(renderer);
+    },
+    addCamera(camera) {
+      cameras.push(camera);
+    },
+    addComposer(composer) {
+      composers.push(composer);
+    },
+    onResize(callback) {
+      if (typeof callback === 'function') callbacks.push(callback);
+    },
+    resize(next) {
+      const scale = next.pixelRatio / size.pixelRatio;
+      size = next;
+      const { width, height } = next;
+
+      for (const renderer of renderers) {
+        if (scale !== 1) renderer.setPixelRatio(renderer.getPixelRatio() * scale);
+        renderer.setSize(width, height);
+      }
+      for (const camera of cameras) {
+        camera.aspect = width / height;
+        camera.updateProjectionMatrix();
+      }
+      for (const composer of composers) {
+        composer.setPixelRatio(composer.renderer.getPixelRatio());
+        composer.setSize(width, height);
+      }
+      for (const callback of callbacks) {
+        try {
+          callback(width, height);
+        } catch (e) {
+          onError(e);
+        }
+      }
+    },
+  };
+}
@@ -4,30 +4,107 @@
  * Interactive Three.js scene renderer for emotional/abstract visualizations.
  * Based on threejs-server example with streaming code preview.
  */
-import { StrictMode, useState, useEffect, useRef, useCallback } from 'react';
+import { StrictMode, useState, useEffect, useRef, useCallback, useMemo, type RefObject } from 'react';
 import { createRoot } from 'react-dom/client';
 import type { App, McpUiHostContext } from '@modelcontextprotocol/ext-apps';
 import { useApp } from '@modelcontextprotocol/ext-apps/react';
+import { ProgressNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import * as THREE from 'three';
-import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
-import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
-import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import type * as THREE from 'three';
+import { buildSceneFromSpec } from '../lib/scene-interpreter';
+import { createSeededRandom, installRandom, DEFAULT_SEED } from '../lib/prng';
+import { captureShaderErrors, type ShaderCompileError } from '../lib/shader-errors';
+import { combineHooks, type SceneHooks } from '../lib/sandbox-three';
+import { createSceneRuntime, disposeAllSceneRuntimes } from '../lib/scene-runtime';
+import { executeSceneCode } from '../lib/scene-code';
+import { createOffscreenScene, supportsOffscreenScenes, type OffscreenScene } from '../lib/offscreen-scene';
+import {
+  captureScene,
+  downloadBlob,
+  renderSnapshot,
+  toBase64,
+  MAX_SNAPSHOT_SIZE,
+  SNAPSHOT_SCALES,
+} from '../lib/snapshot';
+import {
+  loopDuration,
+  recordCanvas,
+  supportsRecording,
+  RECORDING_DURATIONS,
+  RECORDING_FRAME_RATES,
+  type Recording,
+} from '../lib/recorder';
+import {
+  createSceneResizer,
+  measureViewport,
+  observeViewport,
+  type SceneResizer,
+  type ViewportSize,
+} from '../lib/viewport';
+import { enforceRuntimeBudget } from '../lib/performance-monitor';
+import { createSceneAudio, type AudioSourceKind } from '../lib/audio';
+import { createJourneyTimeline, type JourneyTimeline } from '../lib/journey';
+import {
+  formatBudgetViolation,
+  getPerformanceBudget,
+  type BudgetViolation,
+} from '../../src/generation/performance-budget';
+import type { MoodSceneSpec, SceneFormat } from '../../src/schemas/scene-spec';
+import { PARTIAL_CODE_META_KEY } from '../../src/generation/progress';
+import type { GenerationMode } from '../../src/generation/procedural';
+import type { EmotionProfile } from '../../src/emotion/visual-parameters';
+import type { StyleName } from '../../src/styles/presets';
+import type { MoodJourney } from '../../src/generation/journey';
 
 // ============================================================================
 // Types
 // ============================================================================
 
 interface MoodboardToolInput {
+  format?: SceneFormat;
+  mode?: GenerationMode;
+  fallbackReason?: string;
+  emotionProfile?: EmotionProfile;
+  style?: StyleName;
+  complexity?: number;
+  spec?: MoodSceneSpec;
   code?: string;
   emotion?: string;
   height?: number;
+  /** Canvas width in pixels; fills the container when unset */
+  width?: number;
+  /** Width / height ratio; overrides height */
+  aspect?: number;
+  /** The scene follows the audio levels; the widget offers audio sources */
+  audioReactive?: boolean;
+  /** Keyframes of a generate_mood_journey scene */
+  journey?: MoodJourney;
+  seed?: number;
+  /** Prompt template behind an AI scene; repairs reuse it */
+  provenance?: { promptVersion: string };
+}
+
+/** Error raised while building or running a scene */
+interface SceneError {
+  message: string;
+  stack?: string;
+  /** Compiler output shown under the message (shader compile errors) */
+  details?: string;
+  /** Raw code errors can be sent to repair_mood_scene */
+  repairable: boolean;
+}
+
+/** Latest progress notification for the running tool call */
+interface ToolProgress {
+  message?: string;
+  /** Code generated so far, streamed by the server */
+  partialCode?: string;
 }
 
 interface WidgetProps {
   toolInputs: MoodboardToolInput | null;
   toolInputsPartial: MoodboardToolInput | null;
+  toolProgress: ToolProgress | null;
   toolResult: CallToolResult | null;
   hostContext: McpUiHostContext | null;
   callServerTool: App['callServerTool'];
@@ -42,6 +119,7 @@ interface WidgetProps {
 
 const APP_INFO = { name: '3D Moodboard Widget', version: '1.0.0' };
 const DEFAULT_HEIGHT = 600;
+const DEFAULT_COMPLEXITY = 5;
 
 // Default demo code shown when no code is provided
 const DEFAULT_THREEJS_CODE = `const scene = new THREE.Scene();
@@ -104,45 +182,39 @@ function animate() {
 }
 animate();`;
 
-// Context object passed to user code
-const threeContext = {
-  THREE,
-  OrbitControls,
-  EffectComposer,
-  RenderPass,
-  UnrealBloomPass,
-};
+// One audio engine per widget; its levels outlive scene rebuilds
+const sceneAudio = createSceneAudio();
 
 // ============================================================================
 // Helpers
 // ============================================================================
 
-async function executeThreeCode(
-  code: string,
-  canvas: HTMLCanvasElement,
-  width: number,
-  height: number
-): Promise<void> {
-  // Critical: Set canvas buffer dimensions (not just CSS size)
-  canvas.width = width;
-  canvas.height = height;
-
-  const fn = new Function(
-    'ctx',
-    'canvas',
-    'width',
-    'height',
-    `const { THREE, OrbitControls, EffectComposer, RenderPass, UnrealBloomPass } = ctx;
-     return (async () => { ${code} })();`
-  );
-  await fn(threeContext, canvas, width, height);
+function toSceneError(e: unknown): Omit<SceneError, 'repairable'> {
+  return e instanceof Error
+    ? { message: e.message, stack: e.stack }
+    : { message: 'Unknown error' };
+}
+
+/** Download name for an exported snapshot or video of a scene */
+function exportFilename(emotion: string | undefined, extension: string): string {
+  return `moodboard-${(emotion ?? 'scene').toLowerCase().replace(/[^a-z0-9]+/g, '-')}.${extension}`;
 }
 
 // ============================================================================
 // Loading Shimmer Component
 // ============================================================================
 
-function LoadingShimmer({ height, code, emotion }: { height: number; code?: string; emotion?: string }) {
+function LoadingShimmer({
+  height,
+  code,
+  emotion,
+  message,
+}: {
+  height: number;
+  code?: string;
+  emotion?: string;
+  message?: string;
+}) {
   const preRef = useRef<HTMLPreElement>(null);
 
   useEffect(() => {
@@ -176,7 +248,7 @@ function LoadingShimmer({ height, code, emotion }: { height: number; code?: stri
           gap: 8,
         }}
       >
-        <span>🎨 Generating</span>
+        <span>🎨 {message ?? 'Generating'}</span>
         {emotion && <span style={{ color: '#7ec8e3' }}>&quot;{emotion}&quot;</span>}
       </div>
       {code && (
@@ -202,6 +274,374 @@ function LoadingShimmer({ height, code, emotion }: { height: number; code?: stri
   );
 }
 
+// ============================================================================
+// Audio Controls Component
+// ============================================================================
+
+const AUDIO_SOURCE_LABELS: Record<AudioSourceKind, string> = {
+  synth: '🎵 Ambient',
+  microphone: '🎤 Mic',
+};
+
+function AudioControls({
+  source,
+  failure,
+  onToggle,
+}: {
+  source: AudioSourceKind | null;
+  failure: string | null;
+  onToggle: (kind: AudioSourceKind) => void;
+}) {
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 12,
+        right: 12,
+        zIndex: 10,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 6,
+        fontFamily: 'system-ui',
+        fontSize: 12,
+      }}
+    >
+      {failure && <span style={{ color: '#f0a0a0' }}>{failure}</span>}
+      {(Object.keys(AUDIO_SOURCE_LABELS) as AudioSourceKind[]).map((kind) => (
+        <button
+          key={kind}
+          onClick={() => onToggle(kind)}
+          aria-pressed={source === kind}
+          style={{
+            background: source === kind ? '#7ec8e3' : 'rgba(26, 26, 46, 0.8)',
+            color: source === kind ? '#1a1a2e' : '#7ec8e3',
+            border: '1px solid #7ec8e3',
+            borderRadius: 6,
+            padding: '5px 10px',
+            fontFamily: 'system-ui',
+            fontSize: 12,
+            cursor: 'pointer',
+          }}
+        >
+          {AUDIO_SOURCE_LABELS[kind]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// ============================================================================
+// Journey Timeline Component
+// ============================================================================
+
+function TimelineControls({ timeline }: { timeline: JourneyTimeline }) {
+  const { keyframes, duration } = timeline.journey;
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(true);
+
+  // The timeline runs on its own clock; follow it while mounted
+  useEffect(() => {
+    let frameId = 0;
+    const follow = () => {
+      frameId = requestAnimationFrame(follow);
+      setTime(Math.round(timeline.time() * 10) / 10);
+      setPlaying(timeline.isPlaying());
+    };
+    follow();
+    return () => cancelAnimationFrame(frameId);
+  }, [timeline]);
+
+  const stage = timeline.look().stage;
+  const ended = !timeline.journey.loop && time >= duration;
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 10,
+        marginTop: 8,
+        color: '#aaa',
+        fontFamily: 'system-ui',
+        fontSize: 12,
+      }}
+    >
+      <button
+        onClick={() => (playing && !ended ? timeline.pause() : timeline.play())}
+        aria-label={playing && !ended ? 'Pause journey' : 'Play journey'}
+        style={{
+          background: 'rgba(26, 26, 46, 0.8)',
+          color: '#7ec8e3',
+          border: '1px solid #7ec8e3',
+          borderRadius: 6,
+          padding: '4px 10px',
+          cursor: 'pointer',
+          fontSize: 12,
+        }}
+      >
+        {playing && !ended ? '⏸' : '▶'}
+      </button>
+      <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: 4 }}>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.1}
+          value={time}
+          onChange={(e) => timeline.seek(Number(e.target.value))}
+          aria-label="Journey position"
+          style={{ width: '100%', accentColor: '#7ec8e3' }}
+        />
+        <div style={{ display: 'flex' }}>
+          {keyframes.map((k, i) => (
+            <span
+              key={i}
+              style={{
+                flex: k.duration,
+                color: i === stage ? '#7ec8e3' : '#666',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {k.emotion}
+            </span>
+          ))}
+        </div>
+      </div>
+      <span style={{ fontVariantNumeric: 'tabular-nums' }}>
+        {time.toFixed(1)}s / {duration}s
+      </span>
+    </div>
+  );
+}
+
+// ============================================================================
+// Snapshot Controls Component
+// ============================================================================
+
+interface SnapshotRequest {
+  /** Output pixels per canvas pixel */
+  scale: number;
+  /** Draw the emotion badge over the frame */
+  badge: boolean;
+  /** Save the PNG, or attach it to the conversation */
+  action: 'download' | 'send';
+}
+
+const SNAPSHOT_ACTION_LABELS: Record<SnapshotRequest['action'], string> = {
+  download: 'Download PNG',
+  send: 'Send to chat',
+};
+
+function SnapshotControls({
+  size,
+  hasBadge,
+  onCapture,
+}: {
+  size: ViewportSize;
+  hasBadge: boolean;
+  onCapture: (request: SnapshotRequest) => Promise<void>;
+}) {
+  const scales = SNAPSHOT_SCALES.filter((s) => s === 1 || Math.max(size.width, size.height) * s <= MAX_SNAPSHOT_SIZE);
+  const [scale, setScale] = useState<number>(1);
+  const [badge, setBadge] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const capture = async (action: SnapshotRequest['action']) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      await onCapture({ scale, badge: hasBadge && badge, action });
+      if (action === 'send') setStatus('Sent to chat');
+    } catch (e) {
+      setStatus(toSceneError(e).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const buttonStyle = {
+    background: 'rgba(26, 26, 46, 0.8)',
+    color: '#7ec8e3',
+    border: '1px solid #7ec8e3',
+    borderRadius: 6,
+    padding: '4px 10px',
+    cursor: busy ? 'wait' : 'pointer',
+    fontSize: 12,
+  };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 10,
+        marginTop: 8,
+        color: '#aaa',
+        fontFamily: 'system-ui',
+        fontSize: 12,
+      }}
+    >
+      <select
+        value={scale}
+        onChange={(e) => setScale(Number(e.target.value))}
+        aria-label="Snapshot resolution"
+        style={{ ...buttonStyle, cursor: 'pointer' }}
+      >
+        {scales.map((s) => (
+          <option key={s} value={s}>
+            {size.width * s}×{size.height * s}
+          </option>
+        ))}
+      </select>
+      {hasBadge && (
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4, cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={badge}
+            onChange={(e) => setBadge(e.target.checked)}
+            style={{ accentColor: '#7ec8e3' }}
+          />
+          Emotion badge
+        </label>
+      )}
+      {(Object.keys(SNAPSHOT_ACTION_LABELS) as SnapshotRequest['action'][]).map((action) => (
+        <button key={action} onClick={() => capture(action)} disabled={busy} style={buttonStyle}>
+          {SNAPSHOT_ACTION_LABELS[action]}
+        </button>
+      ))}
+      {status && <span>{status}</span>}
+    </div>
+  );
+}
+
+// ============================================================================
+// Record Controls Component
+// ============================================================================
+
+function RecordControls({
+  canvasRef,
+  loopPeriod,
+  filename,
+  unavailable,
+}: {
+  canvasRef: RefObject<HTMLCanvasElement>;
+  /** Seconds after which the scene repeats exactly; null when unknown */
+  loopPeriod: number | null;
+  filename: string;
+  /** Why the canvas cannot be recorded right now, if it cannot */
+  unavailable: string | null;
+}) {
+  const [duration, setDuration] = useState<number>(RECORDING_DURATIONS[1]);
+  const [frameRate, setFrameRate] = useState<number>(30);
+  const [seamless, setSeamless] = useState(false);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [video, setVideo] = useState<Blob | null>(null);
+  const [failure, setFailure] = useState<string | null>(null);
+
+  const loopSeconds = loopPeriod ? loopDuration(loopPeriod, duration) : null;
+  const seconds = seamless && loopSeconds ? loopSeconds : duration;
+
+  // A recording stops with its scene
+  useEffect(() => () => recording?.stop(), [recording]);
+
+  const start = () => {
+    if (!canvasRef.current || unavailable) return;
+    setFailure(null);
+    setVideo(null);
+    try {
+      const next = recordCanvas(canvasRef.current, seconds, frameRate);
+      setRecording(next);
+      next.done
+        .then(setVideo, (e) => setFailure(toSceneError(e).message))
+        .finally(() => setRecording(null));
+    } catch (e) {
+      setFailure(toSceneError(e).message);
+    }
+  };
+
+  const controlStyle = {
+    background: 'rgba(26, 26, 46, 0.8)',
+    color: '#7ec8e3',
+    border: '1px solid #7ec8e3',
+    borderRadius: 6,
+    padding: '4px 10px',
+    cursor: 'pointer',
+    fontSize: 12,
+  };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 10,
+        marginTop: 8,
+        color: '#aaa',
+        fontFamily: 'system-ui',
+        fontSize: 12,
+      }}
+    >
+      <select
+        value={duration}
+        onChange={(e) => setDuration(Number(e.target.value))}
+        disabled={!!recording}
+        aria-label="Recording length"
+        style={controlStyle}
+      >
+        {RECORDING_DURATIONS.map((d) => (
+          <option key={d} value={d}>
+            {d}s
+          </option>
+        ))}
+      </select>
+      <select
+        value={frameRate}
+        onChange={(e) => setFrameRate(Number(e.target.value))}
+        disabled={!!recording}
+        aria-label="Recording frame rate"
+        style={controlStyle}
+      >
+        {RECORDING_FRAME_RATES.map((f) => (
+          <option key={f} value={f}>
+            {f} fps
+          </option>
+        ))}
+      </select>
+      <label
+        title={loopSeconds ? undefined : 'The scene does not declare a loop period'}
+        style={{ display: 'flex', alignItems: 'center', gap: 4, opacity: loopSeconds ? 1 : 0.5 }}
+      >
+        <input
+          type="checkbox"
+          checked={seamless && !!loopSeconds}
+          onChange={(e) => setSeamless(e.target.checked)}
+          disabled={!loopSeconds || !!recording}
+          style={{ accentColor: '#7ec8e3' }}
+        />
+        Seamless loop{seamless && loopSeconds ? ` (${Math.round(loopSeconds * 10) / 10}s)` : ''}
+      </label>
+      <button
+        onClick={() => (recording ? recording.stop() : start())}
+        disabled={!recording && !!unavailable}
+        title={recording ? undefined : unavailable ?? undefined}
+        style={{ ...controlStyle, opacity: !recording && unavailable ? 0.5 : 1 }}
+      >
+        {recording ? '■ Stop' : '● Record'}
+      </button>
+      {recording && <span>Recording {Math.round(seconds * 10) / 10}s…</span>}
+      {video && !recording && (
+        <button onClick={() => downloadBlob(video, filename)} style={controlStyle}>
+          Download WebM ({(video.size / 1_000_000).toFixed(1)} MB)
+        </button>
+      )}
+      {failure && <span style={{ color: '#f0a0a0' }}>{failure}</span>}
+    </div>
+  );
+}
+
 // ============================================================================
 // Main Moodboard App Component
 // ============================================================================
@@ -232,50 +672,344 @@ function extractStructuredContent(result: CallToolResult | null): MoodboardToolI
   return null;
 }
 
+// Helper to read the text content of a tool result (used for error messages)
+function extractText(result: CallToolResult): string {
+  return (result.content ?? [])
+    .filter((c): c is { type: 'text'; text: string } => c.type === 'text')
+    .map((c) => c.text)
+    .join('\n');
+}
+
+// Helper to read a progress notification's params
+function toToolProgress(params: { message?: string; _meta?: Record<string, unknown> }): ToolProgress {
+  const partialCode = params._meta?.[PARTIAL_CODE_META_KEY];
+  return {
+    message: params.message,
+    partialCode: typeof partialCode === 'string' ? partialCode : undefined,
+  };
+}
+
 function MoodboardApp({
   toolInputs,
   toolInputsPartial,
+  toolProgress,
   toolResult,
+  callServerTool,
+  sendMessage,
 }: WidgetProps) {
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<SceneError | null>(null);
+  const [repairedCode, setRepairedCode] = useState<string | null>(null);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [repairFailure, setRepairFailure] = useState<string | null>(null);
+  const [repairStatus, setRepairStatus] = useState<string | null>(null);
+  const [budgetNotice, setBudgetNotice] = useState<string | null>(null);
+  const [loopPeriod, setLoopPeriod] = useState<number | null>(null);
+  const [audioSource, setAudioSource] = useState<AudioSourceKind | null>(null);
+  const [audioFailure, setAudioFailure] = useState<string | null>(null);
+  const [viewport, setViewport] = useState<ViewportSize | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // The running scene, on the main thread or in the worker
+  const sceneRef = useRef<Pick<OffscreenScene, 'resize' | 'capture'> | null>(null);
+  // Scenes started so far; each gets its own canvas element, since a canvas
+  // handed to a worker cannot be drawn on again
+  const sceneRuns = useRef(0);
+  const [sceneRun, setSceneRun] = useState(0);
+  // A canvas transferred to the worker has no stream to record on the main thread
+  const [isOffscreen, setIsOffscreen] = useState(false);
 
   // Extract code from tool RESULT (not input - we generate the code server-side)
-  const resultData = extractStructuredContent(toolResult);
+  // Memoized so a spec parsed from text content keeps a stable identity
+  const resultData = useMemo(() => extractStructuredContent(toolResult), [toolResult]);
+
+  // A new tool result replaces any in-place repair of the previous one
+  useEffect(() => setRepairedCode(null), [toolResult]);
 
   const height = resultData?.height ?? toolInputs?.height ?? toolInputsPartial?.height ?? DEFAULT_HEIGHT;
-  const code = resultData?.code || DEFAULT_THREEJS_CODE;
+  const width = resultData?.width ?? toolInputs?.width ?? toolInputsPartial?.width;
+  const aspect = resultData?.aspect ?? toolInputs?.aspect ?? toolInputsPartial?.aspect;
+  const spec = repairedCode ? undefined : resultData?.spec;
+  const code = repairedCode || resultData?.code || DEFAULT_THREEJS_CODE;
   const emotion = resultData?.emotion ?? toolInputs?.emotion ?? toolInputsPartial?.emotion;
-  const partialCode = toolInputsPartial?.code;
+  const blend = resultData?.emotionProfile?.blend;
+  const blendLabel = blend?.map((c) => `${Math.round(c.weight * 100)}% ${c.emotion}`).join(' · ');
+  const seed = resultData?.seed ?? DEFAULT_SEED;
+  const complexity = resultData?.complexity ?? toolInputs?.complexity ?? DEFAULT_COMPLEXITY;
+  // Code streams in through progress notifications while the server generates
+  const partialCode = toolProgress?.partialCode ?? toolInputsPartial?.code;
   const isStreaming = !toolResult && !!toolInputsPartial;
+  const showScene = !isStreaming && !!toolResult;
+  const audioReactive = resultData?.audioReactive === true;
+  // Journeys animate spec scenes; a new result restarts the journey
+  const timeline = useMemo(
+    () => (spec && resultData?.journey ? createJourneyTimeline(resultData.journey) : null),
+    [spec, resultData]
+  );
+  const mood = resultData?.emotionProfile?.vad;
+
+  // A new scene first gets a fresh canvas; it is built once that has rendered
+  useEffect(() => setSceneRun(++sceneRuns.current), [spec, code, seed, complexity, audioReactive, timeline]);
+
+  // Audio only plays for audio-reactive scenes, and never after the widget closes
+  useEffect(() => {
+    if (audioReactive) return;
+    sceneAudio.stop();
+    setAudioSource(null);
+    setAudioFailure(null);
+  }, [audioReactive]);
+
+  useEffect(() => () => sceneAudio.stop(), []);
+
+  const toggleAudio = useCallback(
+    async (kind: AudioSourceKind) => {
+      setAudioFailure(null);
+      if (sceneAudio.source === kind) {
+        sceneAudio.stop();
+        setAudioSource(null);
+        return;
+      }
+      try {
+        await sceneAudio.start(kind, mood ?? { valence: 0, arousal: 0 });
+        setAudioSource(sceneAudio.source);
+      } catch (e) {
+        setAudioSource(null);
+        setAudioFailure(kind === 'microphone' ? 'Microphone unavailable' : toSceneError(e).message);
+      }
+    },
+    [mood]
+  );
+
+  // The canvas follows its container; scenes are resized, not rebuilt
+  useEffect(() => {
+    if (!showScene || !containerRef.current) return;
+    return observeViewport(containerRef.current, { height, aspect }, setViewport);
+  }, [showScene, height, aspect]);
+
+  useEffect(() => {
+    if (viewport) sceneRef.current?.resize(viewport);
+  }, [viewport]);
 
   useEffect(() => {
-    if (!code || !canvasRef.current || !containerRef.current) return;
+    if (!sceneRun || !code || !canvasRef.current || !containerRef.current) return;
 
     setError(null);
+    setRepairFailure(null);
+    setBudgetNotice(null);
+    setIsOffscreen(false);
+    // Looping journeys repeat after their duration; scene code declares its own period
+    setLoopPeriod(timeline?.journey.loop ? timeline.journey.duration : null);
+
+    // Everything the scene starts or creates is torn down with its runtime:
+    // on re-run, on unmount and on the host's teardown
+    const runtime = createSceneRuntime(canvasRef.current);
+
+    // Every renderer, built by the interpreter or by scene code, reports
+    // shader compile errors (which surface on the first render) and is held
+    // to the complexity's performance budget. Spec scenes have no code to
+    // send to repair, so their errors are not repairable
+    const budget = getPerformanceBudget(complexity);
+    const onShaderError = (e: Pick<ShaderCompileError, 'message' | 'log'>) =>
+      setError({ message: e.message, details: e.log, repairable: !spec });
+    const onBudgetExceeded = (violations: BudgetViolation[]) =>
+      setBudgetNotice(
+        `Over the complexity ${budget.complexity} budget: ${violations.map(formatBudgetViolation).join(', ')}. Rendering at reduced resolution.`
+      );
+    const watchRenderer = (renderer: THREE.WebGLRenderer) => {
+      captureShaderErrors(renderer, onShaderError);
+      runtime.addCleanup(enforceRuntimeBudget(renderer, budget, onBudgetExceeded));
+    };
+
+    // Renderers, cameras and composers follow the viewport through the
+    // scene's resizer, created once the size is known
+    let resizer: SceneResizer | null = null;
+    const renderers: THREE.WebGLRenderer[] = [];
+    const hooks: SceneHooks = {
+      onRenderer: (renderer) => {
+        renderers.push(renderer);
+        resizer?.addRenderer(renderer);
+        watchRenderer(renderer);
+      },
+      onCamera: (camera) => resizer?.addCamera(camera),
+      onComposer: (composer) => resizer?.addComposer(composer),
+    };
+
+    // Math.random is seeded for the scene's lifetime so the seed recreates it
+    const random = createSeededRandom(seed);
+    const restoreRandom = installRandom(random);
 
     // Use requestAnimationFrame to ensure layout is complete
     const frameId = requestAnimationFrame(() => {
       if (!canvasRef.current || !containerRef.current) return;
 
-      const width = containerRef.current.offsetWidth || 800;
+      const canvas = canvasRef.current;
+      const size = measureViewport(containerRef.current, { height, aspect });
+      const sceneResizer = createSceneResizer(size, (e) => setError({ ...toSceneError(e), repairable: !spec }));
+      resizer = sceneResizer;
+      const mainThreadScene = {
+        resize: sceneResizer.resize,
+        capture: (pixelRatio: number) => captureScene(canvas, renderers, sceneResizer, pixelRatio),
+      };
+      sceneRef.current = mainThreadScene;
 
-      executeThreeCode(code, canvasRef.current, width, height).catch((e) =>
-        setError(e instanceof Error ? e.message : 'Unknown error')
-      );
+      // Declarative specs are interpreted; raw code (legacy format) is executed
+      if (spec) {
+        try {
+          const disposeScene = buildSceneFromSpec(
+            spec,
+            canvas,
+            size.width,
+            size.height,
+            {
+              hooks,
+              audio: audioReactive ? sceneAudio.levels : undefined,
+              journey: timeline ?? undefined,
+            }
+          );
+          runtime.addCleanup(disposeScene);
+        } catch (e) {
+          setError({ ...toSceneError(e), repairable: false });
+        }
+        return;
+      }
+
+      const runOnMainThread = () =>
+        executeSceneCode(code, canvas, size.width, size.height, {
+          random,
+          hooks: combineHooks(runtime.hooks, hooks),
+          onResize: sceneResizer.onResize,
+          timers: runtime.timers,
+          audio: sceneAudio.levels,
+          onLoopPeriod: setLoopPeriod,
+        }).catch((e) => {
+          // Code still running after teardown fails on its disposed objects
+          if (!runtime.disposed) setError({ ...toSceneError(e), repairable: true });
+        });
+
+      // Scene code runs in a worker where it can; the main thread is the fallback
+      if (!supportsOffscreenScenes()) {
+        void runOnMainThread();
+        return;
+      }
+      const offscreen = createOffscreenScene(canvas, {
+        code,
+        size,
+        seed,
+        complexity,
+        audio: audioReactive ? sceneAudio.levels : undefined,
+        onError: (e) => setError({ ...e, repairable: true }),
+        onShaderError,
+        onBudgetExceeded,
+        onLoopPeriod: setLoopPeriod,
+        onStalled: () =>
+          setError({
+            message: 'Scene stopped responding and was terminated (is there an endless loop?)',
+            repairable: true,
+          }),
+        onUnavailable: () => {
+          sceneRef.current = mainThreadScene;
+          setIsOffscreen(false);
+          void runOnMainThread();
+        },
+      });
+      sceneRef.current = offscreen;
+      setIsOffscreen(true);
+      runtime.addCleanup(offscreen.dispose);
     });
 
-    return () => cancelAnimationFrame(frameId);
-  }, [code, height]);
+    return () => {
+      cancelAnimationFrame(frameId);
+      sceneRef.current = null;
+      runtime.dispose();
+      restoreRandom();
+    };
+    // The size is read once; later changes go through the resizer instead of a rebuild.
+    // The scene inputs are read from the render that started this run
+  }, [sceneRun]);
+
+  // "Fix it": send the failing code and error to repair_mood_scene and
+  // re-render the corrected code in place, without a new chat turn
+  const handleRepair = useCallback(async () => {
+    if (!error) return;
+
+    setIsRepairing(true);
+    setRepairFailure(null);
+    setRepairStatus(null);
+    try {
+      const result = await callServerTool({
+        name: 'repair_mood_scene',
+        arguments: {
+          code,
+          error: error.message,
+          stack: error.details ?? error.stack,
+          emotion,
+          complexity,
+          height,
+          width,
+          aspect,
+          audioReactive,
+          seed: resultData?.seed,
+          promptVersion: resultData?.provenance?.promptVersion,
+        },
+      }, {
+        onprogress: (progress) => setRepairStatus(toToolProgress(progress).message ?? null),
+      });
+
+      const repaired = extractStructuredContent(result);
+      if (result.isError || !repaired?.code) {
+        throw new Error(extractText(result) || 'Repair returned no code');
+      }
+      setRepairedCode(repaired.code);
+    } catch (e) {
+      setRepairFailure(toSceneError(e).message);
+    } finally {
+      setIsRepairing(false);
+    }
+  }, [callServerTool, code, complexity, emotion, error, height, width, aspect, audioReactive, resultData?.seed, resultData?.provenance?.promptVersion]);
+
+  // Snapshots are the scene's next frame as PNG, saved or attached to the
+  // conversation so the model can see what it made
+  const captureSnapshot = useCallback(
+    async ({ scale, badge, action }: SnapshotRequest) => {
+      const scene = sceneRef.current;
+      if (!scene) throw new Error('The scene is not running');
+
+      const frame = await scene.capture(scale);
+      const detail = [blendLabel, resultData?.style].filter(Boolean).join('  ');
+      const png = await renderSnapshot(
+        frame,
+        badge && emotion ? { title: `🎨 ${emotion}`, detail: detail || undefined } : null,
+        scale
+      );
+
+      if (action === 'download') {
+        downloadBlob(png, exportFilename(emotion, 'png'));
+        return;
+      }
+      const result = await sendMessage({
+        role: 'user',
+        content: [
+          { type: 'text', text: `Here is a snapshot of the rendered ${emotion ?? 'mood'} scene. What do you think of how it turned out?` },
+          { type: 'image', data: await toBase64(png), mimeType: 'image/png' },
+        ],
+      });
+      if (result.isError) throw new Error('The host did not accept the snapshot');
+    },
+    [blendLabel, emotion, resultData?.style, sendMessage]
+  );
 
   // Show loading until we have the result with generated code
-  if (isStreaming || !toolResult) {
-    return <LoadingShimmer height={height} code={partialCode} emotion={emotion} />;
+  if (!showScene) {
+    return (
+      <LoadingShimmer height={height} code={partialCode} emotion={emotion} message={toolProgress?.message} />
+    );
   }
 
   return (
-    <div ref={containerRef} className="threejs-container" style={{ position: 'relative' }}>
+    <div
+      ref={containerRef}
+      className="threejs-container"
+      style={{ position: 'relative', width: width ?? '100%', maxWidth: '100%' }}
+    >
       {emotion && (
         <div
           style={{
@@ -292,18 +1026,61 @@ function MoodboardApp({
           }}
         >
           🎨 {emotion}
+          {blendLabel && <span style={{ marginLeft: 8, color: '#aaa', fontSize: 11 }}>{blendLabel}</span>}
+          {resultData?.style && (
+            <span style={{ marginLeft: 8, color: '#888', fontSize: 11 }}>{resultData.style}</span>
+          )}
+          {resultData?.mode === 'procedural' && (
+            <span
+              title={resultData.fallbackReason ? `AI generation failed: ${resultData.fallbackReason}` : undefined}
+              style={{ marginLeft: 8, color: '#888', fontSize: 11 }}
+            >
+              procedural
+            </span>
+          )}
         </div>
       )}
+      {audioReactive && <AudioControls source={audioSource} failure={audioFailure} onToggle={toggleAudio} />}
       <canvas
+        key={sceneRun}
         ref={canvasRef}
         style={{
           width: '100%',
-          height,
+          height: viewport?.height ?? height,
           borderRadius: 8,
           display: 'block',
           background: '#1a1a2e',
         }}
       />
+      {timeline && <TimelineControls timeline={timeline} />}
+      {viewport && <SnapshotControls size={viewport} hasBadge={!!emotion} onCapture={captureSnapshot} />}
+      {supportsRecording() && (
+        <RecordControls
+          key={sceneRun}
+          canvasRef={canvasRef}
+          loopPeriod={loopPeriod}
+          filename={exportFilename(emotion, 'webm')}
+          unavailable={isOffscreen ? 'Recording is not available while the scene runs in a worker' : null}
+        />
+      )}
+      {budgetNotice && !error && (
+        <div
+          style={{
+            position: 'absolute',
+            bottom: 12,
+            left: 12,
+            zIndex: 10,
+            background: 'rgba(180, 120, 20, 0.85)',
+            padding: '6px 10px',
+            borderRadius: 6,
+            color: '#fff',
+            fontFamily: 'system-ui',
+            fontSize: 11,
+          }}
+        >
+          {budgetNotice}
+        </div>
+      )}
       {error && (
         <div
           style={{
@@ -321,7 +1098,49 @@ function MoodboardApp({
             boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
           }}
         >
-          <strong>Error:</strong> {error}
+          <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+            <div style={{ flex: 1 }}>
+              <strong>Error:</strong> {error.message}
+              {error.details && (
+                <pre
+                  style={{
+                    margin: '6px 0 0',
+                    maxHeight: 160,
+                    overflow: 'auto',
+                    fontSize: 11,
+                    whiteSpace: 'pre-wrap',
+                    opacity: 0.9,
+                  }}
+                >
+                  {error.details}
+                </pre>
+              )}
+              {repairFailure && (
+                <div style={{ marginTop: 4, opacity: 0.85 }}>Repair failed: {repairFailure}</div>
+              )}
+            </div>
+            {error.repairable && (
+              <button
+                onClick={handleRepair}
+                disabled={isRepairing}
+                style={{
+                  background: '#fff',
+                  color: '#b91c1c',
+                  border: 'none',
+                  borderRadius: 6,
+                  padding: '6px 12px',
+                  fontFamily: 'system-ui',
+                  fontSize: 13,
+                  fontWeight: 600,
+                  cursor: isRepairing ? 'wait' : 'pointer',
+                  opacity: isRepairing ? 0.7 : 1,
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {isRepairing ? `${repairStatus ?? 'Fixing'}…` : 'Fix it'}
+              </button>
+            )}
+          </div>
         </div>
       )}
     </div>
@@ -335,6 +1154,7 @@ function MoodboardApp({
 function McpAppWrapper() {
   const [toolInputs, setToolInputs] = useState<MoodboardToolInput | null>(null);
   const [toolInputsPartial, setToolInputsPartial] = useState<MoodboardToolInput | null>(null);
+  const [toolProgress, setToolProgress] = useState<ToolProgress | null>(null);
   const [toolResult, setToolResult] = useState<CallToolResult | null>(null);
   const [hostContext, setHostContext] = useState<McpUiHostContext | null>(null);
 
@@ -346,6 +1166,7 @@ function McpAppWrapper() {
       appInstance.ontoolinput = (params) => {
         setToolInputs(params.arguments as MoodboardToolInput);
         setToolInputsPartial(null);
+        setToolProgress(null);
       };
 
       // Partial tool input (streaming in progress)
@@ -353,6 +1174,11 @@ function McpAppWrapper() {
         setToolInputsPartial(params.arguments as MoodboardToolInput);
       };
 
+      // Generation progress forwarded by the host (stage + streamed code)
+      appInstance.setNotificationHandler(ProgressNotificationSchema, (notification) => {
+        setToolProgress(toToolProgress(notification.params));
+      });
+
       // Tool execution result
       appInstance.ontoolresult = (params) => {
         setToolResult(params as CallToolResult);
@@ -370,8 +1196,10 @@ function McpAppWrapper() {
         console.error('[Moodboard] Error:', err);
       };
 
-      // Teardown handler
+      // Teardown handler: stop every scene and release the GPU before the host removes the widget
       appInstance.onteardown = async () => {
+        disposeAllSceneRuntimes();
+        sceneAudio.stop();
         return {};
       };
     },
@@ -407,6 +1235,7 @@ function McpAppWrapper() {
     <MoodboardApp
       toolInputs={toolInputs}
       toolInputsPartial={toolInputsPartial}
+      toolProgress={toolProgress}
       toolResult={toolResult}
       hostContext={hostContext}
       callServerTool={callServerTool}